@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { detectAnomalies, excludeAnomalousYears } from "../lib/fundamentals/anomalies";
+import { AnnualFundamentalPoint } from "../types/fundamentals";
+
+const point = (year: number, revenue: number, ebit: number, netIncome = ebit * 0.75): AnnualFundamentalPoint => ({
+  year,
+  revenue,
+  ebit,
+  netIncome,
+  fcf: netIncome,
+  operatingMargin: ebit / revenue,
+  netMargin: netIncome / revenue
+});
+
+// Steady ~20% operating margin, most recent first
+const steady = [point(2024, 1200, 240), point(2023, 1150, 230), point(2022, 1100, 220), point(2021, 1050, 210), point(2020, 1000, 200)];
+
+describe("detectAnomalies", () => {
+  it("finds nothing in a steady history", () => {
+    expect(detectAnomalies(steady)).toEqual([]);
+  });
+
+  it("flags a writedown year as a sign flip and a margin spike", () => {
+    const annual = [...steady];
+    annual[2] = point(2022, 1100, -150);
+
+    const anomalies = detectAnomalies(annual);
+
+    expect(anomalies.every((anomaly) => anomaly.year === 2022)).toBe(true);
+    expect(anomalies.map((anomaly) => `${anomaly.kind}:${anomaly.field}`)).toEqual([
+      "signFlip:ebit",
+      "signFlip:netIncome",
+      "signFlip:fcf",
+      "marginSpike:operatingMargin",
+      "marginSpike:netMargin"
+    ]);
+  });
+
+  it("flags revenue jumps against the prior year within configurable bounds", () => {
+    const annual = [point(2024, 2400, 480), ...steady.slice(1)];
+
+    expect(detectAnomalies(annual)).toEqual([
+      { year: 2024, kind: "jump", field: "revenue", message: "Revenue +109% vs 2023 (acquisition or restatement?)" }
+    ]);
+    expect(detectAnomalies(annual, { maxRevenueChange: 1.5 })).toEqual([]);
+  });
+
+  it("ignores placeholder zeros for missing figures", () => {
+    const annual = [...steady];
+    annual[1] = {
+      ...point(2023, 1150, 0, 0),
+      provenance: { revenue: "reported", ebit: "missing", netIncome: "missing", fcf: "missing" }
+    };
+
+    expect(detectAnomalies(annual)).toEqual([]);
+  });
+});
+
+describe("excludeAnomalousYears", () => {
+  it("drops flagged years but never empties the series", () => {
+    const anomalies = [{ year: 2022, kind: "signFlip" as const, field: "ebit" as const, message: "" }];
+
+    expect(excludeAnomalousYears(steady, anomalies).map((p) => p.year)).toEqual([2024, 2023, 2021, 2020]);
+    expect(excludeAnomalousYears([steady[2]], anomalies)).toEqual([steady[2]]);
+  });
+});
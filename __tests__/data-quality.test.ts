@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { combineProvenance, describeDcfInputIssues, describeProvenanceGaps } from "../lib/fundamentals/data-quality";
+import { computeTtm } from "../lib/fundamentals/ttm";
+import { FlowProvenance, FundamentalsResponse, QuarterlyFundamentalPoint } from "../types/fundamentals";
+
+const REPORTED: FlowProvenance = { revenue: "reported", ebit: "reported", netIncome: "reported", fcf: "reported" };
+
+const fundamentals = (provenance: FlowProvenance): FundamentalsResponse => ({
+  ticker: "XYZ",
+  currency: "USD",
+  financialCurrency: "USD",
+  annual: [{ year: 2024, revenue: 1000, ebit: 0, netIncome: 80, fcf: 60, operatingMargin: 0, netMargin: 0.08, provenance }],
+  ratios: { pe: null, pb: null, ps: null },
+  dataQuality: { reported: 2, derived: 1, missing: 1, flaggedYears: [2024] }
+});
+
+describe("data quality", () => {
+  it("keeps the worst provenance when combining figures", () => {
+    expect(combineProvenance(["reported", "derived", "reported"])).toBe("derived");
+    expect(combineProvenance(["derived", "missing"])).toBe("missing");
+    expect(combineProvenance([])).toBe("reported");
+  });
+
+  it("lists only non-reported fields", () => {
+    expect(describeProvenanceGaps(REPORTED)).toBeNull();
+    expect(describeProvenanceGaps(undefined)).toBeNull();
+    expect(describeProvenanceGaps({ ...REPORTED, ebit: "missing", fcf: "derived" })).toBe("EBIT missing, free cash flow derived");
+  });
+
+  it("warns about derived or missing figures in the DCF starting period", () => {
+    const warnings = describeDcfInputIssues(fundamentals({ ...REPORTED, ebit: "missing", fcf: "derived" }), "annual");
+
+    expect(warnings).toEqual([
+      "FY2024 EBIT was not reported and is treated as 0.",
+      "FY2024 free cash flow is derived from operating cash flow + capex."
+    ]);
+    expect(describeDcfInputIssues(fundamentals(REPORTED), "annual")).toEqual([]);
+    // No TTM point, nothing to describe
+    expect(describeDcfInputIssues(fundamentals(REPORTED), "ttm")).toEqual([]);
+  });
+
+  it("propagates quarterly provenance into TTM", () => {
+    const quarter = (periodEnd: string, provenance: FlowProvenance): QuarterlyFundamentalPoint => ({
+      year: Number(periodEnd.slice(0, 4)),
+      quarter: Math.floor((Number(periodEnd.slice(5, 7)) - 1) / 3) + 1,
+      periodEnd,
+      revenue: 100,
+      ebit: 20,
+      netIncome: 15,
+      fcf: 10,
+      operatingMargin: 0.2,
+      netMargin: 0.15,
+      provenance
+    });
+
+    const ttm = computeTtm([
+      quarter("2024-12-31", REPORTED),
+      quarter("2024-09-30", { ...REPORTED, fcf: "derived" }),
+      quarter("2024-06-30", REPORTED),
+      quarter("2024-03-31", { ...REPORTED, netIncome: "missing" })
+    ]);
+
+    expect(ttm?.provenance).toEqual({ revenue: "reported", ebit: "reported", netIncome: "missing", fcf: "derived" });
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, expect, it } from "vitest";
 
-import { runDcf, validateScenarioInput } from "../lib/valuation/dcf";
+import { computeStubFraction, runDcf, selectStartingPeriodEnd, selectStartingRevenue, validateScenarioInput } from "../lib/valuation/dcf";
+import { expandScenario, fadeLinear, fadeProjectionYears } from "../lib/valuation/multi-stage";
+import { FundamentalsResponse } from "../types/fundamentals";
 
 describe("dcf", () => {
   const scenario = {
@@ -58,4 +60,152 @@ describe("dcf", () => {
 
     expect(withMos.fairValueAfterMos).toBeCloseTo(noMos.fairValuePerShare * 0.8, 6);
   });
+
+  it("selects the starting revenue from the requested basis", () => {
+    const fundamentals: FundamentalsResponse = {
+      ticker: "AAPL",
+      currency: "USD",
+      financialCurrency: "USD",
+      annual: [{ year: 2024, revenue: 391e9, ebit: 123e9, netIncome: 94e9, fcf: 109e9, operatingMargin: 0.31, netMargin: 0.24 }],
+      ttm: { periodEnd: "2024-12-31", revenue: 395.8e9, ebit: 125.7e9, netIncome: 96e9, fcf: 98e9, operatingMargin: 0.32, netMargin: 0.24 },
+      ratios: { pe: null, pb: null, ps: null },
+      dataQuality: { reported: 4, derived: 0, missing: 0, flaggedYears: [] }
+    };
+
+    expect(selectStartingRevenue(fundamentals, "annual")).toBe(391e9);
+    expect(selectStartingRevenue(fundamentals, "ttm")).toBe(395.8e9);
+    // TTM requested but quarterly data unavailable
+    expect(selectStartingRevenue({ ...fundamentals, ttm: null }, "ttm")).toBeNull();
+  });
+
+  it("values a shorthand scenario the same as its expanded per-year form", () => {
+    const base = { currentRevenue: 100e9, netDebt: 20e9, sharesOutstanding: 15e9, currentPrice: 190, mosPercent: 25 };
+    const expanded = expandScenario(scenario);
+
+    expect(expanded.years).toHaveLength(10);
+    expect(expanded.years[4].revenueGrowth).toBe(0.08);
+    expect(expanded.years[5].revenueGrowth).toBe(0.05);
+    expect(runDcf({ ...base, scenario: expanded })).toEqual(runDcf({ ...base, scenario }));
+  });
+
+  it("fades shorthand growth to terminal growth over a longer horizon", () => {
+    const growth = expandScenario(scenario, 15).years.map((year) => year.revenueGrowth);
+
+    expect(growth).toHaveLength(15);
+    expect(growth[9]).toBe(0.05);
+    expect(growth[14]).toBeCloseTo(0.025, 10);
+    expect(growth[11]).toBeCloseTo(0.04, 10);
+  });
+
+  it("interpolates linearly between anchor years and holds the ends", () => {
+    expect(fadeLinear([[5, 0.1], [1, 0.2]], 6).map((value) => Number(value.toFixed(4)))).toEqual([0.2, 0.175, 0.15, 0.125, 0.1, 0.1]);
+    expect(fadeLinear([[3, 0.3]], 2)).toEqual([0.3, 0.3]);
+
+    const years = fadeProjectionYears(
+      [
+        { year: 1, revenueGrowth: 0.3, operatingMargin: 0.05, taxRate: 0.1, reinvestmentRate: 0.6 },
+        { year: 11, revenueGrowth: 0.03, operatingMargin: 0.25, taxRate: 0.25, reinvestmentRate: 0.2 }
+      ],
+      12
+    );
+    expect(years[5].operatingMargin).toBeCloseTo(0.15, 10);
+    expect(years[11]).toEqual(years[10]);
+  });
+
+  it("runs multi-stage scenarios over their own horizon", () => {
+    const base = { currentRevenue: 10e9, netDebt: 0, sharesOutstanding: 1e9, currentPrice: 50, mosPercent: 0 };
+    const turnaround = {
+      years: fadeProjectionYears(
+        [
+          { year: 1, revenueGrowth: 0.25, operatingMargin: 0.02, taxRate: 0.1, reinvestmentRate: 0.5 },
+          { year: 15, revenueGrowth: 0.03, operatingMargin: 0.2, taxRate: 0.25, reinvestmentRate: 0.25 }
+        ],
+        15
+      ),
+      wacc: 0.09,
+      terminalGrowth: 0.025
+    };
+
+    const result = runDcf({ ...base, scenario: turnaround });
+    const shorter = runDcf({ ...base, scenario: { ...turnaround, years: turnaround.years.slice(0, 10) } });
+
+    expect(result.fairValuePerShare).toBeGreaterThan(0);
+    expect(result.fairValuePerShare).not.toBeCloseTo(shorter.fairValuePerShare, 2);
+  });
+
+  it("validates multi-stage scenarios year by year", () => {
+    const years = expandScenario(scenario).years;
+
+    expect(() => validateScenarioInput({ years: [], wacc: 0.1, terminalGrowth: 0.02 })).toThrow("Projection horizon");
+    expect(() =>
+      validateScenarioInput({ years: [...years.slice(0, 2), { ...years[2], operatingMargin: 0.9 }], wacc: 0.1, terminalGrowth: 0.02 })
+    ).toThrow("Year 3 operating margin must be between 0 and 0.8.");
+  });
+
+  it("returns the per-year projection behind the enterprise value", () => {
+    const result = runDcf({
+      currentRevenue: 100_000_000_000,
+      netDebt: 20_000_000_000,
+      sharesOutstanding: 15_000_000_000,
+      currentPrice: 190,
+      mosPercent: 25,
+      scenario
+    });
+    const [first] = result.projection;
+    const presentValueSum = result.projection.reduce((sum, point) => sum + point.presentValue, 0);
+
+    expect(result.projection).toHaveLength(10);
+    expect(first.revenue).toBeCloseTo(108e9, 0);
+    expect(first.fcf).toBeCloseTo(108e9 * 0.2 * 0.78 * 0.65, 0);
+    expect(first.discountFactor).toBeCloseTo(1 / 1.1, 10);
+    expect(presentValueSum + result.discountedTerminalValue).toBeCloseTo(result.enterpriseValue, 0);
+    expect(result.terminalValueShare).toBeCloseTo(result.discountedTerminalValue / result.enterpriseValue, 10);
+  });
+
+  it("discounts mid-year flows half a year earlier", () => {
+    const base = { currentRevenue: 100e9, netDebt: 0, sharesOutstanding: 15e9, currentPrice: 190, mosPercent: 0, scenario };
+    const endOfYear = runDcf(base);
+    const midYear = runDcf({ ...base, timing: { convention: "mid-year", stubFraction: 0 } });
+
+    expect(runDcf({ ...base, timing: { convention: "end-of-year", stubFraction: 0 } })).toEqual(endOfYear);
+    expect(midYear.projection[0].discountPeriod).toBe(0.5);
+    expect(midYear.projection[0].presentValue).toBeCloseTo(endOfYear.projection[0].presentValue * Math.sqrt(1.1), 0);
+    // Terminal value is as of the end of the horizon under both conventions
+    expect(midYear.discountedTerminalValue).toBeCloseTo(endOfYear.discountedTerminalValue, 0);
+    expect(midYear.fairValuePerShare).toBeGreaterThan(endOfYear.fairValuePerShare);
+  });
+
+  it("counts only the unelapsed part of year 1 in a stub period", () => {
+    const base = { currentRevenue: 100e9, netDebt: 0, sharesOutstanding: 15e9, currentPrice: 190, mosPercent: 0, scenario };
+    const endOfYear = runDcf(base);
+    const stub = runDcf({ ...base, timing: { convention: "end-of-year", stubFraction: 0.25 } });
+
+    expect(stub.projection[0].discountPeriod).toBe(0.75);
+    expect(stub.projection[0].presentValue).toBeCloseTo((stub.projection[0].fcf * 0.75) / 1.1 ** 0.75, 0);
+    expect(stub.projection[1].discountPeriod).toBe(1.75);
+    expect(stub.discountedTerminalValue).toBeCloseTo(endOfYear.discountedTerminalValue * 1.1 ** 0.25, 0);
+
+    const midYearStub = runDcf({ ...base, timing: { convention: "mid-year", stubFraction: 0.25 } });
+    expect(midYearStub.projection[0].discountPeriod).toBe(0.375);
+    expect(midYearStub.projection[1].discountPeriod).toBe(1.25);
+  });
+
+  it("measures the stub from the starting period end to the valuation date", () => {
+    expect(computeStubFraction("2024-09-28", "2025-03-29")).toBeCloseTo(182 / 365.25, 10);
+    expect(computeStubFraction(null, "2025-03-29")).toBe(0);
+    expect(computeStubFraction("2025-06-30", "2025-03-29")).toBe(0);
+    expect(computeStubFraction("2022-12-31", "2025-03-29")).toBe(1);
+
+    const fundamentals: FundamentalsResponse = {
+      ticker: "AAPL",
+      currency: "USD",
+      financialCurrency: "USD",
+      annual: [{ year: 2024, periodEnd: "2024-09-28", revenue: 391e9, ebit: 123e9, netIncome: 94e9, fcf: 109e9, operatingMargin: 0.31, netMargin: 0.24 }],
+      ttm: { periodEnd: "2024-12-28", revenue: 395.8e9, ebit: 125.7e9, netIncome: 96e9, fcf: 98e9, operatingMargin: 0.32, netMargin: 0.24 },
+      ratios: { pe: null, pb: null, ps: null },
+      dataQuality: { reported: 4, derived: 0, missing: 0, flaggedYears: [] }
+    };
+    expect(selectStartingPeriodEnd(fundamentals, "annual")).toBe("2024-09-28");
+    expect(selectStartingPeriodEnd(fundamentals, "ttm")).toBe("2024-12-28");
+  });
 });
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { getMarketStatus, resolveExchange } from "../lib/market-data/exchanges";
+
+describe("resolveExchange", () => {
+  it("matches Yahoo exchange codes, including aliases", () => {
+    expect(resolveExchange("NMS", "AAPL")).toMatchObject({ code: "NMS", mic: "XNAS", country: "US", region: "US" });
+    expect(resolveExchange("ngm")?.mic).toBe("XNAS");
+    expect(resolveExchange("EBS", "NESN.SW")).toMatchObject({ mic: "XSWX", currency: "CHF", region: "EU" });
+  });
+
+  it("falls back to the ticker suffix when the code is missing or unknown", () => {
+    expect(resolveExchange(null, "ENI.MI")).toMatchObject({ code: "MIL", country: "IT", corporateTaxRate: 0.279 });
+    expect(resolveExchange("???", "7203.T")).toMatchObject({ country: "JP", region: "APAC", timezone: "Asia/Tokyo" });
+    expect(resolveExchange(undefined, "SHOP.TO")?.region).toBe("AMERICAS");
+  });
+
+  it("returns null outside the registry", () => {
+    expect(resolveExchange("XYZ", "AAPL")).toBeNull();
+    expect(resolveExchange(null, "FOO.ZZ")).toBeNull();
+  });
+});
+
+describe("getMarketStatus", () => {
+  const milan = resolveExchange("MIL")!;
+  const nyse = resolveExchange("NYQ")!;
+
+  it("uses local trading hours of the exchange", () => {
+    // Monday 2026-10-19: 10:00 in Milan (CEST, UTC+2) is 04:00 in New York (EDT)
+    const morning = new Date("2026-10-19T08:00:00Z");
+    expect(getMarketStatus(milan, morning)).toBe("open");
+    expect(getMarketStatus(nyse, morning)).toBe("closed");
+
+    // 17:30 Milan close is exclusive
+    expect(getMarketStatus(milan, new Date("2026-10-19T15:30:00Z"))).toBe("closed");
+  });
+
+  it("follows daylight saving time", () => {
+    // After the EU switch to CET (UTC+1) but before the US one: 09:30 in New York is 13:30 UTC
+    expect(getMarketStatus(nyse, new Date("2026-10-26T13:30:00Z"))).toBe("open");
+    expect(getMarketStatus(milan, new Date("2026-10-26T07:30:00Z"))).toBe("closed");
+    expect(getMarketStatus(milan, new Date("2026-10-26T08:00:00Z"))).toBe("open");
+  });
+
+  it("is closed on weekends", () => {
+    expect(getMarketStatus(milan, new Date("2026-10-17T10:00:00Z"))).toBe("closed");
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { convertValuation } from "../lib/currency";
+import { getFxRate } from "../lib/market-data/fx";
+import type { MarketDataProvider } from "../lib/market-data/provider";
+import { ValuationResponse } from "../types/valuation";
+
+// The cache layer imports the Prisma client; these tests never touch the DB
+vi.mock("../lib/db", () => ({ db: {} }));
+
+function providerWithRate(rate: number) {
+  const getFxRate = vi.fn(async () => ({ rate, asOf: "2025-03-03T21:00:00.000Z" }));
+  return { provider: { getFxRate } as unknown as MarketDataProvider, getFxRate };
+}
+
+describe("getFxRate", () => {
+  it("uses the provider rate between major currencies", async () => {
+    const { provider, getFxRate: providerFx } = providerWithRate(0.0305);
+
+    const fx = await getFxRate("TWD", "USD", provider);
+
+    expect(providerFx).toHaveBeenCalledWith("TWD", "USD");
+    expect(fx).toEqual({ from: "TWD", to: "USD", rate: 0.0305, asOf: "2025-03-03T21:00:00.000Z" });
+  });
+
+  it("scales minor units without calling the provider for the same major currency", async () => {
+    const { provider, getFxRate: providerFx } = providerWithRate(1.2);
+
+    // London listings trade in pence while statements are in pounds
+    expect((await getFxRate("GBP", "GBp", provider)).rate).toBe(100);
+    expect((await getFxRate("USD", "USD", provider)).rate).toBe(1);
+    expect(providerFx).not.toHaveBeenCalled();
+  });
+
+  it("combines minor units with the major rate", async () => {
+    const { provider } = providerWithRate(1.2); // 1 GBP = 1.2 EUR
+
+    const fx = await getFxRate("GBp", "EUR", provider);
+
+    expect(fx.rate).toBeCloseTo(0.012, 10);
+  });
+});
+
+describe("convertValuation", () => {
+  it("converts money amounts and keeps percentages", () => {
+    const result = {
+      enterpriseValue: 1000,
+      equityValue: 900,
+      fairValuePerShare: 90,
+      fairValueAfterMos: 67.5,
+      upsideVsPricePercent: 12.5,
+      projection: [
+        { year: 1, revenue: 500, revenueGrowth: 0.1, ebit: 100, operatingMargin: 0.2, nopat: 80, fcf: 50, discountPeriod: 1, discountFactor: 0.9, presentValue: 45 }
+      ],
+      terminalValue: 1500,
+      discountedTerminalValue: 955,
+      terminalValueShare: 0.955
+    };
+    const valuation: ValuationResponse = {
+      ticker: "ASML.AS",
+      currency: "EUR",
+      financialCurrency: "EUR",
+      fxRate: 1,
+      currentPrice: 60,
+      mosPercent: 25,
+      revenueBasis: "annual",
+      startingRevenue: 28000,
+      dataWarnings: [],
+      discounting: { convention: "end-of-year", valuationDate: "2025-03-31", periodEnd: "2024-12-31", stubFraction: 0.25 },
+      scenarios: { bull: result, base: result, bear: result },
+      weighted: { probabilities: { bull: 0.25, base: 0.5, bear: 0.25 }, fairValuePerShare: 90, fairValueAfterMos: 67.5, expectedUpsidePercent: 12.5 },
+      summary: { status: "fair", statusBasis: "base", baseScenarioUpsideAfterMos: 12.5, weightedUpsideAfterMos: 12.5 }
+    };
+
+    const converted = convertValuation(valuation, 2, "USD");
+
+    expect(converted.currency).toBe("USD");
+    expect(converted.currentPrice).toBe(120);
+    expect(converted.scenarios.base.fairValueAfterMos).toBe(135);
+    expect(converted.scenarios.base.upsideVsPricePercent).toBe(12.5);
+    expect(converted.scenarios.base.projection[0]).toMatchObject({ revenue: 1000, fcf: 100, presentValue: 90, operatingMargin: 0.2, discountFactor: 0.9 });
+    expect(converted.scenarios.base.discountedTerminalValue).toBe(1910);
+    expect(converted.scenarios.base.terminalValueShare).toBe(0.955);
+    expect(converted.weighted).toMatchObject({ fairValuePerShare: 180, fairValueAfterMos: 135, expectedUpsidePercent: 12.5 });
+    expect(converted.summary.baseScenarioUpsideAfterMos).toBe(12.5);
+  });
+});
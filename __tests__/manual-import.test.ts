@@ -0,0 +1,186 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+
+import {
+  detectDecimalSeparator,
+  manualToFundamentalsResponse,
+  parseAmount,
+  parseCsv,
+  parseStatementsTable
+} from "../lib/fundamentals/manual-import";
+import { readXlsxRows } from "../lib/fundamentals/xlsx";
+
+/**
+ * Build a minimal ZIP (deflated entries, no CRC: the reader doesn't check it).
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((total, part) => total + part.length, 0);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralSize, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, eocd]);
+}
+
+describe("parseAmount", () => {
+  it("reads both separator conventions, symbols and accounting negatives", () => {
+    expect(parseAmount("1,234,567.5")).toBe(1234567.5);
+    expect(parseAmount("1.234.567,5")).toBe(1234567.5);
+    expect(parseAmount("1,234", ".")).toBe(1234);
+    expect(parseAmount("12,5")).toBe(12.5);
+    expect(parseAmount("€ 2 500")).toBe(2500);
+    expect(parseAmount("(300)")).toBe(-300);
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount("-")).toBeNull();
+    expect(parseAmount("n/a")).toBeNaN();
+  });
+
+  it("reads a lone separator before three digits by the file's convention, never by guessing", () => {
+    expect(parseAmount("152.400", ",")).toBe(152400);
+    expect(parseAmount("152.400", ".")).toBe(152.4);
+    expect(parseAmount("1,234", ",")).toBe(1.234);
+    expect(parseAmount("(152.400)", ",")).toBe(-152400);
+    expect(parseAmount("152.400")).toBeNaN();
+    expect(parseAmount("152.4")).toBe(152.4);
+    expect(parseAmount("1.234.567")).toBe(1234567);
+  });
+});
+
+describe("parseCsv", () => {
+  it("detects semicolons and keeps quoted delimiters", () => {
+    expect(parseCsv('Anno;Ricavi;Note\r\n2024;"1.200,5";"a; b"\r\n\r\n')).toEqual([
+      ["Anno", "Ricavi", "Note"],
+      ["2024", "1.200,5", "a; b"]
+    ]);
+  });
+
+  it("takes the decimal separator from the delimiter", () => {
+    expect(detectDecimalSeparator("Anno;Ricavi\n2024;152.400")).toBe(",");
+    expect(detectDecimalSeparator("year,revenue\n2024,152.4")).toBe(".");
+    expect(detectDecimalSeparator("year\trevenue\n2024\t152.4")).toBeUndefined();
+  });
+});
+
+describe("parseStatementsTable", () => {
+  it("maps aliased columns, scales amounts and derives FCF and net debt", () => {
+    const result = parseStatementsTable(
+      [
+        ["Fiscal year", "Ricavi", "EBIT", "Net income", "Operating cash flow", "Capex", "Shares", "Total debt", "Cash"],
+        ["2023", "900", "90", "60", "100", "-30", "1000000", "500", "100"],
+        ["FY2024", "1000", "120", "", "110", "20", "950000", "400", "150"]
+      ],
+      "thousands"
+    );
+
+    expect(result.annual.map((point) => point.year)).toEqual([2024, 2023]);
+    const [latest] = result.annual;
+    expect(latest.revenue).toBe(1_000_000);
+    expect(latest.operatingMargin).toBeCloseTo(0.12, 10);
+    expect(latest.fcf).toBe(90_000);
+    expect(latest.provenance).toEqual({ revenue: "reported", ebit: "reported", netIncome: "missing", fcf: "derived" });
+    expect(latest.netShareChange).toBeCloseTo(-0.05, 10);
+    // Shares aren't scaled; net debt is the latest year's debt - cash
+    expect(result.sharesOutstanding).toBe(950_000);
+    expect(result.netDebt).toBe(250_000);
+  });
+
+  it("explains what is wrong with the file", () => {
+    expect(() => parseStatementsTable([["year", "ebit"], ["2024", "10"]])).toThrow('Missing required column "revenue".');
+    expect(() => parseStatementsTable([["year", "revenue"], ["2024", "abc"]])).toThrow('Row 2: "abc" is not a number');
+    expect(() => parseStatementsTable([["year", "revenue"], ["2024", "1"], ["2024", "2"]])).toThrow("fiscal year 2024 appears twice");
+    expect(() => parseStatementsTable([["year", "revenue"], ["2024", "152.400"]])).toThrow('Row 2: "152.400" could be a decimal');
+    expect(parseStatementsTable([["anno", "ricavi"], ["2024", "152.400"]], "units", ",").annual[0].revenue).toBe(152400);
+  });
+
+  it("presents uploads as a fundamentals response", () => {
+    const { annual, sharesOutstanding, netDebt } = parseStatementsTable([["year", "revenue"], ["2024", "100"]]);
+    const response = manualToFundamentalsResponse({
+      ticker: "ABC.MI", currency: "EUR", annual, sharesOutstanding, netDebt, fileName: "abc.csv", updatedAt: "2026-10-19T00:00:00.000Z"
+    });
+
+    expect(response.financialCurrency).toBe("EUR");
+    expect(response.dataQuality).toEqual({ reported: 1, derived: 0, missing: 3, flaggedYears: [2024] });
+    expect(response.manualImport).toEqual({ fileName: "abc.csv", updatedAt: "2026-10-19T00:00:00.000Z" });
+  });
+});
+
+describe("readXlsxRows", () => {
+  it("reads the first worksheet with shared and inline strings", () => {
+    const workbook = zip({
+      "xl/workbook.xml": '<workbook><sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/data.xml"/></Relationships>',
+      "xl/sharedStrings.xml": "<sst><si><t>Year</t></si><si><r><t>Rev</t></r><r><t>enue</t></r></si></sst>",
+      "xl/worksheets/data.xml":
+        '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2"><v>2024</v></c><c r="C2"><v>1250.5</v></c></row>' +
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>Q &amp; A</t></is></c></row></sheetData></worksheet>'
+    });
+
+    expect(readXlsxRows(workbook)).toEqual([
+      ["Year", "", "Revenue"],
+      ["2024", "", "1250.5"],
+      ["Q & A"]
+    ]);
+  });
+
+  it("rejects files that aren't workbooks", () => {
+    expect(() => readXlsxRows(Buffer.from("year,revenue\n2024,100".padEnd(64, " ")))).toThrow("Not a valid .xlsx file.");
+  });
+
+  it("rejects truncated archives without a raw RangeError", () => {
+    const workbook = zip({ "xl/worksheets/sheet1.xml": '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData></worksheet>' });
+    // Point the central directory past the end of the file
+    workbook.writeUInt32LE(0xfffffff0, workbook.length - 22 + 16);
+
+    expect(() => readXlsxRows(workbook)).toThrow("Not a valid .xlsx file.");
+  });
+
+  it("never inflates unused parts and caps the parts it reads", () => {
+    const sheet = '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData></worksheet>';
+    const bomb = "0".repeat(5 * 1024 * 1024);
+
+    expect(readXlsxRows(zip({ "xl/worksheets/sheet1.xml": sheet, "xl/media/huge.bin": bomb }))).toEqual([["1"]]);
+    expect(() => readXlsxRows(zip({ "xl/worksheets/sheet1.xml": sheet, "xl/sharedStrings.xml": bomb }))).toThrow(
+      "The workbook is too large to read."
+    );
+  });
+
+  it("rejects cell references past the last Excel column", () => {
+    const sheet = (reference: string) =>
+      `<worksheet><sheetData><row r="1"><c r="${reference}"><v>1</v></c></row></sheetData></worksheet>`;
+
+    expect(readXlsxRows(zip({ "xl/worksheets/sheet1.xml": sheet("XFD1") }))[0]).toHaveLength(16384);
+    expect(() => readXlsxRows(zip({ "xl/worksheets/sheet1.xml": sheet("ZZZZZZZZZZ1") }))).toThrow(
+      "cell ZZZZZZZZZZ1 is past the last column (XFD)"
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { cachedFetch, cachedFetchMany } from "../lib/market-data/cache";
+
+// In-memory stand-in for the MarketDataCache table
+const rows = new Map<string, { payload: string; fetchedAt: Date }>();
+const keyOf = (where: { provider_ticker_kind: { provider: string; ticker: string; kind: string } }) => {
+  const { provider, ticker, kind } = where.provider_ticker_kind;
+  return `${provider}:${ticker}:${kind}`;
+};
+
+vi.mock("../lib/db", () => ({
+  db: {
+    marketDataCache: {
+      findUnique: async ({ where }: any) => rows.get(keyOf(where)) ?? null,
+      upsert: async ({ where, create }: any) => {
+        rows.set(keyOf(where), { payload: create.payload, fetchedAt: create.fetchedAt });
+      }
+    }
+  }
+}));
+
+describe("cachedFetch", () => {
+  beforeEach(() => {
+    rows.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fetches on miss and serves fresh copies within the TTL", async () => {
+    const fetcher = vi.fn().mockResolvedValue({ price: 100 });
+
+    const first = await cachedFetch("yahoo", "aapl", "quote", fetcher);
+    expect(first.cacheStatus).toBe("miss");
+    expect(first.data).toEqual({ price: 100 });
+
+    vi.setSystemTime(new Date("2026-03-02T10:03:00Z"));
+    const second = await cachedFetch("yahoo", "AAPL", "quote", fetcher);
+
+    expect(second.cacheStatus).toBe("fresh");
+    expect(second.fetchedAt).toBe("2026-03-02T10:00:00.000Z");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves stale data while refreshing in the background", async () => {
+    await cachedFetch("yahoo", "AAPL", "quote", async () => ({ price: 100 }));
+
+    // Past the 5-minute quote TTL but inside the stale window
+    vi.setSystemTime(new Date("2026-03-02T10:20:00Z"));
+    const refresh = vi.fn().mockResolvedValue({ price: 105 });
+    const stale = await cachedFetch("yahoo", "AAPL", "quote", refresh);
+
+    expect(stale.cacheStatus).toBe("stale");
+    expect(stale.data).toEqual({ price: 100 });
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    // Let the background refresh settle, then the new value is fresh
+    await vi.runAllTimersAsync();
+    const fresh = await cachedFetch("yahoo", "AAPL", "quote", refresh);
+    expect(fresh.cacheStatus).toBe("fresh");
+    expect(fresh.data).toEqual({ price: 105 });
+  });
+
+  it("refetches synchronously once past the stale window", async () => {
+    await cachedFetch("yahoo", "AAPL", "quote", async () => ({ price: 100 }));
+
+    vi.setSystemTime(new Date("2026-03-02T12:00:00Z"));
+    const result = await cachedFetch("yahoo", "AAPL", "quote", async () => ({ price: 110 }));
+
+    expect(result.cacheStatus).toBe("miss");
+    expect(result.data).toEqual({ price: 110 });
+  });
+
+  it("falls back to the expired copy when the provider fails", async () => {
+    await cachedFetch("yahoo", "AAPL", "quote", async () => ({ price: 100 }));
+
+    vi.setSystemTime(new Date("2026-03-02T12:00:00Z"));
+    const result = await cachedFetch("yahoo", "AAPL", "quote", async () => {
+      throw new Error("Yahoo Finance rate limit reached. Retry in 30-60 seconds.");
+    });
+
+    expect(result.cacheStatus).toBe("stale");
+    expect(result.data).toEqual({ price: 100 });
+  });
+
+  it("propagates provider errors when nothing is cached", async () => {
+    await expect(
+      cachedFetch("yahoo", "AAPL", "quote", async () => {
+        throw new Error("Ticker not found or unavailable on Yahoo Finance.");
+      })
+    ).rejects.toThrow("Ticker not found");
+  });
+});
+
+describe("cachedFetchMany", () => {
+  beforeEach(() => {
+    rows.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves cached tickers and fetches the rest in one batch", async () => {
+    await cachedFetch("yahoo", "AAPL", "quote", async () => ({ price: 100 }));
+
+    const fetchMany = vi.fn(async (tickers: string[]) =>
+      tickers.map((ticker) => (ticker === "ZZZZ" ? { ticker, error: "Ticker not found." } : { ticker, data: { price: 50 } }))
+    );
+    const results = await cachedFetchMany("yahoo", ["aapl", "msft", "ZZZZ"], "quote", fetchMany);
+
+    expect(fetchMany).toHaveBeenCalledExactlyOnceWith(["MSFT", "ZZZZ"]);
+    expect(results).toEqual([
+      { ticker: "AAPL", data: { data: { price: 100 }, fetchedAt: "2026-03-02T10:00:00.000Z", cacheStatus: "fresh" } },
+      { ticker: "MSFT", data: { data: { price: 50 }, fetchedAt: "2026-03-02T10:00:00.000Z", cacheStatus: "miss" } },
+      { ticker: "ZZZZ", error: "Ticker not found." }
+    ]);
+  });
+
+  it("falls back to expired copies per ticker when the batch fails", async () => {
+    await cachedFetch("yahoo", "AAPL", "quote", async () => ({ price: 100 }));
+    vi.setSystemTime(new Date("2026-03-02T12:00:00Z"));
+
+    const results = await cachedFetchMany("yahoo", ["AAPL", "MSFT"], "quote", async () => {
+      throw new Error("Yahoo Finance rate limit reached. Retry in 30-60 seconds.");
+    });
+
+    expect(results[0]).toMatchObject({ ticker: "AAPL", data: { cacheStatus: "stale", data: { price: 100 } } });
+    expect(results[1]).toEqual({ ticker: "MSFT", error: "Yahoo Finance rate limit reached. Retry in 30-60 seconds." });
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { getMarketDataProvider } from "../lib/market-data/provider";
+
+// The cache layer imports the Prisma client; these tests never touch the DB
+vi.mock("../lib/db", () => ({ db: {} }));
+
+describe("getMarketDataProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("defaults to the Yahoo provider", () => {
+    vi.stubEnv("MARKET_DATA_PROVIDER", undefined);
+    expect(getMarketDataProvider().name).toBe("yahoo");
+  });
+
+  it("resolves the provider named in configuration (case-insensitive)", () => {
+    vi.stubEnv("MARKET_DATA_PROVIDER", "Yahoo");
+    const provider = getMarketDataProvider();
+
+    expect(provider.name).toBe("yahoo");
+    expect(typeof provider.getQuote).toBe("function");
+    expect(typeof provider.getFundamentals).toBe("function");
+  });
+
+  it("registers the SEC provider with Yahoo for market data", () => {
+    const provider = getMarketDataProvider("sec");
+
+    expect(provider.name).toBe("sec");
+    expect(typeof provider.getQuote).toBe("function");
+  });
+
+  it("throws for unknown providers instead of silently falling back", () => {
+    expect(() => getMarketDataProvider("bloomberg")).toThrow('Unknown market data provider "bloomberg"');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import { runDcf } from "../lib/valuation/dcf";
+import { createRng, distributionsFromScenarios, runMonteCarlo, sampleDistribution } from "../lib/valuation/monte-carlo";
+import { getDefaultScenarios } from "../lib/valuation/scenario-presets";
+
+describe("monte carlo", () => {
+  const base = {
+    revenueGrowthYears1to5: 0.08,
+    revenueGrowthYears6to10: 0.05,
+    operatingMarginTarget: 0.2,
+    taxRate: 0.22,
+    reinvestmentRate: 0.35,
+    wacc: 0.1,
+    terminalGrowth: 0.025
+  };
+  const dcf = { currentRevenue: 100e9, netDebt: 20e9, sharesOutstanding: 15e9, currentPrice: 190 };
+
+  it("reproduces a run from its seed", () => {
+    const options = {
+      dcf,
+      base,
+      distributions: { revenueGrowthYears1to5: { type: "normal" as const, mean: 0.08, stdDev: 0.03 } },
+      runs: 500,
+      seed: 42
+    };
+
+    expect(runMonteCarlo(options)).toEqual(runMonteCarlo(options));
+    expect(runMonteCarlo({ ...options, seed: 43 }).mean).not.toBe(runMonteCarlo(options).mean);
+  });
+
+  it("collapses to the point valuation without distributions", () => {
+    const result = runMonteCarlo({ dcf, base, distributions: {}, runs: 100, seed: 1 });
+    const point = runDcf({ ...dcf, mosPercent: 0, scenario: base }).fairValuePerShare;
+
+    expect(result.percentiles.p5).toBeCloseTo(point, 8);
+    expect(result.percentiles.p95).toBeCloseTo(point, 8);
+    expect(result.probabilityAbovePrice).toBe(point > dcf.currentPrice ? 1 : 0);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(100);
+  });
+
+  it("orders percentiles and counts every run in the histogram", () => {
+    // Price the stock at the base case so runs fall on both sides of it
+    const currentPrice = runDcf({ ...dcf, mosPercent: 0, scenario: base }).fairValuePerShare;
+    const result = runMonteCarlo({
+      dcf: { ...dcf, currentPrice },
+      base,
+      distributions: {
+        revenueGrowthYears1to5: { type: "triangular", min: 0.02, mode: 0.08, max: 0.15 },
+        operatingMarginTarget: { type: "uniform", min: 0.15, max: 0.25 },
+        wacc: { type: "normal", mean: 0.09, stdDev: 0.01 }
+      },
+      correlation: 0.6,
+      runs: 2000,
+      seed: 7,
+      bins: 20
+    });
+
+    const { p5, p25, p50, p75, p95 } = result.percentiles;
+    expect(p5).toBeLessThan(p25);
+    expect(p25).toBeLessThan(p50);
+    expect(p50).toBeLessThan(p75);
+    expect(p75).toBeLessThan(p95);
+    expect(result.histogram).toHaveLength(20);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(result.runs);
+    expect(result.probabilityAbovePrice).toBeGreaterThan(0);
+    expect(result.probabilityAbovePrice).toBeLessThan(1);
+  });
+
+  it("correlates growth and margin draws", () => {
+    const draws = (correlation: number) => {
+      const result = { growth: [] as number[], margin: [] as number[] };
+      const random = createRng(3);
+      const normal = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      for (let i = 0; i < 2000; i += 1) {
+        const z = normal();
+        result.growth.push(sampleDistribution({ type: "uniform", min: 0, max: 0.2 }, z));
+        result.margin.push(sampleDistribution({ type: "uniform", min: 0.1, max: 0.3 }, correlation * z + Math.sqrt(1 - correlation ** 2) * normal()));
+      }
+      return result;
+    };
+    const pearson = ({ growth, margin }: { growth: number[]; margin: number[] }) => {
+      const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+      const [mg, mm] = [mean(growth), mean(margin)];
+      const cov = growth.reduce((sum, value, i) => sum + (value - mg) * (margin[i] - mm), 0);
+      const sg = Math.sqrt(growth.reduce((sum, value) => sum + (value - mg) ** 2, 0));
+      const sm = Math.sqrt(margin.reduce((sum, value) => sum + (value - mm) ** 2, 0));
+      return cov / (sg * sm);
+    };
+
+    expect(pearson(draws(0.8))).toBeGreaterThan(0.7);
+    expect(Math.abs(pearson(draws(0)))).toBeLessThan(0.1);
+  });
+
+  it("spans the bull/bear spread with triangular distributions around the base case", () => {
+    const scenarios = getDefaultScenarios();
+    const distributions = distributionsFromScenarios(scenarios);
+
+    expect(distributions.wacc).toEqual({
+      type: "triangular",
+      min: Math.min(scenarios.bull.wacc, scenarios.bear.wacc, scenarios.base.wacc),
+      mode: scenarios.base.wacc,
+      max: Math.max(scenarios.bull.wacc, scenarios.bear.wacc, scenarios.base.wacc)
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { OutboundSchedulerOptions, createOutboundScheduler } from "../lib/market-data/scheduler";
+
+const RATE_LIMIT_MESSAGE = "Vendor rate limit reached.";
+
+// Virtual clock: sleeping advances time instantly and records each delay
+function setup(overrides: Partial<OutboundSchedulerOptions> = {}) {
+  let time = 0;
+  const sleeps: number[] = [];
+  const scheduler = createOutboundScheduler({
+    requestsPerSecond: 1000,
+    retries: 2,
+    retryDelayMs: 250,
+    rateLimitDelayMs: 2000,
+    breakerThreshold: 3,
+    breakerCooldownMs: 60_000,
+    isRateLimited: (error) => error instanceof Error && error.message.includes("429"),
+    rateLimitError: () => new Error(RATE_LIMIT_MESSAGE),
+    now: () => time,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      time += ms;
+    },
+    random: () => 0.5,
+    ...overrides
+  });
+  return { scheduler, sleeps, advance: (ms: number) => (time += ms) };
+}
+
+const tooManyRequests = () => new Error("Failed with status 429 Too Many Requests");
+
+describe("createOutboundScheduler", () => {
+  it("shares one call between concurrent requests with the same key", async () => {
+    const { scheduler } = setup();
+    const task = vi.fn(async () => "payload");
+
+    const results = await Promise.all([scheduler.run("quote:AAPL", task), scheduler.run("quote:AAPL", task)]);
+    await scheduler.run("quote:MSFT", task);
+
+    expect(results).toEqual(["payload", "payload"]);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs the call again once the previous one settled", async () => {
+    const { scheduler } = setup();
+    const task = vi.fn(async () => "payload");
+
+    await scheduler.run("quote:AAPL", task);
+    await scheduler.run("quote:AAPL", task);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("spaces calls to the requests-per-second budget", async () => {
+    const { scheduler, sleeps } = setup({ requestsPerSecond: 2 });
+    const task = async () => "ok";
+
+    await Promise.all(["A", "B", "C"].map((ticker) => scheduler.run(`quote:${ticker}`, task)));
+
+    // B starts at 0.5 s, C at 1 s (the virtual clock advances while B sleeps)
+    expect(sleeps).toEqual([500, 500]);
+  });
+
+  it("retries transient errors quickly and rate limits with a longer backoff", async () => {
+    const transient = setup();
+    const flaky = vi.fn().mockRejectedValueOnce(new Error("socket hang up")).mockResolvedValue("ok");
+    await expect(transient.scheduler.run("a", flaky)).resolves.toBe("ok");
+    expect(transient.sleeps).toEqual([250]);
+
+    const limited = setup();
+    const throttled = vi.fn().mockRejectedValueOnce(tooManyRequests()).mockRejectedValueOnce(tooManyRequests()).mockResolvedValue("ok");
+    await expect(limited.scheduler.run("b", throttled)).resolves.toBe("ok");
+    // 2 s then 4 s, jitter factor 1 with random() = 0.5
+    expect(limited.sleeps).toEqual([2000, 4000]);
+  });
+
+  it("opens the breaker after repeated rate limits and fails fast until the cooldown ends", async () => {
+    const { scheduler, advance } = setup();
+    const throttled = vi.fn(async () => {
+      throw tooManyRequests();
+    });
+
+    await expect(scheduler.run("a", throttled)).rejects.toThrow(RATE_LIMIT_MESSAGE);
+    expect(throttled).toHaveBeenCalledTimes(3);
+    expect(scheduler.isOpen()).toBe(true);
+
+    const healthy = vi.fn(async () => "ok");
+    await expect(scheduler.run("b", healthy)).rejects.toThrow(RATE_LIMIT_MESSAGE);
+    expect(healthy).not.toHaveBeenCalled();
+
+    advance(60_000);
+    await expect(scheduler.run("b", healthy)).resolves.toBe("ok");
+    expect(scheduler.isOpen()).toBe(false);
+  });
+
+  it("sends one probe after the cooldown and fails other calls fast until it settles", async () => {
+    const { scheduler, advance } = setup();
+    await expect(scheduler.run("a", async () => Promise.reject(tooManyRequests()))).rejects.toThrow(RATE_LIMIT_MESSAGE);
+    advance(60_000);
+
+    let settleProbe: (value: string) => void = () => {};
+    const probe = scheduler.run("probe", () => new Promise<string>((resolve) => (settleProbe = resolve)));
+    // Let the probe take its slot
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const other = vi.fn(async () => "ok");
+    await expect(scheduler.run("other", other)).rejects.toThrow(RATE_LIMIT_MESSAGE);
+    expect(other).not.toHaveBeenCalled();
+    expect(scheduler.isOpen()).toBe(true);
+
+    settleProbe("ok");
+    await expect(probe).resolves.toBe("ok");
+    await expect(scheduler.run("other", other)).resolves.toBe("ok");
+  });
+
+  it("reopens the breaker when the probe is rate limited, without retrying it", async () => {
+    const { scheduler, advance } = setup();
+    await expect(scheduler.run("a", async () => Promise.reject(tooManyRequests()))).rejects.toThrow(RATE_LIMIT_MESSAGE);
+    advance(60_000);
+
+    const throttled = vi.fn(async () => {
+      throw tooManyRequests();
+    });
+    await expect(scheduler.run("probe", throttled)).rejects.toThrow(RATE_LIMIT_MESSAGE);
+    expect(throttled).toHaveBeenCalledTimes(1);
+    expect(scheduler.isOpen()).toBe(true);
+  });
+});
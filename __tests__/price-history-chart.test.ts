@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+
+import { summarizePriceGap } from "../components/price-history-chart";
+
+describe("summarizePriceGap", () => {
+  const points = [
+    { date: "2024-01-02", close: 80 },
+    { date: "2024-06-03", close: 150 },
+    { date: "2024-12-31", close: 110 }
+  ];
+
+  it("reports the lowest and highest close relative to fair value", () => {
+    const gap = summarizePriceGap(points, 100);
+    expect(gap?.minGap).toBeCloseTo(-0.2, 10);
+    expect(gap?.maxGap).toBeCloseTo(0.5, 10);
+  });
+
+  it("returns null without data or a usable fair value", () => {
+    expect(summarizePriceGap([], 100)).toBeNull();
+    expect(summarizePriceGap(points, 0)).toBeNull();
+    expect(summarizePriceGap(points, -5)).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { runDcf } from "../lib/valuation/dcf";
+import { solveImpliedValue } from "../lib/valuation/reverse-dcf";
+
+describe("solveImpliedValue", () => {
+  const scenario = {
+    revenueGrowthYears1to5: 0.08,
+    revenueGrowthYears6to10: 0.05,
+    operatingMarginTarget: 0.2,
+    taxRate: 0.22,
+    reinvestmentRate: 0.35,
+    wacc: 0.1,
+    terminalGrowth: 0.025
+  };
+  const base = { currentRevenue: 100e9, netDebt: 20e9, sharesOutstanding: 15e9, mosPercent: 25, scenario };
+
+  // Price the stock exactly at a known scenario's fair value, then solve back for it
+  const priceAt = (overrides: Partial<typeof scenario>) =>
+    runDcf({ ...base, currentPrice: 1, scenario: { ...scenario, ...overrides } }).fairValuePerShare;
+
+  it("recovers the growth the price implies", () => {
+    const result = solveImpliedValue({ ...base, currentPrice: priceAt({ revenueGrowthYears1to5: 0.15 }) }, "revenueGrowthYears1to5");
+
+    expect(result.value).toBeCloseTo(0.15, 5);
+    expect(result.outOfRange).toBeNull();
+    expect(result.iterations).toBeGreaterThan(0);
+  });
+
+  it("solves for margin and for WACC (fair value falls as WACC rises)", () => {
+    const margin = solveImpliedValue({ ...base, currentPrice: priceAt({ operatingMarginTarget: 0.31 }) }, "operatingMarginTarget");
+    const wacc = solveImpliedValue({ ...base, currentPrice: priceAt({ wacc: 0.083 }) }, "wacc");
+
+    expect(margin.value).toBeCloseTo(0.31, 5);
+    expect(wacc.value).toBeCloseTo(0.083, 5);
+  });
+
+  it("reports which side of the bounds an unreachable price lies on", () => {
+    const expensive = solveImpliedValue({ ...base, currentPrice: 1e6 }, "revenueGrowthYears1to5");
+    const cheap = solveImpliedValue({ ...base, currentPrice: 0.01 }, "wacc");
+
+    expect(expensive).toMatchObject({ value: null, outOfRange: "above" });
+    // Even a 30% WACC values the stock above 1 cent: the implied WACC is higher still
+    expect(cheap).toMatchObject({ value: null, outOfRange: "above" });
+  });
+});
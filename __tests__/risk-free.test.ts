@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { MarketDataProvider } from "../lib/market-data/provider";
+import { getRiskFreeRate, resolveRiskFreeBenchmark } from "../lib/market-data/risk-free";
+
+// The cache layer imports the Prisma client; these tests never touch the DB
+vi.mock("../lib/db", () => ({ db: {} }));
+
+function providerWithYield(result: { rate: number; asOf: string } | null) {
+  const getRiskFreeRate = vi.fn(async () => result);
+  return { provider: { getRiskFreeRate } as unknown as MarketDataProvider, getRiskFreeRate };
+}
+
+describe("resolveRiskFreeBenchmark", () => {
+  it("picks the euro-area issuer from the exchange suffix", () => {
+    expect(resolveRiskFreeBenchmark("EUR", "ENI.MI")?.label).toBe("BTP 10Y");
+    expect(resolveRiskFreeBenchmark("EUR", "MC.PA")?.label).toBe("OAT 10Y");
+    // Unknown euro exchange: Bund as the euro-area benchmark
+    expect(resolveRiskFreeBenchmark("EUR", "NOKIA.HE")?.label).toBe("Bund 10Y");
+  });
+
+  it("maps currencies (including minor units) to their sovereign", () => {
+    expect(resolveRiskFreeBenchmark("GBp", "SHEL.L")?.label).toBe("Gilt 10Y");
+    expect(resolveRiskFreeBenchmark("JPY")?.label).toBe("JGB 10Y");
+    expect(resolveRiskFreeBenchmark("BRL")).toBeNull();
+  });
+});
+
+describe("getRiskFreeRate", () => {
+  afterEach(() => {
+    delete process.env.RISK_FREE_FALLBACK_RATES;
+  });
+
+  it("uses the live quote when the benchmark has one", async () => {
+    const { provider, getRiskFreeRate: providerYield } = providerWithYield({ rate: 0.0416, asOf: "2025-03-03T21:00:00.000Z" });
+
+    const rf = await getRiskFreeRate("USD", "AAPL", provider);
+
+    expect(providerYield).toHaveBeenCalledWith("^TNX");
+    expect(rf).toMatchObject({ rate: 0.0416, country: "US", label: "US 10Y", source: "market" });
+  });
+
+  it("falls back to the table when the live quote is unavailable", async () => {
+    const { provider } = providerWithYield(null);
+
+    const rf = await getRiskFreeRate("USD", "AAPL", provider);
+
+    expect(rf).toMatchObject({ rate: 0.042, asOf: null, source: "fallback" });
+  });
+
+  it("applies fallback overrides from configuration", async () => {
+    process.env.RISK_FREE_FALLBACK_RATES = "it=0.0375, DE=bad";
+    const { provider, getRiskFreeRate: providerYield } = providerWithYield(null);
+
+    expect(await getRiskFreeRate("EUR", "ENI.MI", provider)).toMatchObject({ rate: 0.0375, source: "static" });
+    // Malformed entries are ignored
+    expect((await getRiskFreeRate("EUR", "SAP.DE", provider))?.rate).toBe(0.026);
+    // Benchmarks without a live symbol never call the provider
+    expect(providerYield).not.toHaveBeenCalled();
+  });
+
+  it("ignores overrides outside the plausible yield range", async () => {
+    process.env.RISK_FREE_FALLBACK_RATES = "IT=3.6,DE=-0.05,CH=-0.002";
+    const { provider } = providerWithYield(null);
+
+    // A percent instead of a decimal keeps the built-in rate
+    expect((await getRiskFreeRate("EUR", "ENI.MI", provider))?.rate).toBe(0.035);
+    expect((await getRiskFreeRate("EUR", "SAP.DE", provider))?.rate).toBe(0.026);
+    expect((await getRiskFreeRate("CHF", "NESN.SW", provider))?.rate).toBe(-0.002);
+  });
+});
@@ -63,4 +63,53 @@ describe("ScenarioPanel", () => {
     expect(screen.getByText("$245")).toBeDefined();
     expect(screen.getByText("30.0%")).toBeDefined();
   });
+
+  it("shows the market-implied growth, or the bound it lies beyond", () => {
+    const props = {
+      scenarios: getDefaultScenarios(),
+      mosPercent: 25,
+      analystEstimates: null,
+      scenarioSource: "smart" as const,
+      onMosChange: () => {},
+      onScenarioChange: () => {},
+      onResetSmart: () => {},
+      onResetGeneric: () => {},
+      onRecalculate: () => {}
+    };
+
+    const { rerender } = render(
+      <ScenarioPanel {...props} impliedGrowth={{ variable: "revenueGrowthYears1to5", value: 0.143, outOfRange: null, iterations: 20 }} />
+    );
+    expect(screen.getByText(/Market-implied growth Y1-5/)).toBeDefined();
+    expect(screen.getByText("+14.3%")).toBeDefined();
+
+    rerender(
+      <ScenarioPanel {...props} impliedGrowth={{ variable: "revenueGrowthYears1to5", value: null, outOfRange: "above", iterations: 0 }} />
+    );
+    expect(screen.getByText("above +60%")).toBeDefined();
+  });
+
+  it("edits scenario probabilities and warns when they don't total 100%", () => {
+    const onProbabilityChange = vi.fn();
+
+    render(
+      <ScenarioPanel
+        scenarios={getDefaultScenarios()}
+        mosPercent={25}
+        analystEstimates={null}
+        scenarioSource="generic"
+        onMosChange={() => {}}
+        onScenarioChange={() => {}}
+        onResetSmart={() => {}}
+        onResetGeneric={() => {}}
+        onRecalculate={() => {}}
+        probabilities={{ bull: 0.2, base: 0.5, bear: 0.2 }}
+        onProbabilityChange={onProbabilityChange}
+      />
+    );
+
+    expect(screen.getByText(/add up to 90%/)).toBeDefined();
+    fireEvent.change(screen.getAllByLabelText("Probability (%)")[2], { target: { value: "30" } });
+    expect(onProbabilityChange).toHaveBeenCalledWith("bear", 0.3);
+  });
 });
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { getCompanyScenarios, getDefaultScenarios } from "../lib/valuation/scenario-presets";
+import { getCompanyScenarios, getDefaultScenarios, selectScenarioHistory } from "../lib/valuation/scenario-presets";
 import { FundamentalsResponse } from "../types/fundamentals";
 import { AnalystEstimates } from "../types/valuation";
 
@@ -8,6 +8,7 @@ import { AnalystEstimates } from "../types/valuation";
 const appleFundamentals: FundamentalsResponse = {
   ticker: "AAPL",
   currency: "USD",
+  financialCurrency: "USD",
   annual: [
     { year: 2025, revenue: 391035e6, ebit: 123215e6, netIncome: 93736e6, fcf: 108807e6, operatingMargin: 0.315, netMargin: 0.24 },
     { year: 2024, revenue: 383285e6, ebit: 114301e6, netIncome: 96995e6, fcf: 99584e6, operatingMargin: 0.298, netMargin: 0.253 },
@@ -15,6 +16,7 @@ const appleFundamentals: FundamentalsResponse = {
     { year: 2022, revenue: 365817e6, ebit: 119437e6, netIncome: 99803e6, fcf: 111443e6, operatingMargin: 0.327, netMargin: 0.273 },
   ],
   ratios: { pe: 28.5, pb: 45.2, ps: 7.8, evEbitda: 24.1 },
+  dataQuality: { reported: 16, derived: 0, missing: 0, flaggedYears: [] },
 };
 
 const appleAnalystEstimates: AnalystEstimates = {
@@ -48,10 +50,12 @@ const noAnalystEstimates: AnalystEstimates = {
 const minimalFundamentals: FundamentalsResponse = {
   ticker: "XYZ",
   currency: "USD",
+  financialCurrency: "USD",
   annual: [
     { year: 2025, revenue: 100e6, ebit: 15e6, netIncome: 10e6, fcf: 8e6, operatingMargin: 0.15, netMargin: 0.10 },
   ],
   ratios: { pe: null, pb: null, ps: null },
+  dataQuality: { reported: 4, derived: 0, missing: 0, flaggedYears: [] },
 };
 
 describe("getCompanyScenarios", () => {
@@ -85,6 +89,24 @@ describe("getCompanyScenarios", () => {
     expect(scenarios.base.operatingMarginTarget).toBeCloseTo(0.301, 2);
   });
 
+  it("optionally leaves a writedown year out of the margin average", () => {
+    const point = (year: number, ebit: number) => ({
+      year, revenue: 1000e6, ebit, netIncome: ebit * 0.75, fcf: ebit * 0.7,
+      operatingMargin: ebit / 1000e6, netMargin: (ebit * 0.75) / 1000e6,
+    });
+    const withWritedown: FundamentalsResponse = {
+      ...appleFundamentals,
+      annual: [point(2025, 200e6), point(2024, 200e6), point(2023, -300e6), point(2022, 200e6), point(2021, 200e6)],
+    };
+
+    const all = getCompanyScenarios(withWritedown, noAnalystEstimates);
+    const excluded = getCompanyScenarios(withWritedown, noAnalystEstimates, undefined, { excludeAnomalousYears: true });
+
+    // 5yr average (0.2 × 4 - 0.3) / 5 = 0.1 vs 3yr average of the clean years = 0.2
+    expect(all.base.operatingMarginTarget).toBeCloseTo(0.1, 6);
+    expect(excluded.base.operatingMarginTarget).toBeCloseTo(0.2, 6);
+  });
+
   it("handles minimal data with graceful fallbacks", () => {
     const scenarios = getCompanyScenarios(minimalFundamentals, noAnalystEstimates);
 
@@ -95,6 +117,16 @@ describe("getCompanyScenarios", () => {
     expect(scenarios.base.operatingMarginTarget).toBeCloseTo(0.15, 2);
   });
 
+  it("falls back to the listing country's statutory tax rate for loss makers", () => {
+    const lossMaker: FundamentalsResponse = {
+      ...minimalFundamentals,
+      annual: [{ ...minimalFundamentals.annual[0], netIncome: -5e6, netMargin: -0.05 }],
+    };
+
+    expect(getCompanyScenarios(lossMaker, noAnalystEstimates).base.taxRate).toBeCloseTo(0.22, 6);
+    expect(getCompanyScenarios(lossMaker, noAnalystEstimates, undefined, { defaultTaxRate: 0.279 }).base.taxRate).toBeCloseTo(0.279, 6);
+  });
+
   it("derives low reinvestment rate for capital-light companies like Apple", () => {
     const scenarios = getCompanyScenarios(appleFundamentals, appleAnalystEstimates);
 
@@ -161,3 +193,28 @@ describe("getDefaultScenarios", () => {
     expect(scenarios.bear.wacc).toBeGreaterThan(scenarios.base.wacc);
   });
 });
+
+describe("selectScenarioHistory", () => {
+  const point = (year: number, ebit: number) => ({
+    year, revenue: 1000e6, ebit, netIncome: ebit * 0.75, fcf: ebit * 0.7,
+    operatingMargin: ebit / 1000e6, netMargin: (ebit * 0.75) / 1000e6,
+  });
+
+  it("reports the anomalous years it drops", () => {
+    const annual = [point(2025, 200e6), point(2024, 200e6), point(2023, -300e6), point(2022, 200e6)];
+
+    expect(selectScenarioHistory(annual).excludedYears).toEqual([]);
+
+    const history = selectScenarioHistory(annual, { excludeAnomalousYears: true });
+    expect(history.excludedYears).toEqual([2023]);
+    expect(history.annual.map((entry) => entry.year)).toEqual([2025, 2024, 2022]);
+  });
+
+  it("reports nothing when every year is flagged and the full series is kept", () => {
+    const annual = [point(2025, 200e6), point(2024, -100e6)];
+
+    const history = selectScenarioHistory(annual, { excludeAnomalousYears: true });
+    expect(history.annual).toEqual(annual);
+    expect(history.excludedYears).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  SecCompanyFacts,
+  SecFact,
+  canUploadCompanyFacts,
+  lookupCik,
+  mapCompanyFacts,
+  readCompanyFacts
+} from "../lib/sec-client";
+
+// Annual flow fact as filed in a 10-K
+function fy(end: string, val: number, filed: string, form = "10-K"): SecFact {
+  const start = `${Number(end.slice(0, 4)) - 1}${end.slice(4)}`;
+  return { start, end, val, form, filed, fp: "FY" };
+}
+
+function instant(end: string, val: number, filed: string): SecFact {
+  return { end, val, form: "10-K", filed, fp: "FY" };
+}
+
+const companyFacts: SecCompanyFacts = {
+  cik: 1234567,
+  entityName: "Example Corp",
+  facts: {
+    "us-gaap": {
+      // Pre-ASC 606 tag for the oldest year, current tag afterwards
+      SalesRevenueNet: { units: { USD: [fy("2022-12-31", 800, "2023-02-20")] } },
+      RevenueFromContractWithCustomerExcludingAssessedTax: {
+        units: {
+          USD: [
+            fy("2023-12-31", 900, "2024-02-20"),
+            // Restated in the next 10-K: the later filing wins
+            fy("2023-12-31", 910, "2025-02-20"),
+            fy("2024-12-31", 1000, "2025-02-20"),
+            // Quarter from a 10-Q is ignored
+            { start: "2024-10-01", end: "2024-12-31", val: 260, form: "10-Q", filed: "2025-02-20", fp: "Q4" }
+          ]
+        }
+      },
+      OperatingIncomeLoss: {
+        units: { USD: [fy("2024-12-31", 200, "2025-02-20"), fy("2023-12-31", 180, "2024-02-20")] }
+      },
+      NetIncomeLoss: { units: { USD: [fy("2024-12-31", 150, "2025-02-20")] } },
+      NetCashProvidedByUsedInOperatingActivities: { units: { USD: [fy("2024-12-31", 260, "2025-02-20")] } },
+      PaymentsToAcquirePropertyPlantAndEquipment: { units: { USD: [fy("2024-12-31", 60, "2025-02-20")] } },
+      PaymentsOfDividends: { units: { USD: [fy("2024-12-31", 50, "2025-02-20")] } },
+      CashAndCashEquivalentsAtCarryingValue: { units: { USD: [instant("2024-12-31", 120, "2025-02-20")] } },
+      LongTermDebt: { units: { USD: [instant("2024-12-31", 300, "2025-02-20")] } },
+      CommercialPaper: { units: { USD: [instant("2024-12-31", 20, "2025-02-20")] } },
+      CommonStockSharesOutstanding: {
+        units: { shares: [instant("2024-12-31", 100, "2025-02-20"), instant("2023-12-31", 104, "2024-02-20")] }
+      }
+    }
+  }
+};
+
+describe("mapCompanyFacts", () => {
+  it("maps annual 10-K facts onto fundamentals, most recent first", () => {
+    const { fundamentals, netDebt } = mapCompanyFacts("exmp", companyFacts);
+
+    expect(fundamentals.ticker).toBe("EXMP");
+    expect(fundamentals.financialCurrency).toBe("USD");
+    expect(fundamentals.annual.map((point) => [point.year, point.revenue])).toEqual([
+      [2024, 1000],
+      [2023, 910],
+      [2022, 800]
+    ]);
+
+    const [latest] = fundamentals.annual;
+    expect(latest.ebit).toBe(200);
+    expect(latest.operatingMargin).toBeCloseTo(0.2, 6);
+    expect(latest.fcf).toBe(200);
+    expect(latest.totalDebt).toBe(320);
+    expect(latest.dividendsPerShare).toBeCloseTo(0.5, 6);
+    expect(latest.netShareChange).toBeCloseTo(100 / 104 - 1, 6);
+    expect(netDebt).toBe(200);
+
+    expect(fundamentals.secFilings).toEqual({ cik: 1234567, entityName: "Example Corp", lastFiled: "2025-02-20" });
+  });
+
+  it("records derived FCF and missing fields in provenance", () => {
+    const { fundamentals } = mapCompanyFacts("EXMP", companyFacts);
+    const [latest, prior] = fundamentals.annual;
+
+    expect(latest.provenance).toEqual({ revenue: "reported", ebit: "reported", netIncome: "reported", fcf: "derived" });
+    expect(prior.provenance).toEqual({ revenue: "reported", ebit: "reported", netIncome: "missing", fcf: "missing" });
+    expect(fundamentals.dataQuality.missing).toBeGreaterThan(0);
+  });
+
+  it("throws when the document has no annual revenue", () => {
+    expect(() => mapCompanyFacts("EMPTY", { cik: 1, facts: { "us-gaap": {} } })).toThrow("No annual revenue");
+  });
+});
+
+describe("readCompanyFacts", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("finds files by ticker or through company_tickers.json", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "sec-facts-"));
+    vi.stubEnv("SEC_COMPANYFACTS_DIR", dir);
+
+    await writeFile(path.join(dir, "EXMP.json"), JSON.stringify(companyFacts));
+    await writeFile(path.join(dir, "CIK0000000042.json"), JSON.stringify({ ...companyFacts, cik: 42 }));
+    await writeFile(
+      path.join(dir, "company_tickers.json"),
+      JSON.stringify({ "0": { cik_str: 42, ticker: "OTHR", title: "Other Inc." } })
+    );
+
+    expect((await readCompanyFacts("exmp"))?.cik).toBe(1234567);
+    expect((await readCompanyFacts("OTHR"))?.cik).toBe(42);
+    expect(await readCompanyFacts("ENI.MI")).toBeNull();
+    expect(await lookupCik("othr")).toBe(42);
+    expect(await lookupCik("EXMP")).toBeNull();
+  });
+});
+
+describe("canUploadCompanyFacts", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("allows only the configured admins", () => {
+    vi.stubEnv("SEC_UPLOAD_ADMINS", "ops@example.com, Admin@Example.com");
+
+    expect(canUploadCompanyFacts("admin@example.com")).toBe(true);
+    expect(canUploadCompanyFacts("user@example.com")).toBe(false);
+    expect(canUploadCompanyFacts(null)).toBe(false);
+  });
+
+  it("allows nobody when unset", () => {
+    vi.stubEnv("SEC_UPLOAD_ADMINS", "");
+
+    expect(canUploadCompanyFacts("admin@example.com")).toBe(false);
+  });
+});
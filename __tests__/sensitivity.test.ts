@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { runDcf } from "../lib/valuation/dcf";
+import { runSensitivityGrid, sensitivityValues } from "../lib/valuation/sensitivity";
+
+describe("sensitivity grid", () => {
+  const scenario = {
+    revenueGrowthYears1to5: 0.08,
+    revenueGrowthYears6to10: 0.05,
+    operatingMarginTarget: 0.2,
+    taxRate: 0.22,
+    reinvestmentRate: 0.35,
+    wacc: 0.1,
+    terminalGrowth: 0.025
+  };
+  const dcf = { currentRevenue: 100e9, netDebt: 20e9, sharesOutstanding: 15e9, currentPrice: 190, mosPercent: 0 };
+
+  it("steps either side of the centre within the parameter bounds", () => {
+    expect(sensitivityValues("wacc", 0.1)).toEqual([0.09, 0.095, 0.1, 0.105, 0.11]);
+    expect(sensitivityValues("terminalGrowth", 0.055, 1)).toEqual([0.05, 0.055, 0.06]);
+    expect(sensitivityValues("operatingMarginTarget", 0.01, 2)).toEqual([0.01, 0.03, 0.05]);
+  });
+
+  it("revalues every combination and matches the point valuation at the centre", () => {
+    const grid = runSensitivityGrid({
+      dcf,
+      scenario,
+      rowParameter: "wacc",
+      columnParameter: "terminalGrowth",
+      rowValues: sensitivityValues("wacc", scenario.wacc),
+      columnValues: sensitivityValues("terminalGrowth", scenario.terminalGrowth)
+    });
+
+    expect(grid.cells).toHaveLength(5);
+    expect(grid.cells[2][2]?.fairValuePerShare).toBeCloseTo(runDcf({ ...dcf, scenario }).fairValuePerShare, 8);
+    // Fair value falls with WACC and rises with terminal growth
+    expect(grid.cells[0][2]!.fairValuePerShare).toBeGreaterThan(grid.cells[4][2]!.fairValuePerShare);
+    expect(grid.cells[2][4]!.fairValuePerShare).toBeGreaterThan(grid.cells[2][0]!.fairValuePerShare);
+  });
+
+  it("leaves combinations with WACC at or below terminal growth empty", () => {
+    const grid = runSensitivityGrid({
+      dcf,
+      scenario,
+      rowParameter: "wacc",
+      columnParameter: "terminalGrowth",
+      rowValues: [0.03, 0.05],
+      columnValues: [0.02, 0.03]
+    });
+
+    expect(grid.cells[0][1]).toBeNull();
+    expect(grid.cells[0][0]).not.toBeNull();
+  });
+
+  it("marks the cells either side of the price crossing", () => {
+    const centre = runDcf({ ...dcf, scenario }).fairValuePerShare;
+    const grid = runSensitivityGrid({
+      dcf: { ...dcf, currentPrice: centre * 1.01 },
+      scenario,
+      rowParameter: "wacc",
+      columnParameter: "operatingMarginTarget",
+      rowValues: [0.1],
+      columnValues: [0.16, 0.18, 0.2, 0.22, 0.24]
+    });
+
+    expect(grid.cells[0].map((cell) => cell?.onPriceContour)).toEqual([false, false, true, true, false]);
+  });
+});
@@ -0,0 +1,54 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { TickerSearch } from "../components/ticker-search";
+
+const results = [
+  { symbol: "ENI.MI", name: "Eni S.p.A.", exchange: "Milan", region: "EU", currency: "EUR" },
+  { symbol: "E", name: "Eni S.p.A.", exchange: "NYSE", region: "US", currency: "USD" }
+];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("TickerSearch", () => {
+  it("shows debounced suggestions with exchange and currency and picks one with the keyboard", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ query: "eni", results })));
+    vi.stubGlobal("fetch", fetchMock);
+    const onSearch = vi.fn();
+
+    render(<TickerSearch initialTicker="" loading={false} onSearch={onSearch} />);
+    const input = screen.getByRole("combobox");
+
+    fireEvent.change(input, { target: { value: "e" } });
+    fireEvent.change(input, { target: { value: "en" } });
+    fireEvent.change(input, { target: { value: "eni" } });
+
+    await waitFor(() => expect(screen.getAllByRole("option")).toHaveLength(2));
+    // Only the last keystroke reaches the API
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith("/api/search?q=eni");
+    expect(screen.getByText("Milan · EUR")).toBeDefined();
+
+    fireEvent.keyDown(input, { key: "ArrowDown" });
+    fireEvent.keyDown(input, { key: "ArrowDown" });
+    expect(screen.getAllByRole("option")[1].getAttribute("aria-selected")).toBe("true");
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(onSearch).toHaveBeenCalledWith("E");
+    expect(screen.queryByRole("listbox")).toBeNull();
+  });
+
+  it("submits the typed ticker uppercased when no suggestion is highlighted", () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ results: [] }))));
+    const onSearch = vi.fn();
+
+    render(<TickerSearch initialTicker="AAPL" loading={false} onSearch={onSearch} />);
+    fireEvent.change(screen.getByRole("combobox"), { target: { value: " asml.as " } });
+    fireEvent.click(screen.getByRole("button", { name: "Analyze" }));
+
+    expect(onSearch).toHaveBeenCalledWith("ASML.AS");
+  });
+});
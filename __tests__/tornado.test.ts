@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { runDcf } from "../lib/valuation/dcf";
+import { DEFAULT_TORNADO_DELTAS, runTornado } from "../lib/valuation/tornado";
+
+describe("tornado analysis", () => {
+  const scenario = {
+    revenueGrowthYears1to5: 0.08,
+    revenueGrowthYears6to10: 0.05,
+    operatingMarginTarget: 0.2,
+    taxRate: 0.22,
+    reinvestmentRate: 0.35,
+    wacc: 0.1,
+    terminalGrowth: 0.025
+  };
+  const dcf = { currentRevenue: 100e9, netDebt: 20e9, sharesOutstanding: 15e9, currentPrice: 190 };
+
+  it("moves each field by its delta and ranks the swings", () => {
+    const result = runTornado({ dcf, scenario });
+
+    expect(result.bars).toHaveLength(7);
+    expect(result.baseFairValue).toBeCloseTo(runDcf({ ...dcf, mosPercent: 0, scenario }).fairValuePerShare, 8);
+    expect(result.bars.map((bar) => bar.swing)).toEqual([...result.bars.map((bar) => bar.swing)].sort((a, b) => b - a));
+
+    const wacc = result.bars.find((bar) => bar.parameter === "wacc")!;
+    expect(wacc.lowValue).toBeCloseTo(0.1 - DEFAULT_TORNADO_DELTAS.wacc, 10);
+    expect(wacc.lowFairValue!).toBeGreaterThan(result.baseFairValue);
+    expect(wacc.highFairValue!).toBeLessThan(result.baseFairValue);
+    expect(wacc.swing).toBeCloseTo(wacc.lowFairValue! - wacc.highFairValue!, 8);
+  });
+
+  it("applies custom deltas and clamps to the input bounds", () => {
+    const result = runTornado({ dcf, scenario: { ...scenario, taxRate: 0.01 }, deltas: { taxRate: 0.05, wacc: 0.02 } });
+
+    const tax = result.bars.find((bar) => bar.parameter === "taxRate")!;
+    expect(tax.lowValue).toBe(0);
+    expect(tax.highValue).toBeCloseTo(0.06, 10);
+    expect(result.bars.find((bar) => bar.parameter === "wacc")!.highValue).toBeCloseTo(0.12, 10);
+  });
+
+  it("leaves out a side that puts WACC at or below terminal growth", () => {
+    const result = runTornado({ dcf, scenario: { ...scenario, wacc: 0.05, terminalGrowth: 0.045 }, deltas: { wacc: 0.01 } });
+
+    const wacc = result.bars.find((bar) => bar.parameter === "wacc")!;
+    expect(wacc.lowFairValue).toBeNull();
+    expect(wacc.swing).toBeCloseTo(result.baseFairValue - wacc.highFairValue!, 8);
+  });
+});
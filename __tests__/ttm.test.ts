@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { computeTtm } from "../lib/fundamentals/ttm";
+import { QuarterlyFundamentalPoint } from "../types/fundamentals";
+
+const quarter = (periodEnd: string, revenue: number, ebit: number): QuarterlyFundamentalPoint => ({
+  year: Number(periodEnd.slice(0, 4)),
+  quarter: Math.floor((Number(periodEnd.slice(5, 7)) - 1) / 3) + 1,
+  periodEnd,
+  revenue,
+  ebit,
+  netIncome: ebit * 0.8,
+  fcf: ebit * 0.9,
+  operatingMargin: ebit / revenue,
+  netMargin: (ebit * 0.8) / revenue,
+});
+
+describe("computeTtm", () => {
+  it("sums the four most recent quarters and recomputes margins", () => {
+    const ttm = computeTtm([
+      quarter("2024-12-31", 124300, 42832),
+      quarter("2024-09-30", 94930, 29591),
+      quarter("2024-06-30", 85777, 25352),
+      quarter("2024-03-31", 90753, 27900),
+      quarter("2023-12-31", 119575, 40373),
+    ]);
+
+    expect(ttm?.periodEnd).toBe("2024-12-31");
+    expect(ttm?.revenue).toBe(395760);
+    expect(ttm?.ebit).toBe(125675);
+    // Margin of the sums, not the average of quarterly margins
+    expect(ttm?.operatingMargin).toBeCloseTo(125675 / 395760, 6);
+  });
+
+  it("returns null with fewer than four quarters", () => {
+    expect(computeTtm([quarter("2024-12-31", 100, 10), quarter("2024-09-30", 100, 10)])).toBeNull();
+  });
+
+  it("returns null when the quarters are not consecutive", () => {
+    const ttm = computeTtm([
+      quarter("2024-12-31", 100, 10),
+      quarter("2024-09-30", 100, 10),
+      quarter("2024-06-30", 100, 10),
+      // Missing 2024-03-31
+      quarter("2023-12-31", 100, 10),
+    ]);
+
+    expect(ttm).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getManualOverride } from "../lib/fundamentals/manual-store";
+import { getMarketDataProvider, MarketDataProvider } from "../lib/market-data/provider";
+import { loadValuationInputs } from "../lib/valuation/inputs";
+import { FundamentalsResponse, ManualFundamentals } from "../types/fundamentals";
+import { QuoteResponse } from "../types/market";
+
+// The cache layer imports the Prisma client; these tests never touch the DB
+vi.mock("../lib/db", () => ({ db: {} }));
+vi.mock("../lib/fundamentals/manual-store", () => ({ getManualOverride: vi.fn() }));
+vi.mock("../lib/market-data/provider", () => ({ getMarketDataProvider: vi.fn() }));
+
+const point = { year: 2024, periodEnd: "2024-12-31", revenue: 1000, ebit: 200, netIncome: 150, fcf: 120, operatingMargin: 0.2, netMargin: 0.15 };
+
+const quote = {
+  ticker: "ACME",
+  currency: "USD",
+  regularMarketPrice: 50,
+  sharesOutstanding: 100
+} as QuoteResponse;
+
+function upload(netDebt: number | null): ManualFundamentals {
+  return {
+    ticker: "ACME",
+    currency: "EUR",
+    annual: [point],
+    sharesOutstanding: 100,
+    netDebt,
+    fileName: "acme.csv",
+    updatedAt: "2025-03-01T00:00:00.000Z"
+  };
+}
+
+function mockProvider(financialCurrency: string) {
+  const provider = {
+    getQuote: vi.fn(async () => quote),
+    getFundamentals: vi.fn(async () => ({ ticker: "ACME", currency: "USD", financialCurrency, annual: [point] }) as unknown as FundamentalsResponse),
+    getNetDebtEstimate: vi.fn(async () => 300),
+    getFxRate: vi.fn(async () => ({ rate: 1.1, asOf: "2025-03-03T21:00:00.000Z" }))
+  };
+  vi.mocked(getMarketDataProvider).mockReturnValue(provider as unknown as MarketDataProvider);
+  return provider;
+}
+
+const options = { revenueBasis: "annual", discountConvention: "end-of-year" } as const;
+
+describe("loadValuationInputs with uploaded statements", () => {
+  beforeEach(() => {
+    vi.mocked(getManualOverride).mockReset();
+  });
+
+  it("uses the upload's net debt, converted with the upload's rate", async () => {
+    vi.mocked(getManualOverride).mockResolvedValue(upload(200));
+    const provider = mockProvider("USD");
+
+    const loaded = await loadValuationInputs("ACME", options);
+
+    expect("inputs" in loaded && loaded.inputs.dcf.netDebt).toBeCloseTo(220, 6);
+    expect(provider.getNetDebtEstimate).not.toHaveBeenCalled();
+  });
+
+  it("borrows the provider's net debt only when it reports in the upload's currency", async () => {
+    vi.mocked(getManualOverride).mockResolvedValue(upload(null));
+    mockProvider("EUR");
+
+    const loaded = await loadValuationInputs("ACME", options);
+
+    expect("inputs" in loaded && loaded.inputs.dcf.netDebt).toBeCloseTo(330, 6);
+  });
+
+  it("reports missing net debt instead of mixing currencies", async () => {
+    vi.mocked(getManualOverride).mockResolvedValue(upload(null));
+    const provider = mockProvider("USD");
+
+    const loaded = await loadValuationInputs("ACME", options);
+
+    expect(loaded).toEqual({ error: expect.stringContaining("no net debt") });
+    expect(provider.getNetDebtEstimate).not.toHaveBeenCalled();
+  });
+});
+
+describe("loadValuationInputs discounting", () => {
+  beforeEach(() => {
+    vi.mocked(getManualOverride).mockResolvedValue(null);
+  });
+
+  it("values flows as of the period end, with no stub, unless a valuation date is given", async () => {
+    mockProvider("USD");
+
+    const loaded = await loadValuationInputs("ACME", options);
+
+    expect("inputs" in loaded && loaded.inputs.discounting).toEqual({
+      convention: "end-of-year",
+      valuationDate: null,
+      periodEnd: "2024-12-31",
+      stubFraction: 0
+    });
+    expect("inputs" in loaded && loaded.inputs.dcf.timing?.stubFraction).toBe(0);
+  });
+
+  it("applies a stub for an explicit valuation date after the period end", async () => {
+    mockProvider("USD");
+
+    const loaded = await loadValuationInputs("ACME", { ...options, valuationDate: "2025-07-02" });
+
+    expect("inputs" in loaded && loaded.inputs.discounting.stubFraction).toBeCloseTo(0.5, 2);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { computeValuationMetrics } from "../lib/valuation/valuation-metrics";
+import { FundamentalsResponse } from "../types/fundamentals";
+import { QuoteResponse } from "../types/market";
+
+const quote: QuoteResponse = {
+  ticker: "KO",
+  shortName: "Coca-Cola",
+  currency: "USD",
+  exchange: "NYQ",
+  region: "US",
+  regularMarketPrice: 62.5,
+  marketCap: 10000,
+  sharesOutstanding: 160,
+  market: null,
+  fetchedAt: "2026-10-19T12:00:00.000Z"
+};
+
+// Most recent first, as the API returns it
+const fundamentals: FundamentalsResponse = {
+  ticker: "KO",
+  currency: "USD",
+  financialCurrency: "USD",
+  ratios: { pe: null, pb: null, ps: null },
+  dataQuality: { reported: 8, derived: 0, missing: 0, flaggedYears: [] },
+  annual: [
+    { year: 2024, revenue: 5000, ebit: 1500, netIncome: 600, fcf: 500, operatingMargin: 0.3, netMargin: 0.12, dividendsPaid: 300, buybacks: 100, netShareChange: -0.01 },
+    { year: 2023, revenue: 4800, ebit: 1400, netIncome: 500, fcf: 450, operatingMargin: 0.29, netMargin: 0.1, dividendsPaid: 300, buybacks: 50 }
+  ]
+};
+
+function metric(label: string, input = fundamentals) {
+  const found = computeValuationMetrics(quote, input).find((m) => m.label === label);
+  if (!found) throw new Error(`missing metric ${label}`);
+  return found;
+}
+
+describe("computeValuationMetrics", () => {
+  it("uses the most recent year regardless of input order", () => {
+    expect(metric("Anni di Utili").value).toBe("16.7x");
+    expect(metric("Anni di Utili").trend).toBe("up");
+  });
+
+  it("computes shareholder return yields and payout ratios", () => {
+    expect(metric("Dividend Yield").value).toBe("3.00%");
+    expect(metric("Dividend Yield").trend).toBe("flat");
+    expect(metric("Payout su Utili").value).toBe("50%");
+    expect(metric("Payout su FCF").value).toBe("60%");
+    expect(metric("Buyback Yield").value).toBe("1.00%");
+    expect(metric("Shareholder Yield").value).toBe("4.00%");
+    expect(metric("Shareholder Yield").trend).toBe("up");
+  });
+
+  it("reports a falling payout ratio as an improvement", () => {
+    // Payout on net income went from 60% to 50%
+    expect(metric("Payout su Utili").trend).toBe("up");
+  });
+
+  it("returns N/A for dividend metrics when dividends are not reported", () => {
+    const noDividends: FundamentalsResponse = {
+      ...fundamentals,
+      annual: fundamentals.annual.map((point) => ({ ...point, dividendsPaid: null }))
+    };
+
+    expect(metric("Dividend Yield", noDividends).value).toBe("N/A");
+    expect(metric("Payout su FCF", noDividends).tooltip).toBe("Dividendi non disponibili");
+    // Buybacks alone still count toward shareholder yield
+    expect(metric("Shareholder Yield", noDividends).value).toBe("1.00%");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { runDcf } from "../lib/valuation/dcf";
+import { getDefaultScenarios } from "../lib/valuation/scenario-presets";
+import { scenarioProbabilitiesSchema } from "../lib/valuation/schemas";
+import { DEFAULT_SCENARIO_PROBABILITIES, weightScenarios } from "../lib/valuation/weighted";
+
+describe("probability-weighted valuation", () => {
+  const dcf = { currentRevenue: 100e9, netDebt: 20e9, sharesOutstanding: 15e9, currentPrice: 100, mosPercent: 20 };
+  const presets = getDefaultScenarios();
+  const scenarios = {
+    bull: runDcf({ ...dcf, scenario: presets.bull }),
+    base: runDcf({ ...dcf, scenario: presets.base }),
+    bear: runDcf({ ...dcf, scenario: presets.bear })
+  };
+
+  it("weights the scenario fair values by their probabilities", () => {
+    const weighted = weightScenarios(scenarios, DEFAULT_SCENARIO_PROBABILITIES, dcf.currentPrice);
+
+    const expected =
+      0.25 * scenarios.bull.fairValueAfterMos + 0.5 * scenarios.base.fairValueAfterMos + 0.25 * scenarios.bear.fairValueAfterMos;
+    expect(weighted.fairValueAfterMos).toBeCloseTo(expected, 8);
+    expect(weighted.fairValuePerShare).toBeCloseTo(expected / 0.8, 8);
+  });
+
+  it("gives an expected upside equal to the weighted scenario upsides", () => {
+    const probabilities = { bull: 0.1, base: 0.6, bear: 0.3 };
+    const weighted = weightScenarios(scenarios, probabilities, dcf.currentPrice);
+
+    expect(weighted.expectedUpsidePercent).toBeCloseTo(
+      0.1 * scenarios.bull.upsideVsPricePercent + 0.6 * scenarios.base.upsideVsPricePercent + 0.3 * scenarios.bear.upsideVsPricePercent,
+      8
+    );
+    expect(weightScenarios(scenarios, { bull: 0, base: 1, bear: 0 }, dcf.currentPrice).expectedUpsidePercent).toBeCloseTo(
+      scenarios.base.upsideVsPricePercent,
+      8
+    );
+  });
+
+  it("requires probabilities adding up to 1", () => {
+    expect(scenarioProbabilitiesSchema.safeParse({ bull: 0.3333, base: 0.3333, bear: 0.3334 }).success).toBe(true);
+    expect(scenarioProbabilitiesSchema.safeParse({ bull: 0.3, base: 0.5, bear: 0.3 }).success).toBe(false);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { extractRawNumber, mapFundamentalsFromTimeSeries } from "../lib/yahoo-client";
+import { extractRawNumber, mapFundamentalsFromTimeSeries, mapSearchResults } from "../lib/yahoo-client";
 
 describe("yahoo mapper", () => {
   it("extractRawNumber handles both numeric and {raw} shapes", () => {
@@ -61,4 +61,109 @@ describe("yahoo mapper", () => {
     expect(mapped.annual.length).toBe(1);
     expect(mapped.annual[0].year).toBe(2024);
   });
+
+  it("maps balance sheet fields and keeps unreported ones null", () => {
+    const entries = [
+      {
+        date: new Date("2024-09-30T00:00:00Z"),
+        totalRevenue: 391035000000,
+        EBIT: 123216000000,
+        totalAssets: 364980000000,
+        stockholdersEquity: 56950000000,
+        cashAndCashEquivalents: 29943000000,
+        totalDebt: 106629000000,
+        currentAssets: 152987000000,
+        currentLiabilities: 176392000000,
+        ordinarySharesNumber: 15116786000,
+      },
+      {
+        date: new Date("2023-09-30T00:00:00Z"),
+        totalRevenue: 383285000000,
+        // Equity only available under the alternative field name
+        commonStockEquity: 62146000000,
+        shareIssued: 15550061000,
+      },
+    ];
+
+    const mapped = mapFundamentalsFromTimeSeries("AAPL", entries, { pe: null, pb: null, ps: null }, "USD");
+
+    expect(mapped.annual[0].totalAssets).toBe(364980000000);
+    expect(mapped.annual[0].totalEquity).toBe(56950000000);
+    expect(mapped.annual[0].cash).toBe(29943000000);
+    expect(mapped.annual[0].totalDebt).toBe(106629000000);
+    expect(mapped.annual[0].currentAssets).toBe(152987000000);
+    expect(mapped.annual[0].currentLiabilities).toBe(176392000000);
+    expect(mapped.annual[0].goodwill).toBeNull();
+    expect(mapped.annual[0].sharesOutstanding).toBe(15116786000);
+
+    expect(mapped.annual[1].totalEquity).toBe(62146000000);
+    expect(mapped.annual[1].sharesOutstanding).toBe(15550061000);
+    expect(mapped.annual[1].totalDebt).toBeNull();
+  });
+
+  it("maps dividends and buybacks as positive amounts with per-share and share change figures", () => {
+    const entries = [
+      {
+        date: new Date("2023-12-31T00:00:00Z"),
+        totalRevenue: 100,
+        cashDividendsPaid: -180,
+        repurchaseOfCapitalStock: -500,
+        ordinarySharesNumber: 1000,
+      },
+      {
+        date: new Date("2024-12-31T00:00:00Z"),
+        totalRevenue: 110,
+        commonStockDividendPaid: -190,
+        ordinarySharesNumber: 950,
+      },
+    ];
+
+    const mapped = mapFundamentalsFromTimeSeries("KO", entries, { pe: null, pb: null, ps: null }, "USD");
+    const [latest, prior] = mapped.annual;
+
+    expect(latest.dividendsPaid).toBe(190);
+    expect(latest.dividendsPerShare).toBe(0.2);
+    expect(latest.buybacks).toBeNull();
+    expect(latest.netShareChange).toBeCloseTo(-0.05, 10);
+
+    expect(prior.dividendsPaid).toBe(180);
+    expect(prior.buybacks).toBe(500);
+    // Oldest year has nothing to compare against
+    expect(prior.netShareChange).toBeNull();
+  });
+
+  it("records field provenance and summarizes data quality", () => {
+    const entries = [
+      { date: new Date("2024-09-30T00:00:00Z"), totalRevenue: 1000, EBIT: 300, netIncome: 200, freeCashFlow: 150 },
+      // FCF from operating cash + capex, net income not reported
+      { date: new Date("2023-09-30T00:00:00Z"), totalRevenue: 900, operatingIncome: 250, operatingCashFlow: 240, capitalExpenditure: -60 },
+      // Only revenue reported
+      { date: new Date("2022-09-30T00:00:00Z"), totalRevenue: 800 },
+    ];
+
+    const mapped = mapFundamentalsFromTimeSeries("XYZ", entries, { pe: null, pb: null, ps: null }, "USD");
+
+    expect(mapped.annual[0].provenance).toEqual({ revenue: "reported", ebit: "reported", netIncome: "reported", fcf: "reported" });
+    expect(mapped.annual[1].provenance).toEqual({ revenue: "reported", ebit: "reported", netIncome: "missing", fcf: "derived" });
+    expect(mapped.annual[2].provenance).toEqual({ revenue: "reported", ebit: "missing", netIncome: "missing", fcf: "missing" });
+    // The placeholder 0 is still there for charts, but now flagged
+    expect(mapped.annual[2].ebit).toBe(0);
+    expect(mapped.dataQuality).toEqual({ reported: 7, derived: 1, missing: 4, flaggedYears: [2023, 2022] });
+  });
+
+  it("keeps equity search results only and attaches currency and region", () => {
+    const quotes = [
+      { isYahooFinance: true, symbol: "ENI.MI", quoteType: "EQUITY", exchange: "MIL", exchDisp: "Milan", longname: "Eni S.p.A." },
+      { isYahooFinance: true, symbol: "E", quoteType: "EQUITY", exchange: "NYQ", exchDisp: "NYSE", shortname: "Eni SpA" },
+      { isYahooFinance: true, symbol: "ENIC", quoteType: "ETF", exchange: "PCX", exchDisp: "NYSEArca" },
+      { isYahooFinance: false, name: "Eni news", permalink: "eni", index: "x" },
+    ];
+
+    const results = mapSearchResults(quotes, { "ENI.MI": "EUR" });
+
+    expect(results).toEqual([
+      { symbol: "ENI.MI", name: "Eni S.p.A.", exchange: "Milan", region: "EU", currency: "EUR" },
+      { symbol: "E", name: "Eni SpA", exchange: "NYSE", region: "US", currency: null },
+    ]);
+  });
 });
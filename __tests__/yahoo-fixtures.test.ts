@@ -0,0 +1,134 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { withFixture } from "../lib/market-data/fixtures";
+import {
+  getAnalystEstimates,
+  getFundamentals,
+  getFxRate,
+  getNetDebtEstimate,
+  getPriceHistory,
+  getQuote,
+  getQuotes,
+  getRiskFreeRate,
+  searchSymbols
+} from "../lib/yahoo-client";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("yahoo-client in replay mode", () => {
+  beforeEach(() => {
+    vi.stubEnv("YAHOO_FIXTURE_MODE", "replay");
+    vi.stubEnv("YAHOO_FIXTURE_DIR", path.join(__dirname, "..", "fixtures", "yahoo"));
+  });
+
+  it("serves quote and fundamentals from the hand-written AAPL sample fixture", async () => {
+    const quote = await getQuote("AAPL");
+    expect(quote.ticker).toBe("AAPL");
+    expect(quote.regularMarketPrice).toBeCloseTo(227.52, 2);
+
+    const fundamentals = await getFundamentals("AAPL");
+    // Revived Date objects make it through the mapper's `instanceof Date` filter
+    expect(fundamentals.annual.length).toBe(5);
+    expect(fundamentals.annual[0].year).toBe(2024);
+    expect(fundamentals.ratios.pe).toBeCloseTo(36.1, 1);
+    expect(fundamentals.financialCurrency).toBe("USD");
+  });
+
+  it("adds the quarterly series and TTM point when requested", async () => {
+    const fundamentals = await getFundamentals("AAPL", { period: "quarterly" });
+
+    expect(fundamentals.quarterly?.[0]).toMatchObject({ year: 2024, quarter: 4, periodEnd: "2024-12-31" });
+    expect(fundamentals.ttm?.revenue).toBe(395760000000);
+    expect(fundamentals.annual.length).toBe(5);
+  });
+
+  it("serves net debt, analyst estimates and the risk-free rate", async () => {
+    expect(await getNetDebtEstimate("AAPL")).toBe(96799000000 - 53775000000);
+
+    const estimates = await getAnalystEstimates("AAPL");
+    expect(estimates.numberOfAnalysts).toBe(38);
+    expect(estimates.beta).toBe(1.2);
+
+    const rf = await getRiskFreeRate();
+    expect(rf?.rate).toBeCloseTo(0.04164, 5);
+
+    expect(await getFxRate("EUR", "USD")).toEqual({ rate: 1.0832, asOf: "2025-03-03T21:00:00.000Z" });
+  });
+
+  it("serves price history oldest first, skipping sessions without a close", async () => {
+    const history = await getPriceHistory("AAPL", { range: "1mo", interval: "1wk" });
+
+    expect(history).toMatchObject({ ticker: "AAPL", currency: "USD", range: "1mo", interval: "1wk" });
+    expect(history.points.length).toBe(5);
+    expect(history.points[0]).toEqual({ date: "2024-12-30", close: 243.85 });
+    expect(history.points.at(-1)?.close).toBe(227.52);
+  });
+
+  it("searches recorded fixtures by symbol prefix or company name", async () => {
+    const bySymbol = await searchSymbols("aap");
+    expect(bySymbol).toEqual([
+      { symbol: "AAPL", name: "Apple Inc.", exchange: "NasdaqGS", region: "US", currency: "USD" }
+    ]);
+
+    expect((await searchSymbols("apple"))[0]?.symbol).toBe("AAPL");
+    // Index and currency fixtures (^TNX, EURUSD=X) are not analyzable stocks
+    expect(await searchSymbols("^TN")).toEqual([]);
+    expect(await searchSymbols("EUR")).toEqual([]);
+  });
+
+  it("fails with an actionable message when a ticker was never recorded", async () => {
+    await expect(getQuote("ZZZZ")).rejects.toThrow("No recorded fixture for ZZZZ (quote)");
+  });
+
+  it("answers batch quotes per ticker, with errors as results", async () => {
+    const results = await getQuotes(["aapl", "ZZZZ"]);
+
+    expect(results[0]).toMatchObject({ ticker: "AAPL", data: { regularMarketPrice: 227.52 } });
+    expect(results[1]).toEqual({ ticker: "ZZZZ", error: expect.stringContaining("No recorded fixture for ZZZZ") });
+  });
+});
+
+describe("withFixture in record mode", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "sfa-fixtures-"));
+    vi.stubEnv("YAHOO_FIXTURE_DIR", dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records raw payloads per ticker and replays them with dates revived", async () => {
+    vi.stubEnv("YAHOO_FIXTURE_MODE", "record");
+    await withFixture("eni.mi", "quote", async () => ({ symbol: "ENI.MI", regularMarketPrice: 13.4 }));
+    await withFixture("ENI.MI", "fundamentalsTimeSeries:annual", async () => [
+      { date: new Date("2024-12-31T00:00:00Z"), totalRevenue: 88797000000 }
+    ]);
+
+    // Both calls land in the same per-ticker file
+    const saved = JSON.parse(await readFile(path.join(dir, "ENI.MI.json"), "utf8"));
+    expect(Object.keys(saved)).toEqual(["quote", "fundamentalsTimeSeries:annual"]);
+
+    vi.stubEnv("YAHOO_FIXTURE_MODE", "replay");
+    const replayed = await withFixture<Array<{ date: Date }>>("ENI.MI", "fundamentalsTimeSeries:annual", async () => {
+      throw new Error("network must not be used in replay mode");
+    });
+    expect(replayed[0].date).toBeInstanceOf(Date);
+  });
+
+  it("keeps every key when calls for one ticker record concurrently", async () => {
+    vi.stubEnv("YAHOO_FIXTURE_MODE", "record");
+    const keys = ["quote", "quoteSummary", "fundamentalsTimeSeries:annual", "fundamentalsTimeSeries:quarterly"];
+    await Promise.all(keys.map((key) => withFixture("AAPL", key, async () => ({ key }))));
+
+    const saved = JSON.parse(await readFile(path.join(dir, "AAPL.json"), "utf8"));
+    expect(Object.keys(saved).sort()).toEqual([...keys].sort());
+  });
+});
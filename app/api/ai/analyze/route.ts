@@ -10,27 +10,20 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import Anthropic from "@anthropic-ai/sdk";
 import { auth } from "@/lib/auth";
-import { getQuote, getFundamentals, getNetDebtEstimate, getAnalystEstimates } from "@/lib/yahoo-client";
+import { getMarketDataProvider } from "@/lib/market-data/provider";
 import { runDcf } from "@/lib/valuation/dcf";
+import { loadValuationInputs } from "@/lib/valuation/inputs";
+import { shorthandScenarioSchema, valuationInputsSchema } from "@/lib/valuation/schemas";
 import { buildSystemPrompt, buildUserPrompt } from "@/lib/ai/prompts";
 
-const scenarioSchema = z.object({
-  revenueGrowthYears1to5: z.number().min(-0.5).max(0.6),
-  revenueGrowthYears6to10: z.number().min(-0.5).max(0.4),
-  operatingMarginTarget: z.number().min(0).max(0.8),
-  taxRate: z.number().min(0).max(0.6),
-  reinvestmentRate: z.number().min(0).max(0.9),
-  wacc: z.number().min(0.03).max(0.3),
-  terminalGrowth: z.number().min(-0.02).max(0.06),
-});
-
-const requestSchema = z.object({
+// Same starting revenue, shares and discounting options as the valuation route
+const requestSchema = valuationInputsSchema.extend({
   ticker: z.string().min(1).max(20),
   mosPercent: z.number().min(0).max(80),
   scenarios: z.object({
-    bull: scenarioSchema,
-    base: scenarioSchema,
-    bear: scenarioSchema,
+    bull: shorthandScenarioSchema,
+    base: shorthandScenarioSchema,
+    bear: shorthandScenarioSchema,
   }),
   // Language for the report — e.g. "English", "Italiano", "Español"
   language: z.string().min(1).max(30).default("English"),
@@ -54,32 +47,19 @@ export async function POST(request: Request) {
   }
 
   try {
-    // Fetch market data and run DCF in parallel for speed.
-    const [quote, fundamentals, netDebt, analystData] = await Promise.all([
-      getQuote(body.ticker),
-      getFundamentals(body.ticker),
-      getNetDebtEstimate(body.ticker),
-      getAnalystEstimates(body.ticker).catch(() => null),
+    // Same inputs as the valuation route (uploaded statements, FX, TTM, discounting)
+    const provider = getMarketDataProvider();
+    const [loaded, analystData] = await Promise.all([
+      loadValuationInputs(body.ticker, body),
+      provider.getAnalystEstimates(body.ticker).catch(() => null),
     ]);
-
-    const latestPoint = fundamentals.annual[0];
-    if (!latestPoint || latestPoint.revenue <= 0) {
-      return NextResponse.json({ error: "Missing revenue data." }, { status: 422 });
-    }
-
-    const sharesOutstanding = quote.sharesOutstanding;
-    if (!sharesOutstanding || sharesOutstanding <= 0) {
-      return NextResponse.json({ error: "Missing shares outstanding." }, { status: 422 });
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 422 });
     }
+    const { quote } = loaded.inputs;
 
     // Run DCF server-side — ensures the price targets in the prompt are genuine.
-    const dcfBase = {
-      currentRevenue: latestPoint.revenue,
-      netDebt,
-      sharesOutstanding,
-      currentPrice: quote.regularMarketPrice,
-      mosPercent: body.mosPercent,
-    };
+    const dcfBase = { ...loaded.inputs.dcf, mosPercent: body.mosPercent };
 
     const bull = runDcf({ ...dcfBase, scenario: body.scenarios.bull });
     const base = runDcf({ ...dcfBase, scenario: body.scenarios.base });
@@ -9,40 +9,107 @@
  * panel can auto-populate with company-appropriate assumptions.
  */
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
-import { getAnalystEstimates, getFundamentals, getRiskFreeRate } from "@/lib/yahoo-client";
-import { getCompanyScenarios } from "@/lib/valuation/scenario-presets";
+import { manualToFundamentalsResponse } from "@/lib/fundamentals/manual-import";
+import { getManualOverride } from "@/lib/fundamentals/manual-store";
+import { resolveExchange } from "@/lib/market-data/exchanges";
+import { getMarketDataProvider } from "@/lib/market-data/provider";
+import { getRiskFreeRate } from "@/lib/market-data/risk-free";
+import { getCompanyScenarios, selectScenarioHistory } from "@/lib/valuation/scenario-presets";
+import { AnalystEstimates } from "@/types/valuation";
+
+// Used when a ticker with uploaded statements has no analyst coverage at all
+const NO_ESTIMATES: AnalystEstimates = {
+  revenueGrowthNextYear: null,
+  revenueGrowth5Year: null,
+  earningsGrowthNextYear: null,
+  targetMeanPrice: null,
+  numberOfAnalysts: null,
+  operatingMargins: null,
+  revenueGrowthTTM: null,
+  freeCashflow: null,
+  totalRevenue: null,
+  beta: null
+};
+
+const querySchema = z.object({
+  excludeAnomalies: z.enum(["true", "false"]).default("false"),
+  maxRevenueChange: z.coerce.number().positive().max(10).optional(),
+  maxMarginDeviation: z.coerce.number().positive().max(1).optional()
+});
 
 type RouteContext = { params: Promise<{ ticker: string }> };
 
 /**
  * GET /api/analyst-estimates/[ticker]
  *
+ * Query parameters:
+ * - excludeAnomalies: "true" to leave anomalous years out of the smart scenarios (default "false")
+ * - maxRevenueChange: Year-over-year revenue change flagged as a jump (decimal, default 0.5)
+ * - maxMarginDeviation: Margin distance from the median flagged as a spike (decimal, default 0.1)
+ *
  * Returns:
- * - 200: Analyst estimates + smart scenarios
- * - 400: Ticker not found or Yahoo Finance error
+ * - 200: Analyst estimates + smart scenarios (+ the excluded years and the listing's statutory tax rate)
+ * - 400: Invalid query, ticker not found or Yahoo Finance error
  * - 503: Yahoo Finance rate limit
  */
-export async function GET(_request: Request, context: RouteContext) {
+export async function GET(request: Request, context: RouteContext) {
   try {
     const params = await context.params;
+    const searchParams = new URL(request.url).searchParams;
+    const query = querySchema.parse({
+      excludeAnomalies: searchParams.get("excludeAnomalies") ?? undefined,
+      maxRevenueChange: searchParams.get("maxRevenueChange") ?? undefined,
+      maxMarginDeviation: searchParams.get("maxMarginDeviation") ?? undefined
+    });
 
-    // Fetch analyst estimates, fundamentals, and risk-free rate in parallel.
-    // Risk-free rate feeds CAPM-based WACC calculation in getCompanyScenarios.
-    const [analystEstimates, fundamentals, riskFreeRateData] = await Promise.all([
-      getAnalystEstimates(params.ticker),
-      getFundamentals(params.ticker),
-      getRiskFreeRate(),
+    const excludeAnomalousYears = query.excludeAnomalies === "true";
+    const anomalyBounds = {
+      maxRevenueChange: query.maxRevenueChange,
+      maxMarginDeviation: query.maxMarginDeviation
+    };
+    const provider = getMarketDataProvider();
+
+    // Uploaded statements replace provider fundamentals; such tickers often
+    // have no analyst coverage either, which shouldn't block the smart scenarios
+    const manual = await getManualOverride(params.ticker);
+    const [analystEstimates, fundamentals, quote] = await Promise.all([
+      manual ? provider.getAnalystEstimates(params.ticker).catch(() => NO_ESTIMATES) : provider.getAnalystEstimates(params.ticker),
+      manual ? manualToFundamentalsResponse(manual) : provider.getFundamentals(params.ticker),
+      // Only needed for the listing's exchange; the suffix covers non-US tickers without it
+      provider.getQuote(params.ticker).catch(() => null),
     ]);
+    const statutoryTaxRate =
+      (quote?.market ?? resolveExchange(null, params.ticker))?.corporateTaxRate ?? null;
 
-    const smartScenarios = getCompanyScenarios(fundamentals, analystEstimates, riskFreeRateData?.rate);
+    // Risk-free rate feeds CAPM-based WACC calculation in getCompanyScenarios.
+    // It must match the currency the company trades in (BTP for ENI.MI, not US 10Y).
+    const riskFreeRateData = await getRiskFreeRate(fundamentals.currency, params.ticker, provider);
+
+    const smartScenarios = getCompanyScenarios(fundamentals, analystEstimates, riskFreeRateData?.rate, {
+      excludeAnomalousYears,
+      anomalyBounds,
+      defaultTaxRate: statutoryTaxRate ?? undefined,
+    });
+    // The years the scenarios actually ignored (none when every year is flagged)
+    const { excludedYears } = selectScenarioHistory(fundamentals.annual, { excludeAnomalousYears, anomalyBounds });
 
     return NextResponse.json({
       ticker: params.ticker.toUpperCase(),
       analystEstimates,
       smartScenarios,
+      excludedYears,
+      statutoryTaxRate,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid anomaly options. maxRevenueChange and maxMarginDeviation are positive decimals." },
+        { status: 400 }
+      );
+    }
+
     const message = error instanceof Error ? error.message : "Unable to fetch analyst estimates.";
     const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
 
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { manualToFundamentalsResponse } from "@/lib/fundamentals/manual-import";
+import { getManualOverride } from "@/lib/fundamentals/manual-store";
+import { batchStatus, batchTickersSchema, normalizeBatchTickers } from "@/lib/market-data/batch";
+import { getMarketDataProvider } from "@/lib/market-data/provider";
+import { FundamentalsResponse } from "@/types/fundamentals";
+import { BatchResult } from "@/types/market";
+
+const requestSchema = z.object({
+  tickers: batchTickersSchema,
+  period: z.enum(["annual", "quarterly"]).default("annual")
+});
+
+/**
+ * POST /api/batch/fundamentals
+ *
+ * Fundamentals for several tickers in one round trip. Yahoo has no
+ * multi-symbol statements call, so tickers are fetched concurrently under
+ * the outbound scheduler's rate budget; the signed-in user's uploaded
+ * statements replace provider data per ticker, as in /api/fundamentals.
+ *
+ * Body: { "tickers": ["AAPL", "MSFT"], "period": "annual" | "quarterly" } — at most BATCH_MAX_TICKERS (default 25)
+ *
+ * Returns:
+ * - 200: { results: [{ ticker, data: FundamentalsResponse } | { ticker, error }] } in request order
+ * - 400: Invalid body or too many tickers
+ * - 503: Every ticker failed on the rate limit
+ */
+export async function POST(request: Request) {
+  try {
+    const body = requestSchema.parse(await request.json());
+    const tickers = normalizeBatchTickers(body.tickers);
+    const provider = getMarketDataProvider();
+
+    const results = await Promise.all(
+      tickers.map(async (ticker): Promise<BatchResult<FundamentalsResponse>> => {
+        try {
+          const manual = await getManualOverride(ticker);
+          if (manual) {
+            const fundamentals = manualToFundamentalsResponse(manual);
+            return { ticker, data: body.period === "quarterly" ? { ...fundamentals, quarterly: [], ttm: null } : fundamentals };
+          }
+
+          return { ticker, data: await provider.getFundamentals(ticker, { period: body.period }) };
+        } catch (error) {
+          return { ticker, error: error instanceof Error ? error.message : "Unable to fetch fundamentals." };
+        }
+      })
+    );
+
+    return NextResponse.json({ results }, { status: batchStatus(results) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid body. Send { \"tickers\": [\"AAPL\", ...], \"period\": \"annual\" | \"quarterly\" }." },
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to fetch fundamentals.";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { batchStatus, batchTickersSchema, normalizeBatchTickers } from "@/lib/market-data/batch";
+import { getMarketDataProvider } from "@/lib/market-data/provider";
+
+const requestSchema = z.object({ tickers: batchTickersSchema });
+
+/**
+ * POST /api/batch/quotes
+ *
+ * Quotes for several tickers in one round trip, fetched with a single
+ * multi-symbol provider request (cached tickers are served from the cache).
+ *
+ * Body: { "tickers": ["AAPL", "MSFT", "ENI.MI"] } — at most BATCH_MAX_TICKERS (default 25), duplicates ignored
+ *
+ * Returns:
+ * - 200: { results: [{ ticker, data: QuoteResponse } | { ticker, error }] } in request order
+ * - 400: Invalid body or too many tickers
+ * - 503: Every ticker failed on the rate limit
+ */
+export async function POST(request: Request) {
+  try {
+    const body = requestSchema.parse(await request.json());
+    const tickers = normalizeBatchTickers(body.tickers);
+
+    const results = await getMarketDataProvider().getQuotes(tickers);
+    return NextResponse.json({ results }, { status: batchStatus(results) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid body. Send { \"tickers\": [\"AAPL\", ...] }." }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to fetch quotes.";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
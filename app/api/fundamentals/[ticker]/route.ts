@@ -1,28 +1,50 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
-import { getFundamentals } from "@/lib/yahoo-client";
+import { manualToFundamentalsResponse } from "@/lib/fundamentals/manual-import";
+import { getManualOverride } from "@/lib/fundamentals/manual-store";
+import { getMarketDataProvider } from "@/lib/market-data/provider";
 
 type RouteContext = { params: Promise<{ ticker: string }> };
 
+const periodSchema = z.enum(["annual", "quarterly"]).default("annual");
+
 /**
- * GET /api/fundamentals/[ticker]
+ * GET /api/fundamentals/[ticker]?period=annual|quarterly
+ *
+ * Fetches historical fundamental data for a given ticker symbol from the
+ * configured market data provider (Yahoo Finance by default).
+ * Returns up to 10 years of annual income statement, cash flow and balance sheet data.
+ * With period=quarterly, also returns the last 12 quarters and a computed
+ * trailing-twelve-months (TTM) point.
  *
- * Fetches historical fundamental data for a given ticker symbol from Yahoo Finance.
- * Returns up to 5 years of annual income statement and cash flow data.
+ * Statements the signed-in user uploaded for the ticker replace provider data
+ * (no quarterly series: uploads are annual only).
  *
  * Returns:
  * - 200: Fundamental data (revenue, operating income, FCF, margins, ratios)
- * - 400: Invalid ticker or Yahoo Finance error
+ * - 400: Invalid ticker, invalid period, or Yahoo Finance error
  * - 503: Rate limit reached (retry after 30-60 seconds)
  *
- * Example: GET /api/fundamentals/AAPL
+ * Example: GET /api/fundamentals/AAPL?period=quarterly
  */
-export async function GET(_: Request, context: RouteContext) {
+export async function GET(request: Request, context: RouteContext) {
   try {
     const params = await context.params;
-    const fundamentals = await getFundamentals(params.ticker);
+    const period = periodSchema.parse(new URL(request.url).searchParams.get("period") ?? undefined);
+    const manual = await getManualOverride(params.ticker);
+    if (manual) {
+      const fundamentals = manualToFundamentalsResponse(manual);
+      return NextResponse.json(period === "quarterly" ? { ...fundamentals, quarterly: [], ttm: null } : fundamentals);
+    }
+
+    const fundamentals = await getMarketDataProvider().getFundamentals(params.ticker, { period });
     return NextResponse.json(fundamentals);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid period. Use \"annual\" or \"quarterly\"." }, { status: 400 });
+    }
+
     const message = error instanceof Error ? error.message : "Unable to fetch fundamentals.";
 
     // Return 503 (Service Unavailable) for rate limits instead of 400
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getFxRate } from "@/lib/market-data/fx";
+
+// Yahoo codes are 3 letters; minor units keep a lowercase letter (e.g., "GBp")
+const currencySchema = z.string().regex(/^[A-Za-z]{3}$/);
+
+const querySchema = z.object({
+  from: currencySchema,
+  to: currencySchema
+});
+
+/**
+ * GET /api/fx?from=EUR&to=USD
+ *
+ * Returns the exchange rate used to convert amounts between two currencies
+ * (1 `from` = `rate` `to`). Powers the dashboard's display currency selector.
+ * Rates are cached server-side for an hour.
+ *
+ * Returns:
+ * - 200: { from, to, rate, asOf }
+ * - 400: Invalid currency codes, or pair unavailable
+ * - 503: Rate limit reached (retry after 30-60 seconds)
+ *
+ * Example: GET /api/fx?from=GBp&to=EUR
+ */
+export async function GET(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const query = querySchema.parse({
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined
+    });
+    return NextResponse.json(await getFxRate(query.from, query.to));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid currency. Use 3-letter codes, e.g. from=EUR&to=USD." }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to fetch exchange rate.";
+    const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
+    return NextResponse.json(
+      {
+        error: message
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMarketDataProvider } from "@/lib/market-data/provider";
+
+type RouteContext = { params: Promise<{ ticker: string }> };
+
+const historyQuerySchema = z.object({
+  range: z.enum(["1mo", "3mo", "6mo", "1y", "2y", "5y", "10y", "max"]).default("5y"),
+  interval: z.enum(["1d", "1wk", "1mo"]).default("1wk")
+});
+
+/**
+ * GET /api/history/[ticker]?range=5y&interval=1wk
+ *
+ * Fetches historical closing prices for a ticker from the configured market
+ * data provider (Yahoo Finance chart API by default).
+ *
+ * Query params:
+ * - range: 1mo | 3mo | 6mo | 1y | 2y | 5y | 10y | max (default 5y)
+ * - interval: 1d | 1wk | 1mo (default 1wk, ~260 points over 5 years)
+ *
+ * Returns:
+ * - 200: Price history (ticker, currency, range, interval, points oldest first)
+ * - 400: Invalid ticker, invalid range/interval, or Yahoo Finance error
+ * - 503: Rate limit reached (retry after 30-60 seconds)
+ *
+ * Example: GET /api/history/AAPL?range=1y&interval=1d
+ */
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const params = await context.params;
+    const searchParams = new URL(request.url).searchParams;
+    const query = historyQuerySchema.parse({
+      range: searchParams.get("range") ?? undefined,
+      interval: searchParams.get("interval") ?? undefined
+    });
+    const history = await getMarketDataProvider().getPriceHistory(params.ticker, query);
+    return NextResponse.json(history);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid range or interval. Use range 1mo-max and interval 1d, 1wk or 1mo." },
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to fetch price history.";
+
+    // 503 for rate limits so clients know the request is retriable
+    const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
+    return NextResponse.json(
+      {
+        error: message
+      },
+      { status }
+    );
+  }
+}
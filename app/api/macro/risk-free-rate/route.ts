@@ -1,27 +1,51 @@
 /**
- * GET /api/macro/risk-free-rate
+ * GET /api/macro/risk-free-rate?currency=EUR&ticker=ENI.MI
  *
- * Returns the current US 10-Year Treasury yield as a risk-free rate proxy.
+ * Returns the 10-Year government bond yield matching a currency as a
+ * risk-free rate proxy (US 10Y for USD, Bund/BTP/OAT for EUR listings
+ * depending on the exchange, Gilt for GBP, JGB for JPY, ...).
  *
  * This endpoint exists to provide context for WACC estimation in the UI.
  * The risk-free rate is not used directly in DCF calculations — it is
  * informational only, helping users set a sensible WACC relative to
  * current market conditions (WACC should exceed Rf by the equity risk premium).
  *
- * Data source: ^TNX via Yahoo Finance (same provider as stock data).
- * No ticker parameter — always fetches the US 10Y rate.
+ * Data source: live quote from the configured market data provider for the
+ * US 10Y (^TNX), falling back to the table in lib/market-data/risk-free.ts
+ * when it is unavailable (`source: "fallback"`). Other benchmarks have no
+ * live quote and always come from that table (`source: "static"`).
+ *
+ * Query params:
+ * - currency: trading currency (default USD)
+ * - ticker: optional, selects the euro-area issuer from the exchange suffix
  */
 import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getRiskFreeRate } from "@/lib/market-data/risk-free";
+
+const querySchema = z.object({
+  currency: z.string().regex(/^[A-Za-z]{3}$/).default("USD"),
+  ticker: z.string().min(1).max(20).optional()
+});
 
-import { getRiskFreeRate } from "@/lib/yahoo-client";
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const query = querySchema.safeParse({
+    currency: searchParams.get("currency") ?? undefined,
+    ticker: searchParams.get("ticker") ?? undefined
+  });
+
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid currency. Use a 3-letter code, e.g. currency=EUR." }, { status: 400 });
+  }
 
-export async function GET() {
-  const result = await getRiskFreeRate();
+  const result = await getRiskFreeRate(query.data.currency, query.data.ticker);
 
   if (result === null) {
     return NextResponse.json(
-      { error: "Risk-free rate temporarily unavailable." },
-      { status: 503 }
+      { error: `No risk-free benchmark configured for ${query.data.currency}.` },
+      { status: 404 }
     );
   }
 
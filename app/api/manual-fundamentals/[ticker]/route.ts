@@ -0,0 +1,112 @@
+// GET    /api/manual-fundamentals/:ticker — the current user's uploaded statements for a ticker
+// POST   /api/manual-fundamentals/:ticker — upload a CSV/XLSX of annual statements (multipart form)
+// DELETE /api/manual-fundamentals/:ticker — remove the upload, back to provider data
+//
+// Uploaded statements override provider fundamentals for this user only, in
+// the fundamentals, analyst-estimates, valuation and AI routes.
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/lib/auth";
+import { DecimalSeparator, detectDecimalSeparator, parseCsv, parseStatementsTable } from "@/lib/fundamentals/manual-import";
+import { deleteManualFundamentals, getManualFundamentals, saveManualFundamentals } from "@/lib/fundamentals/manual-store";
+import { readXlsxRows } from "@/lib/fundamentals/xlsx";
+
+// A decade of statements is a few KB; anything bigger is the wrong file
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const uploadSchema = z.object({
+  currency: z.string().regex(/^[A-Za-z]{3}$/).transform((code) => code.toUpperCase()),
+  scale: z.enum(["units", "thousands", "millions"]).default("units")
+});
+
+type RouteContext = { params: Promise<{ ticker: string }> };
+
+export async function GET(_request: Request, context: RouteContext) {
+  const session = await auth();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { ticker } = await context.params;
+  const manual = await getManualFundamentals(session.user.id, ticker);
+  if (!manual) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  return NextResponse.json(manual);
+}
+
+/**
+ * Form fields:
+ * - file: .csv or .xlsx, header row + one row per fiscal year (year and revenue required)
+ * - currency: 3-letter code the amounts are in
+ * - scale: "units" (default), "thousands" or "millions"
+ *
+ * Returns:
+ * - 201: Stored statements
+ * - 400: Missing/oversized/unsupported file, invalid options, or a parse error (message says which row)
+ * - 401: Not logged in
+ */
+export async function POST(request: Request, context: RouteContext) {
+  const session = await auth();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { ticker } = await context.params;
+
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "Attach a .csv or .xlsx file." }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "File too large (max 1 MB)." }, { status: 400 });
+    }
+
+    const options = uploadSchema.parse({
+      currency: form.get("currency") ?? undefined,
+      scale: form.get("scale") || undefined
+    });
+
+    const name = file.name.toLowerCase();
+    let rows: string[][];
+    let decimalSeparator: DecimalSeparator | undefined;
+    if (name.endsWith(".csv") || name.endsWith(".txt")) {
+      const text = await file.text();
+      rows = parseCsv(text);
+      decimalSeparator = detectDecimalSeparator(text);
+    } else if (name.endsWith(".xlsx")) {
+      rows = readXlsxRows(Buffer.from(await file.arrayBuffer()));
+      // Numeric cells are stored locale-independently, with a dot
+      decimalSeparator = ".";
+    } else {
+      return NextResponse.json({ error: "Unsupported file type. Upload a .csv or .xlsx file." }, { status: 400 });
+    }
+
+    const statements = parseStatementsTable(rows, options.scale, decimalSeparator);
+    const manual = await saveManualFundamentals(session.user.id, {
+      ticker,
+      currency: options.currency,
+      fileName: file.name,
+      ...statements
+    });
+
+    return NextResponse.json(manual, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid currency or scale. Use a 3-letter currency code." }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to import statements.";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const session = await auth();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { ticker } = await context.params;
+  if (!(await deleteManualFundamentals(session.user.id, ticker))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -1,13 +1,14 @@
 import { NextResponse } from "next/server";
 
-import { getQuote } from "@/lib/yahoo-client";
+import { getMarketDataProvider } from "@/lib/market-data/provider";
 
 type RouteContext = { params: Promise<{ ticker: string }> };
 
 /**
  * GET /api/quote/[ticker]
  *
- * Fetches real-time quote data for a given ticker symbol from Yahoo Finance.
+ * Fetches real-time quote data for a given ticker symbol from the configured
+ * market data provider (Yahoo Finance by default).
  *
  * Returns:
  * - 200: Quote data (ticker, price, market cap, shares outstanding, region)
@@ -19,7 +20,7 @@ type RouteContext = { params: Promise<{ ticker: string }> };
 export async function GET(_: Request, context: RouteContext) {
   try {
     const params = await context.params;
-    const quote = await getQuote(params.ticker);
+    const quote = await getMarketDataProvider().getQuote(params.ticker);
     return NextResponse.json(quote);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unable to fetch quote.";
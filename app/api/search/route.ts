@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getMarketDataProvider } from "@/lib/market-data/provider";
+
+const querySchema = z.string().trim().min(1).max(50);
+
+/**
+ * GET /api/search?q=eni
+ *
+ * Searches equities by partial ticker or company name across exchanges,
+ * using the configured market data provider (Yahoo Finance by default,
+ * recorded fixtures when offline). Powers the ticker autocomplete.
+ *
+ * Returns:
+ * - 200: { query, results: [{ symbol, name, exchange, region, currency }] }
+ * - 400: Missing or too long query, or Yahoo Finance error
+ * - 503: Rate limit reached (retry after 30-60 seconds)
+ *
+ * Example: GET /api/search?q=asml
+ */
+export async function GET(request: Request) {
+  try {
+    const query = querySchema.parse(new URL(request.url).searchParams.get("q") ?? "");
+    const results = await getMarketDataProvider().searchSymbols(query);
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Search query must be 1-50 characters." }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to search symbols.";
+
+    // 503 for rate limits so the autocomplete can retry on the next keystroke
+    const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
+    return NextResponse.json(
+      {
+        error: message
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+// POST /api/sec/companyfacts/:ticker — upload an SEC companyfacts JSON file for a ticker (multipart form)
+//
+// Stores the file in SEC_COMPANYFACTS_DIR, where the "sec" market data
+// provider reads it (see lib/sec-client.ts). Files are shared by all users,
+// like provider data, so only the admins listed in SEC_UPLOAD_ADMINS may
+// upload, and the document's CIK must be the ticker's in company_tickers.json.
+// The directory must be writable (local or self-hosted deployments).
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { NextResponse } from "next/server";
+
+import { auth } from "@/lib/auth";
+import { invalidateCachedTicker } from "@/lib/market-data/cache";
+import { canUploadCompanyFacts, companyFactsPath, isCompanyFacts, lookupCik, mapCompanyFacts } from "@/lib/sec-client";
+
+// Large filers' companyfacts run to several MB (every concept since 2009)
+const MAX_FILE_BYTES = 30 * 1024 * 1024;
+
+type RouteContext = { params: Promise<{ ticker: string }> };
+
+/**
+ * Form fields:
+ * - file: companyfacts JSON as downloaded from data.sec.gov/api/xbrl/companyfacts/
+ *
+ * Returns:
+ * - 201: { ticker, cik, entityName, years } for the stored file
+ * - 400: Missing/oversized file, not a companyfacts document, a CIK that isn't the
+ *   ticker's (or a ticker missing from company_tickers.json), or no annual 10-K revenue
+ * - 401: Not logged in
+ * - 403: Not an admin (SEC_UPLOAD_ADMINS)
+ * - 500: The directory isn't writable
+ */
+export async function POST(request: Request, context: RouteContext) {
+  const session = await auth();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (!canUploadCompanyFacts(session.user.email)) {
+    return NextResponse.json({ error: "Only administrators can upload SEC filings." }, { status: 403 });
+  }
+
+  const { ticker } = await context.params;
+
+  let fundamentals;
+  let content: string;
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "Attach a companyfacts .json file." }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "File too large (max 30 MB)." }, { status: 400 });
+    }
+
+    content = await file.text();
+    const parsed: unknown = JSON.parse(content);
+    if (!isCompanyFacts(parsed)) {
+      return NextResponse.json({ error: "Not an SEC companyfacts document (no us-gaap facts)." }, { status: 400 });
+    }
+
+    // Shared storage: make sure another company's facts can't land under this ticker
+    const expectedCik = await lookupCik(ticker);
+    if (expectedCik === null) {
+      return NextResponse.json(
+        { error: `Can't verify the filer: ${ticker.toUpperCase()} isn't listed in company_tickers.json.` },
+        { status: 400 }
+      );
+    }
+    if (Number(parsed.cik) !== expectedCik) {
+      return NextResponse.json(
+        { error: `The file is for CIK ${parsed.cik} (${parsed.entityName ?? "unknown filer"}), not ${ticker.toUpperCase()} (CIK ${expectedCik}).` },
+        { status: 400 }
+      );
+    }
+    fundamentals = mapCompanyFacts(ticker, parsed).fundamentals;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "The file is not valid JSON." }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to read the file.";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const file = companyFactsPath(ticker);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, content, "utf8");
+  } catch {
+    return NextResponse.json({ error: "Unable to store the file on the server." }, { status: 500 });
+  }
+
+  // Cached fundamentals were built from the previous file (or from Yahoo)
+  await invalidateCachedTicker("sec", ticker);
+
+  return NextResponse.json(
+    {
+      ticker: fundamentals.ticker,
+      cik: fundamentals.secFilings?.cik,
+      entityName: fundamentals.secFilings?.entityName,
+      years: fundamentals.annual.map((point) => point.year)
+    },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Reverse DCF API Route
+ *
+ * Solves for the revenue growth (years 1-5), operating margin or WACC that
+ * makes the DCF fair value per share equal the current price, holding the
+ * other assumptions of the submitted scenario fixed. Uses the same inputs as
+ * the valuation route (uploaded statements, FX conversion, discounting).
+ */
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { loadValuationInputs } from "@/lib/valuation/inputs";
+import { solveImpliedValue } from "@/lib/valuation/reverse-dcf";
+import { shorthandScenarioSchema, valuationInputsSchema } from "@/lib/valuation/schemas";
+import { ImpliedValuationResponse } from "@/types/valuation";
+
+const requestSchema = valuationInputsSchema.extend({
+  variable: z.enum(["revenueGrowthYears1to5", "operatingMarginTarget", "wacc"]).default("revenueGrowthYears1to5"),
+  scenario: shorthandScenarioSchema
+});
+
+type RouteContext = { params: Promise<{ ticker: string }> };
+
+/**
+ * POST /api/valuation/[ticker]/implied
+ *
+ * Request body:
+ * - scenario: Shorthand scenario holding the fixed assumptions (usually the base case)
+ * - variable: "revenueGrowthYears1to5" (default), "operatingMarginTarget" or "wacc"
+ * - sharesOutstandingOverride, revenueBasis, discountConvention, valuationDate: as for POST /api/valuation/[ticker]
+ *
+ * Returns:
+ * - 200: Implied value (null with `outOfRange` when no value within the input bounds reprices the stock)
+ * - 400: Invalid input payload
+ * - 422: Missing required financial data (revenue, shares outstanding)
+ * - 503: Yahoo Finance rate limit
+ *
+ * Example: POST /api/valuation/AAPL/implied
+ */
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const params = await context.params;
+    const payload = requestSchema.parse(await request.json());
+
+    const loaded = await loadValuationInputs(params.ticker, payload);
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 422 });
+    }
+    const { quote, dcf, discounting } = loaded.inputs;
+
+    const implied = solveImpliedValue({ ...dcf, mosPercent: 0, scenario: payload.scenario }, payload.variable);
+
+    const response: ImpliedValuationResponse = {
+      ticker: quote.ticker,
+      currency: quote.currency,
+      currentPrice: quote.regularMarketPrice,
+      scenarioValue: payload.scenario[payload.variable],
+      implied,
+      discounting
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid implied valuation payload.", details: error.flatten() }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to solve the implied valuation.";
+    const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
+
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Monte Carlo Valuation API Route
+ *
+ * Runs thousands of DCF valuations server-side with scenario fields drawn
+ * from distributions, and returns fair value percentiles, the probability
+ * the fair value exceeds the price, and a histogram. A seeded RNG makes runs
+ * reproducible: the response echoes the seed used.
+ */
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { loadValuationInputs } from "@/lib/valuation/inputs";
+import { DEFAULT_MONTE_CARLO_RUNS, MAX_MONTE_CARLO_RUNS, runMonteCarlo } from "@/lib/valuation/monte-carlo";
+import { distributionSchema, shorthandScenarioSchema, valuationInputsSchema } from "@/lib/valuation/schemas";
+import { MonteCarloResponse } from "@/types/valuation";
+
+const requestSchema = valuationInputsSchema.extend({
+  scenario: shorthandScenarioSchema,
+  distributions: z
+    .object({
+      revenueGrowthYears1to5: distributionSchema,
+      revenueGrowthYears6to10: distributionSchema,
+      operatingMarginTarget: distributionSchema,
+      taxRate: distributionSchema,
+      reinvestmentRate: distributionSchema,
+      wacc: distributionSchema,
+      terminalGrowth: distributionSchema
+    })
+    .partial(),
+  correlation: z.number().min(-1).max(1).default(0),
+  runs: z.number().int().min(100).max(MAX_MONTE_CARLO_RUNS).default(DEFAULT_MONTE_CARLO_RUNS),
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+  bins: z.number().int().min(5).max(100).default(30)
+});
+
+type RouteContext = { params: Promise<{ ticker: string }> };
+
+/**
+ * POST /api/valuation/[ticker]/monte-carlo
+ *
+ * Request body:
+ * - scenario: Shorthand scenario; values for fields without a distribution
+ * - distributions: Per field, { type: "normal", mean, stdDev }, { type: "triangular", min, mode, max }
+ *   or { type: "uniform", min, max } (decimals; draws are clamped to the scenario input bounds)
+ * - correlation: Between revenue growth (years 1-5) and operating margin, -1 to 1 (default 0)
+ * - runs: 100-20,000 (default 5,000)
+ * - seed: Optional; a random seed is picked (and returned) when omitted
+ * - bins: Histogram bins, 5-100 (default 30)
+ * - sharesOutstandingOverride, revenueBasis, discountConvention, valuationDate: as for POST /api/valuation/[ticker]
+ *
+ * Returns:
+ * - 200: Simulation result
+ * - 400: Invalid input payload
+ * - 422: Missing required financial data (revenue, shares outstanding)
+ * - 503: Yahoo Finance rate limit
+ *
+ * Example: POST /api/valuation/AAPL/monte-carlo
+ */
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const params = await context.params;
+    const payload = requestSchema.parse(await request.json());
+
+    const loaded = await loadValuationInputs(params.ticker, payload);
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 422 });
+    }
+    const { quote, dcf, discounting } = loaded.inputs;
+
+    const result = runMonteCarlo({
+      dcf,
+      base: payload.scenario,
+      distributions: payload.distributions,
+      correlation: payload.correlation,
+      runs: payload.runs,
+      seed: payload.seed ?? Math.floor(Math.random() * 0xffffffff),
+      bins: payload.bins
+    });
+
+    const response: MonteCarloResponse = {
+      ticker: quote.ticker,
+      currency: quote.currency,
+      currentPrice: quote.regularMarketPrice,
+      correlation: payload.correlation,
+      distributions: payload.distributions,
+      result,
+      discounting
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid Monte Carlo payload.", details: error.flatten() }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to run the simulation.";
+    const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
+
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -3,7 +3,7 @@
  *
  * This endpoint runs a 3-scenario (Bull/Base/Bear) discounted cash flow valuation
  * for a given ticker. It validates user inputs with Zod schemas, fetches market data
- * from Yahoo Finance, and returns fair value estimates with margin of safety applied.
+ * from the configured market data provider, and returns fair value estimates with margin of safety applied.
  *
  * Input validation constraints:
  * - Revenue growth: -50% to +60% (years 1-5), -50% to +40% (years 6-10)
@@ -11,40 +11,34 @@
  * - WACC: 3% to 30%
  * - Terminal growth: -2% to 6%
  * - Margin of safety: 0% to 80%
+ * - Multi-stage scenarios: 1-30 explicit years, each bounded like the shorthand
  *
- * NOTE: If you modify scenarioSchema constraints, update:
- * - Default presets in lib/valuation/scenario-presets.ts
- * - Frontend validation in components/scenario-panel.tsx
+ * Scenario schemas live in lib/valuation/schemas.ts (shared with the implied route).
  */
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { describeDcfInputIssues } from "@/lib/fundamentals/data-quality";
 import { runDcf } from "@/lib/valuation/dcf";
-import { getFundamentals, getNetDebtEstimate, getQuote } from "@/lib/yahoo-client";
+import { loadValuationInputs } from "@/lib/valuation/inputs";
+import { scenarioProbabilitiesSchema, scenarioSchema, valuationInputsSchema } from "@/lib/valuation/schemas";
+import { DEFAULT_SCENARIO_PROBABILITIES, weightScenarios } from "@/lib/valuation/weighted";
 import { ScenarioName } from "@/types/valuation";
 
-const scenarioSchema = z.object({
-  revenueGrowthYears1to5: z.number().min(-0.5).max(0.6),
-  revenueGrowthYears6to10: z.number().min(-0.5).max(0.4),
-  operatingMarginTarget: z.number().min(0).max(0.8),
-  taxRate: z.number().min(0).max(0.6),
-  reinvestmentRate: z.number().min(0).max(0.9),
-  wacc: z.number().min(0.03).max(0.3),
-  terminalGrowth: z.number().min(-0.02).max(0.06)
-});
-
-const requestSchema = z.object({
+const requestSchema = valuationInputsSchema.extend({
   mosPercent: z.number().min(0).max(80),
-  sharesOutstandingOverride: z.number().positive().optional(),
   scenarios: z.object({
     bull: scenarioSchema,
     base: scenarioSchema,
     bear: scenarioSchema
-  })
+  }),
+  probabilities: scenarioProbabilitiesSchema.default(DEFAULT_SCENARIO_PROBABILITIES),
+  statusBasis: z.enum(["base", "weighted"]).default("base")
 });
 
 /**
- * Classifies valuation status based on base scenario upside percentage.
+ * Classifies valuation status based on an upside percentage after margin of
+ * safety: the base scenario's, or the probability-weighted one.
  *
  * Uses 15% threshold to create a "gray zone" around fair value:
  * - >15% upside: undervalued (worth buying with margin of safety)
@@ -53,12 +47,12 @@ const requestSchema = z.object({
  *
  * The 15% threshold accounts for model uncertainty and transaction costs.
  */
-function getStatus(baseUpsideAfterMos: number): "undervalued" | "fair" | "overvalued" {
-  if (baseUpsideAfterMos > 15) {
+function getStatus(upsideAfterMos: number): "undervalued" | "fair" | "overvalued" {
+  if (upsideAfterMos > 15) {
     return "undervalued";
   }
 
-  if (baseUpsideAfterMos < -15) {
+  if (upsideAfterMos < -15) {
     return "overvalued";
   }
 
@@ -72,10 +66,26 @@ type RouteContext = { params: Promise<{ ticker: string }> };
  *
  * Runs a multi-scenario DCF valuation with user-provided scenario inputs.
  *
+ * Revenue and net debt come from the financial statements, which may be in
+ * another currency than the share price (ADRs, many non-US listings). Both are
+ * converted to the trading currency first so fair values compare to the price.
+ *
+ * Statements the signed-in user uploaded for the ticker replace provider
+ * fundamentals, and their shares and net debt take precedence over Yahoo's.
+ *
  * Request body:
  * - mosPercent: Margin of safety (0-80%)
  * - sharesOutstandingOverride: Optional manual shares outstanding override
- * - scenarios: Bull/Base/Bear scenario inputs (growth, margins, WACC, etc.)
+ * - revenueBasis: "annual" (last fiscal year, default) or "ttm" (trailing twelve months)
+ * - discountConvention: "end-of-year" (default) or "mid-year" cash flow timing
+ * - valuationDate: Optional YYYY-MM-DD date to discount to; when it falls after the
+ *   starting period's end, year 1 becomes a stub period. Without it, cash flows are
+ *   valued as of the end of the starting period (no stub)
+ * - scenarios: Bull/Base/Bear scenario inputs (growth, margins, WACC, etc.), each either
+ *   the 7-field shorthand or `{ years: [...], wacc, terminalGrowth }` with per-year assumptions
+ * - probabilities: Optional { bull, base, bear } adding up to 1 (default 0.25 / 0.5 / 0.25)
+ * - statusBasis: "base" (default) classifies the status on the base scenario's upside,
+ *   "weighted" on the probability-weighted upside
  *
  * Returns:
  * - 200: Valuation results with fair values and upside percentages
@@ -92,53 +102,18 @@ export async function POST(request: Request, context: RouteContext) {
     const body = await request.json();
     const payload = requestSchema.parse(body);
 
-    // Fetch market data in parallel for speed
-    const [quote, fundamentals, netDebt] = await Promise.all([
-      getQuote(params.ticker),
-      getFundamentals(params.ticker),
-      getNetDebtEstimate(params.ticker)
-    ]);
-
-    // Validate required fundamental data
-    const latestPoint = fundamentals.annual[0];
-    if (!latestPoint || latestPoint.revenue <= 0) {
-      return NextResponse.json({ error: "Missing revenue data for valuation." }, { status: 422 });
-    }
-
-    // Use manual override if provided, otherwise use Yahoo Finance data
-    // Some non-US tickers don't expose shares outstanding via Yahoo API
-    const sharesOutstanding = payload.sharesOutstandingOverride ?? quote.sharesOutstanding;
-    if (!sharesOutstanding || sharesOutstanding <= 0) {
-      return NextResponse.json({ error: "Missing shares outstanding." }, { status: 422 });
+    const loaded = await loadValuationInputs(params.ticker, payload);
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 422 });
     }
+    const { quote, fundamentals, fx, dcf, discounting } = loaded.inputs;
 
     // Run DCF valuation for all three scenarios
     const scenarioNames: ScenarioName[] = ["bull", "base", "bear"];
     const scenarios = {
-      bull: runDcf({
-        currentRevenue: latestPoint.revenue,
-        netDebt,
-        sharesOutstanding,
-        currentPrice: quote.regularMarketPrice,
-        mosPercent: payload.mosPercent,
-        scenario: payload.scenarios.bull
-      }),
-      base: runDcf({
-        currentRevenue: latestPoint.revenue,
-        netDebt,
-        sharesOutstanding,
-        currentPrice: quote.regularMarketPrice,
-        mosPercent: payload.mosPercent,
-        scenario: payload.scenarios.base
-      }),
-      bear: runDcf({
-        currentRevenue: latestPoint.revenue,
-        netDebt,
-        sharesOutstanding,
-        currentPrice: quote.regularMarketPrice,
-        mosPercent: payload.mosPercent,
-        scenario: payload.scenarios.bear
-      })
+      bull: runDcf({ ...dcf, mosPercent: payload.mosPercent, scenario: payload.scenarios.bull }),
+      base: runDcf({ ...dcf, mosPercent: payload.mosPercent, scenario: payload.scenarios.base }),
+      bear: runDcf({ ...dcf, mosPercent: payload.mosPercent, scenario: payload.scenarios.bear })
     };
 
     // Sanity check: ensure all fair values are valid numbers
@@ -149,15 +124,28 @@ export async function POST(request: Request, context: RouteContext) {
       }
     }
 
+    const weighted = weightScenarios(scenarios, payload.probabilities, quote.regularMarketPrice);
+    const statusUpside = payload.statusBasis === "weighted" ? weighted.expectedUpsidePercent : scenarios.base.upsideVsPricePercent;
+
     // Return valuation results with status classification
     return NextResponse.json({
       ticker: quote.ticker,
+      currency: quote.currency,
+      financialCurrency: fundamentals.financialCurrency,
+      fxRate: fx.rate,
       currentPrice: quote.regularMarketPrice,
       mosPercent: payload.mosPercent,
+      revenueBasis: payload.revenueBasis,
+      startingRevenue: dcf.currentRevenue,
+      dataWarnings: describeDcfInputIssues(fundamentals, payload.revenueBasis),
+      discounting,
       scenarios,
+      weighted,
       summary: {
-        status: getStatus(scenarios.base.upsideVsPricePercent),
-        baseScenarioUpsideAfterMos: scenarios.base.upsideVsPricePercent
+        status: getStatus(statusUpside),
+        statusBasis: payload.statusBasis,
+        baseScenarioUpsideAfterMos: scenarios.base.upsideVsPricePercent,
+        weightedUpsideAfterMos: weighted.expectedUpsidePercent
       }
     });
   } catch (error) {
@@ -0,0 +1,115 @@
+/**
+ * Sensitivity Table API Route
+ *
+ * Revalues one scenario over a grid of two of its parameters (e.g. WACC ×
+ * terminal growth, or revenue growth × operating margin) and returns the
+ * fair value and upside at each point. Uses the same inputs as the
+ * valuation route (uploaded statements, FX conversion, discounting).
+ */
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { SCENARIO_FIELD_BOUNDS } from "@/lib/valuation/dcf";
+import { loadValuationInputs } from "@/lib/valuation/inputs";
+import { shorthandScenarioSchema, scenarioFieldSchema, valuationInputsSchema } from "@/lib/valuation/schemas";
+import { MAX_SENSITIVITY_STEPS, runSensitivityGrid, sensitivityValues } from "@/lib/valuation/sensitivity";
+import { SensitivityResponse } from "@/types/valuation";
+
+const axisValuesSchema = z.array(z.number()).min(2).max(MAX_SENSITIVITY_STEPS * 2 + 1).optional();
+
+const requestSchema = valuationInputsSchema
+  .extend({
+    mosPercent: z.number().min(0).max(80),
+    scenario: shorthandScenarioSchema,
+    rowParameter: scenarioFieldSchema.default("wacc"),
+    columnParameter: scenarioFieldSchema.default("terminalGrowth"),
+    rowValues: axisValuesSchema,
+    columnValues: axisValuesSchema,
+    steps: z.number().int().min(1).max(MAX_SENSITIVITY_STEPS).default(2)
+  })
+  .refine((value) => value.rowParameter !== value.columnParameter, "Row and column parameters must differ.")
+  .superRefine((value, context) => {
+    // Explicit values must pass validateScenarioInput, like the scenario itself
+    const axes = [
+      ["rowValues", value.rowParameter, value.rowValues],
+      ["columnValues", value.columnParameter, value.columnValues]
+    ] as const;
+
+    for (const [path, parameter, values] of axes) {
+      const [min, max] = SCENARIO_FIELD_BOUNDS[parameter];
+      values?.forEach((entry, index) => {
+        if (entry < min || entry > max) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [path, index],
+            message: `${parameter} values must be between ${min} and ${max}.`
+          });
+        }
+      });
+    }
+  });
+
+type RouteContext = { params: Promise<{ ticker: string }> };
+
+/**
+ * POST /api/valuation/[ticker]/sensitivity
+ *
+ * Request body:
+ * - mosPercent: Margin of safety (0-80%)
+ * - scenario: Shorthand scenario to vary (usually the base case)
+ * - rowParameter / columnParameter: Scenario fields to vary (default "wacc" × "terminalGrowth")
+ * - rowValues / columnValues: Optional explicit values (decimals within the parameter's bounds, 2-11 each); otherwise
+ *   `steps` (1-5, default 2) default-sized steps either side of the scenario's value
+ * - sharesOutstandingOverride, revenueBasis, discountConvention, valuationDate: as for POST /api/valuation/[ticker]
+ *
+ * Returns:
+ * - 200: Grid of fair values and upside percentages
+ * - 400: Invalid input payload
+ * - 422: Missing required financial data (revenue, shares outstanding)
+ * - 503: Yahoo Finance rate limit
+ *
+ * Example: POST /api/valuation/AAPL/sensitivity
+ */
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const params = await context.params;
+    const payload = requestSchema.parse(await request.json());
+
+    const loaded = await loadValuationInputs(params.ticker, payload);
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 422 });
+    }
+    const { quote, dcf, discounting } = loaded.inputs;
+
+    const axis = (parameter: typeof payload.rowParameter, values?: number[]) =>
+      values ? [...values].sort((a, b) => a - b) : sensitivityValues(parameter, payload.scenario[parameter], payload.steps);
+
+    const grid = runSensitivityGrid({
+      dcf: { ...dcf, mosPercent: payload.mosPercent },
+      scenario: payload.scenario,
+      rowParameter: payload.rowParameter,
+      columnParameter: payload.columnParameter,
+      rowValues: axis(payload.rowParameter, payload.rowValues),
+      columnValues: axis(payload.columnParameter, payload.columnValues)
+    });
+
+    const response: SensitivityResponse = {
+      ticker: quote.ticker,
+      currency: quote.currency,
+      currentPrice: quote.regularMarketPrice,
+      mosPercent: payload.mosPercent,
+      grid,
+      discounting
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid sensitivity payload.", details: error.flatten() }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to build the sensitivity table.";
+    const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
+
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Tornado Analysis API Route
+ *
+ * Moves each scenario field down and up by a delta, one at a time, and
+ * returns the fair value at both ends ranked by swing, showing which single
+ * assumption drives the valuation most. Uses the same inputs as the
+ * valuation route (uploaded statements, FX conversion, discounting).
+ */
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { loadValuationInputs } from "@/lib/valuation/inputs";
+import { scenarioFieldSchema, shorthandScenarioSchema, valuationInputsSchema } from "@/lib/valuation/schemas";
+import { DEFAULT_TORNADO_DELTAS, runTornado } from "@/lib/valuation/tornado";
+import { TornadoResponse } from "@/types/valuation";
+
+const requestSchema = valuationInputsSchema.extend({
+  scenario: shorthandScenarioSchema,
+  deltas: z.record(scenarioFieldSchema, z.number().positive().max(0.5)).default({})
+});
+
+type RouteContext = { params: Promise<{ ticker: string }> };
+
+/**
+ * POST /api/valuation/[ticker]/tornado
+ *
+ * Request body:
+ * - scenario: Shorthand scenario to perturb (usually the base case)
+ * - deltas: Optional ±delta per field (decimals, up to 0.5); missing fields use the defaults
+ * - sharesOutstandingOverride, revenueBasis, discountConvention, valuationDate: as for POST /api/valuation/[ticker]
+ *
+ * Returns:
+ * - 200: Tornado bars, largest swing first
+ * - 400: Invalid input payload
+ * - 422: Missing required financial data (revenue, shares outstanding)
+ * - 503: Yahoo Finance rate limit
+ *
+ * Example: POST /api/valuation/AAPL/tornado
+ */
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const params = await context.params;
+    const payload = requestSchema.parse(await request.json());
+
+    const loaded = await loadValuationInputs(params.ticker, payload);
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 422 });
+    }
+    const { quote, dcf, discounting } = loaded.inputs;
+
+    const deltas = { ...DEFAULT_TORNADO_DELTAS, ...payload.deltas };
+    const result = runTornado({ dcf, scenario: payload.scenario, deltas });
+
+    const response: TornadoResponse = {
+      ticker: quote.ticker,
+      currency: quote.currency,
+      currentPrice: quote.regularMarketPrice,
+      deltas,
+      result,
+      discounting
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid tornado payload.", details: error.flatten() }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Unable to run the tornado analysis.";
+    const status = message.toLowerCase().includes("rate limit") ? 503 : 400;
+
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -9,12 +9,14 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import ReactMarkdown from "react-markdown";
 import { saveAnalysis } from "@/lib/analyses";
-import type { ScenariosInput } from "@/types/valuation";
+import type { DiscountConvention, RevenueBasis, ScenariosInput } from "@/types/valuation";
 
 type Props = {
   ticker: string | null;
   mosPercent: number;
   scenarios: ScenariosInput;
+  revenueBasis: RevenueBasis;
+  discountConvention: DiscountConvention;
   companyName?: string;
 };
 
@@ -24,7 +26,7 @@ type Status = "idle" | "loading" | "streaming" | "done" | "error";
  * Streams the AI analysis from /api/ai/analyze and renders it with react-markdown.
  *
  * Streaming pattern:
- * 1. POST request with ticker, mosPercent, scenarios
+ * 1. POST request with ticker, mosPercent, scenarios and the valuation options
  * 2. Read response.body as a ReadableStream
  * 3. Decode each chunk and append to report state
  * 4. react-markdown re-renders on each state update
@@ -40,7 +42,14 @@ const LANGUAGES = [
   { value: "日本語", label: "🇯🇵 日本語" },
 ];
 
-export default function AiAnalysisPanel({ ticker, mosPercent, scenarios, companyName }: Props) {
+export default function AiAnalysisPanel({
+  ticker,
+  mosPercent,
+  scenarios,
+  revenueBasis,
+  discountConvention,
+  companyName,
+}: Props) {
   const { data: session } = useSession();
   const router = useRouter();
 
@@ -76,7 +85,7 @@ export default function AiAnalysisPanel({ ticker, mosPercent, scenarios, company
       const res = await fetch("/api/ai/analyze", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ticker, mosPercent, scenarios, language }),
+        body: JSON.stringify({ ticker, mosPercent, scenarios, revenueBasis, discountConvention, language }),
         signal: controller.signal,
       });
 
@@ -17,19 +17,52 @@ import {
 import { DisclaimerBanner } from "@/components/disclaimer-banner";
 import { FairValueCard } from "@/components/fair-value-card";
 import { FundamentalsCharts } from "@/components/fundamentals-charts";
+import { ManualImportPanel } from "@/components/manual-import-panel";
+import { MonteCarloCard } from "@/components/monte-carlo-card";
+import { PriceHistoryChart } from "@/components/price-history-chart";
 import { PriceSummary } from "@/components/price-summary";
+import { ProjectionTable } from "@/components/projection-table";
 import { ScenarioPanel } from "@/components/scenario-panel";
+import { SensitivityHeatmap } from "@/components/sensitivity-heatmap";
 import { TickerSearch } from "@/components/ticker-search";
+import { TornadoChart } from "@/components/tornado-chart";
 import AiAnalysisPanel from "@/components/ai-analysis-panel";
 import { ValuationMetricsCards } from "@/components/valuation-metrics-cards";
+import { WeightedFairValueCard } from "@/components/weighted-fair-value-card";
+import { convertQuote, convertValuation } from "@/lib/currency";
+import { formatDataAge, formatPercent } from "@/lib/format";
 import { getDefaultScenarios } from "@/lib/valuation/scenario-presets";
+import { DEFAULT_SCENARIO_PROBABILITIES } from "@/lib/valuation/weighted";
 import { FundamentalsResponse } from "@/types/fundamentals";
-import { QuoteResponse } from "@/types/market";
-import { AnalystEstimates, AnalystEstimatesResponse, ScenariosInput, ValuationResponse } from "@/types/valuation";
+import { FxRate, QuoteResponse } from "@/types/market";
+import {
+  AnalystEstimates,
+  AnalystEstimatesResponse,
+  DiscountConvention,
+  ImpliedValueResult,
+  ImpliedValuationResponse,
+  RevenueBasis,
+  ScenarioInput,
+  ScenarioProbabilities,
+  ScenariosInput,
+  StatusBasis,
+  ValuationResponse
+} from "@/types/valuation";
 
 type LoadState = "idle" | "loading" | "success" | "error";
 type ScenarioSource = "smart" | "generic" | "custom";
 
+// Rates from the ticker's trading and statement currencies to the display currency
+type DisplayFx = {
+  currency: string;
+  priceRate: number;
+  statementRate: number;
+  asOf: string;
+};
+
+// Offered in the display currency selector besides the ticker's own currency
+const DISPLAY_CURRENCIES = ["USD", "EUR", "GBP", "CHF", "JPY"];
+
 // Zod schemas for runtime validation of localStorage data
 const scenarioSchema = z.object({
   revenueGrowthYears1to5: z.number(),
@@ -47,6 +80,12 @@ const scenarioOverridesSchema = z.object({
   bear: scenarioSchema
 });
 
+const scenarioProbabilitiesSchema = z.object({
+  bull: z.number(),
+  base: z.number(),
+  bear: z.number()
+});
+
 /**
  * Safely retrieves and parses a value from localStorage.
  *
@@ -76,6 +115,18 @@ function getStorageItem<T>(key: string, parser: (value: unknown) => T, fallback:
   }
 }
 
+/**
+ * Fetch the conversion rate between two currencies from /api/fx.
+ *
+ * @throws Error with the API's message when the pair is unavailable
+ */
+async function fetchFxRate(from: string, to: string): Promise<FxRate> {
+  const res = await fetch(`/api/fx?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Unable to load exchange rate.");
+  return data;
+}
+
 /**
  * Main dashboard component orchestrating stock analysis workflow.
  *
@@ -84,6 +135,7 @@ function getStorageItem<T>(key: string, parser: (value: unknown) => T, fallback:
  * - Company-specific smart scenario defaults auto-populated on ticker search
  * - DCF scenario inputs with localStorage persistence
  * - Margin of safety slider
+ * - Display currency (prices, fair values and charts converted client-side)
  * - UI preferences (compact charts toggle)
  *
  * On ticker search, the dashboard fetches analyst estimates and fundamentals to
@@ -102,12 +154,28 @@ export function DashboardClient() {
   const [fundamentals, setFundamentals] = useState<FundamentalsResponse | null>(null);
   const [valuation, setValuation] = useState<ValuationResponse | null>(null);
   const [analystEstimates, setAnalystEstimates] = useState<AnalystEstimates | null>(null);
+  // Reverse DCF: growth the current price implies for the base case
+  const [impliedGrowth, setImpliedGrowth] = useState<ImpliedValueResult | null>(null);
 
   // Smart scenarios computed from company data — used as the "reset smart" target
   const [smartScenarios, setSmartScenarios] = useState<ScenariosInput | null>(null);
+  // Leave anomalous years (writedowns, restatements) out of the smart scenarios
+  const [excludeAnomalies, setExcludeAnomalies] = useState(false);
+  const [excludedYears, setExcludedYears] = useState<number[]>([]);
 
   const [mosPercent, setMosPercent] = useState(25);
+  // Empty string = show amounts in the ticker's own currencies
+  const [displayCurrency, setDisplayCurrency] = useState("");
+  const [displayFx, setDisplayFx] = useState<DisplayFx | null>(null);
+  const [fxError, setFxError] = useState("");
+  // DCF starting revenue: last fiscal year (default) or trailing twelve months
+  const [revenueBasis, setRevenueBasis] = useState<RevenueBasis>("annual");
+  // DCF cash flow timing: end of year (default) or mid-year convention
+  const [discountConvention, setDiscountConvention] = useState<DiscountConvention>("end-of-year");
   const [scenarios, setScenarios] = useState<ScenariosInput>(getDefaultScenarios());
+  // Scenario probabilities for the weighted fair value, and whether the status uses it
+  const [probabilities, setProbabilities] = useState<ScenarioProbabilities>(DEFAULT_SCENARIO_PROBABILITIES);
+  const [statusBasis, setStatusBasis] = useState<StatusBasis>("base");
   // Tracks the origin of the current scenario values for the UI indicator
   const [scenarioSource, setScenarioSource] = useState<ScenarioSource>("generic");
   // Tracks whether client-side hydration has completed to prevent localStorage reads during SSR
@@ -116,7 +184,12 @@ export function DashboardClient() {
   // Refs store latest scenario values for use in async callbacks (fetchDashboardData)
   // Without refs, fetchDashboardData would close over stale state from its creation time
   const mosRef = useRef(mosPercent);
+  const revenueBasisRef = useRef(revenueBasis);
+  const discountConventionRef = useRef(discountConvention);
+  const excludeAnomaliesRef = useRef(excludeAnomalies);
   const scenariosRef = useRef(scenarios);
+  const probabilitiesRef = useRef(probabilities);
+  const statusBasisRef = useRef(statusBasis);
 
   // SSR Hydration: Load persisted state from localStorage on client mount only
   // This useEffect runs once after the initial server-side render completes,
@@ -124,6 +197,32 @@ export function DashboardClient() {
   useEffect(() => {
     const storedTicker = getStorageItem("sfa:lastTicker", (value) => String(value), "AAPL");
     const storedMos = getStorageItem("sfa:mosPercent", (value) => Number(value), 25);
+    const storedRevenueBasis = getStorageItem<RevenueBasis>(
+      "sfa:revenueBasis",
+      (value) => z.enum(["annual", "ttm"]).parse(value),
+      "annual"
+    );
+    const storedDiscountConvention = getStorageItem<DiscountConvention>(
+      "sfa:discountConvention",
+      (value) => z.enum(["end-of-year", "mid-year"]).parse(value),
+      "end-of-year"
+    );
+    const storedExcludeAnomalies = getStorageItem("sfa:excludeAnomalies", (value) => z.boolean().parse(value), false);
+    const storedDisplayCurrency = getStorageItem(
+      "sfa:displayCurrency",
+      (value) => z.enum(["", ...DISPLAY_CURRENCIES] as [string, ...string[]]).parse(value),
+      ""
+    );
+    const storedProbabilities = getStorageItem(
+      "sfa:scenarioProbabilities",
+      (value) => scenarioProbabilitiesSchema.parse(value),
+      DEFAULT_SCENARIO_PROBABILITIES
+    );
+    const storedStatusBasis = getStorageItem<StatusBasis>(
+      "sfa:statusBasis",
+      (value) => z.enum(["base", "weighted"]).parse(value),
+      "base"
+    );
     const storedScenarios = getStorageItem(
       "sfa:scenarioOverrides",
       (value) => scenarioOverridesSchema.parse(value),
@@ -131,7 +230,13 @@ export function DashboardClient() {
     );
     setTicker(storedTicker);
     setMosPercent(Number.isFinite(storedMos) ? storedMos : 25);
+    setRevenueBasis(storedRevenueBasis);
+    setDiscountConvention(storedDiscountConvention);
+    setExcludeAnomalies(storedExcludeAnomalies);
+    setDisplayCurrency(storedDisplayCurrency);
     setScenarios(storedScenarios);
+    setProbabilities(storedProbabilities);
+    setStatusBasis(storedStatusBasis);
     setIsHydrated(true);
   }, []);
 
@@ -152,6 +257,89 @@ export function DashboardClient() {
     window.localStorage.setItem("sfa:mosPercent", String(mosPercent));
   }, [mosPercent, isHydrated]);
 
+  // Persist revenue basis and sync ref for async callbacks
+  useEffect(() => {
+    revenueBasisRef.current = revenueBasis;
+    if (!isHydrated) {
+      return;
+    }
+    window.localStorage.setItem("sfa:revenueBasis", JSON.stringify(revenueBasis));
+  }, [revenueBasis, isHydrated]);
+
+  // Persist the discounting convention and sync ref for async callbacks
+  useEffect(() => {
+    discountConventionRef.current = discountConvention;
+    if (!isHydrated) {
+      return;
+    }
+    window.localStorage.setItem("sfa:discountConvention", JSON.stringify(discountConvention));
+  }, [discountConvention, isHydrated]);
+
+  // Persist the anomaly exclusion preference and sync ref for async callbacks
+  useEffect(() => {
+    excludeAnomaliesRef.current = excludeAnomalies;
+    if (!isHydrated) {
+      return;
+    }
+    window.localStorage.setItem("sfa:excludeAnomalies", JSON.stringify(excludeAnomalies));
+  }, [excludeAnomalies, isHydrated]);
+
+  // Persist scenario probabilities and sync ref for async callbacks
+  useEffect(() => {
+    probabilitiesRef.current = probabilities;
+    if (!isHydrated) {
+      return;
+    }
+    window.localStorage.setItem("sfa:scenarioProbabilities", JSON.stringify(probabilities));
+  }, [probabilities, isHydrated]);
+
+  // Persist the status basis and sync ref for async callbacks
+  useEffect(() => {
+    statusBasisRef.current = statusBasis;
+    if (!isHydrated) {
+      return;
+    }
+    window.localStorage.setItem("sfa:statusBasis", JSON.stringify(statusBasis));
+  }, [statusBasis, isHydrated]);
+
+  // Persist display currency
+  useEffect(() => {
+    if (!isHydrated) {
+      return;
+    }
+    window.localStorage.setItem("sfa:displayCurrency", JSON.stringify(displayCurrency));
+  }, [displayCurrency, isHydrated]);
+
+  // Load conversion rates whenever the ticker's currencies or the display currency change.
+  // Prices are in the trading currency, statements in the financial currency, so
+  // each needs its own rate.
+  const tradingCurrency = quote?.currency;
+  const statementCurrency = fundamentals?.financialCurrency;
+  useEffect(() => {
+    setFxError("");
+    if (!tradingCurrency || !statementCurrency || !displayCurrency || displayCurrency === tradingCurrency) {
+      setDisplayFx(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([fetchFxRate(tradingCurrency, displayCurrency), fetchFxRate(statementCurrency, displayCurrency)])
+      .then(([price, statements]) => {
+        if (cancelled) return;
+        setDisplayFx({ currency: displayCurrency, priceRate: price.rate, statementRate: statements.rate, asOf: price.asOf });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        // Fall back to the ticker's own currency rather than showing mixed amounts
+        setDisplayFx(null);
+        setFxError(error instanceof Error ? error.message : "Unable to load exchange rate.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tradingCurrency, statementCurrency, displayCurrency]);
+
   // Persist scenario inputs and sync ref for async callbacks
   useEffect(() => {
     scenariosRef.current = scenarios;
@@ -171,18 +359,47 @@ export function DashboardClient() {
    */
   const fetchSmartScenarios = useCallback(async (nextTicker: string): Promise<ScenariosInput | null> => {
     try {
-      const res = await fetch(`/api/analyst-estimates/${encodeURIComponent(nextTicker)}`);
+      const query = excludeAnomaliesRef.current ? "?excludeAnomalies=true" : "";
+      const res = await fetch(`/api/analyst-estimates/${encodeURIComponent(nextTicker)}${query}`);
       if (!res.ok) return null;
 
       const data: AnalystEstimatesResponse = await res.json();
       setAnalystEstimates(data.analystEstimates);
       setSmartScenarios(data.smartScenarios);
+      setExcludedYears(data.excludedYears);
       return data.smartScenarios;
     } catch {
       return null;
     }
   }, []);
 
+  /**
+   * Solve for the market-implied years 1-5 growth of the base scenario.
+   *
+   * Informational and non-critical: failures just leave the figure out.
+   */
+  const fetchImpliedGrowth = useCallback(async (nextTicker: string, base: ScenarioInput) => {
+    try {
+      const res = await fetch(`/api/valuation/${encodeURIComponent(nextTicker)}/implied`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          revenueBasis: revenueBasisRef.current,
+          discountConvention: discountConventionRef.current,
+          scenario: base
+        })
+      });
+      if (!res.ok) return;
+
+      const data: ImpliedValuationResponse = await res.json();
+      setImpliedGrowth(data.implied);
+    } catch {
+      /* non-critical, silently ignore */
+    }
+  }, []);
+
   /**
    * Fetches quote, fundamentals, and valuation data for a given ticker.
    *
@@ -197,6 +414,7 @@ export function DashboardClient() {
     async (nextTicker: string, useSmartDefaults = true) => {
       setLoadState("loading");
       setErrorMessage("");
+      setImpliedGrowth(null);
 
       try {
         // Fetch smart scenarios first so they're used in the valuation request
@@ -222,7 +440,11 @@ export function DashboardClient() {
             },
             body: JSON.stringify({
               mosPercent: mosRef.current,
-              scenarios: activeScenarios
+              revenueBasis: revenueBasisRef.current,
+              discountConvention: discountConventionRef.current,
+              scenarios: activeScenarios,
+              probabilities: probabilitiesRef.current,
+              statusBasis: statusBasisRef.current
             })
           })
         ]);
@@ -248,25 +470,36 @@ export function DashboardClient() {
         setFundamentals(fundamentalsData);
         setValuation(valuationData);
         setLoadState("success");
+        void fetchImpliedGrowth(nextTicker, activeScenarios.base);
       } catch (error) {
         setLoadState("error");
         setErrorMessage(error instanceof Error ? error.message : "Unexpected error.");
       }
     },
-    [fetchSmartScenarios]
+    [fetchSmartScenarios, fetchImpliedGrowth]
+  );
+
+  // Quote and valuation as shown: converted when a display currency is active
+  const shownQuote = useMemo(
+    () => (quote && displayFx ? convertQuote(quote, displayFx.priceRate, displayFx.currency) : quote),
+    [quote, displayFx]
+  );
+  const shownValuation = useMemo(
+    () => (valuation && displayFx ? convertValuation(valuation, displayFx.priceRate, displayFx.currency) : valuation),
+    [valuation, displayFx]
   );
 
   const valuationChartData = useMemo(() => {
-    if (!valuation) {
+    if (!shownValuation) {
       return [];
     }
 
     return ["bull", "base", "bear"].map((scenario) => ({
       scenario,
-      currentPrice: valuation.currentPrice,
-      fairValueAfterMos: valuation.scenarios[scenario as keyof typeof valuation.scenarios].fairValueAfterMos
+      currentPrice: shownValuation.currentPrice,
+      fairValueAfterMos: shownValuation.scenarios[scenario as keyof typeof shownValuation.scenarios].fairValueAfterMos
     }));
-  }, [valuation]);
+  }, [shownValuation]);
 
   return (
     <main className="mx-auto max-w-7xl p-4 pb-10 sm:p-6 lg:p-8">
@@ -297,9 +530,34 @@ export function DashboardClient() {
           scenarios={scenarios}
           mosPercent={mosPercent}
           analystEstimates={analystEstimates}
+          impliedGrowth={impliedGrowth}
           scenarioSource={scenarioSource}
           loading={loadState === "loading"}
           onMosChange={setMosPercent}
+          revenueBasis={revenueBasis}
+          onRevenueBasisChange={setRevenueBasis}
+          discountConvention={discountConvention}
+          onDiscountConventionChange={setDiscountConvention}
+          probabilities={probabilities}
+          onProbabilityChange={(scenario, value) => {
+            setProbabilities((current) => ({ ...current, [scenario]: value }));
+          }}
+          statusBasis={statusBasis}
+          onStatusBasisChange={setStatusBasis}
+          currency={quote?.currency}
+          ticker={quote?.ticker}
+          excludeAnomalies={excludeAnomalies}
+          excludedYears={excludedYears}
+          onExcludeAnomaliesChange={(value) => {
+            setExcludeAnomalies(value);
+            excludeAnomaliesRef.current = value;
+            // Rebuild the smart scenarios; apply them only if they're what's on screen
+            void fetchSmartScenarios(ticker).then((smart) => {
+              if (smart && scenarioSource === "smart") {
+                setScenarios(smart);
+              }
+            });
+          }}
           onResetSmart={() => {
             if (smartScenarios) {
               setScenarios(smartScenarios);
@@ -326,6 +584,15 @@ export function DashboardClient() {
           }}
         />
 
+        {/* Uploaded statements for tickers Yahoo has no fundamentals for */}
+        <ManualImportPanel
+          ticker={ticker}
+          currency={quote?.currency}
+          onChange={() => {
+            void fetchDashboardData(ticker, true);
+          }}
+        />
+
         {/* Loading state */}
         {loadState === "loading" && <div className="card text-sm text-muted">Loading market and valuation data...</div>}
 
@@ -338,21 +605,73 @@ export function DashboardClient() {
         )}
 
         {/* Success state: render all dashboard sections */}
-        {loadState === "success" && quote && fundamentals && valuation && (
+        {loadState === "success" && quote && fundamentals && valuation && shownQuote && shownValuation && (
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.35 }}
             className="space-y-4"
           >
-            <PriceSummary quote={quote} />
+            {/* Display currency selector */}
+            <div className="flex flex-wrap items-center justify-end gap-2 text-xs text-slate-200">
+              {displayFx && (
+                <span className="text-muted">
+                  Converted from {quote.currency} at {displayFx.priceRate.toFixed(4)} · rate {formatDataAge(displayFx.asOf)}
+                </span>
+              )}
+              {fxError && <span className="text-danger">{fxError}</span>}
+              <label htmlFor="display-currency" className="font-semibold uppercase tracking-wider text-muted">
+                Display currency
+              </label>
+              <select
+                id="display-currency"
+                value={displayCurrency}
+                onChange={(event) => setDisplayCurrency(event.target.value)}
+                className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+              >
+                <option value="">{quote.currency} (trading)</option>
+                {DISPLAY_CURRENCIES.filter((currency) => currency !== quote.currency).map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <PriceSummary quote={shownQuote} />
 
             <div className="grid gap-4 lg:grid-cols-3">
-              <FairValueCard currency={quote.currency} currentPrice={quote.regularMarketPrice} scenario="bull" result={valuation.scenarios.bull} />
-              <FairValueCard currency={quote.currency} currentPrice={quote.regularMarketPrice} scenario="base" result={valuation.scenarios.base} />
-              <FairValueCard currency={quote.currency} currentPrice={quote.regularMarketPrice} scenario="bear" result={valuation.scenarios.bear} />
+              <FairValueCard currency={shownQuote.currency} currentPrice={shownQuote.regularMarketPrice} scenario="bull" result={shownValuation.scenarios.bull} />
+              <FairValueCard currency={shownQuote.currency} currentPrice={shownQuote.regularMarketPrice} scenario="base" result={shownValuation.scenarios.base} />
+              <FairValueCard currency={shownQuote.currency} currentPrice={shownQuote.regularMarketPrice} scenario="bear" result={shownValuation.scenarios.bear} />
             </div>
 
+            <WeightedFairValueCard currency={shownQuote.currency} valuation={shownValuation} />
+
+            <TornadoChart
+              ticker={ticker}
+              scenario={scenarios.base}
+              revenueBasis={revenueBasis}
+              discountConvention={discountConvention}
+              valuation={valuation}
+              currency={shownQuote.currency}
+              fxRate={displayFx?.priceRate ?? 1}
+            />
+
+            <ProjectionTable currency={shownQuote.currency} scenarios={shownValuation.scenarios} />
+
+            {/* The starting period feeds revenue and the preset margins: placeholders there skew every scenario */}
+            {valuation.dataWarnings.length > 0 && (
+              <div className="card border-warning/40 bg-warning/10 text-xs text-amber-100">
+                <p className="font-semibold">DCF inputs rest on figures that were not fully reported</p>
+                <ul className="mt-1 list-inside list-disc">
+                  {valuation.dataWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="card">
               <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-muted">Scenario fair value vs current price</p>
               <div className="h-[320px]">
@@ -370,17 +689,59 @@ export function DashboardClient() {
               </div>
               <p className="mt-2 text-xs text-muted">
                 Scenario note: each fair value includes the global margin of safety slider.
+                {` Cash flows are discounted to ${valuation.discounting.valuationDate ?? valuation.discounting.periodEnd ?? "the end of the last reported period"} (${valuation.discounting.convention === "mid-year" ? "mid-year convention" : "end of year"}`}
+                {valuation.discounting.stubFraction > 0 &&
+                  `, ${formatPercent(valuation.discounting.stubFraction)} of year 1 already elapsed since ${valuation.discounting.periodEnd}`}
+                {")."}
+                {valuation.financialCurrency !== valuation.currency &&
+                  ` Statements are reported in ${valuation.financialCurrency} and were converted to ${valuation.currency} at ${valuation.fxRate.toFixed(4)} before the DCF.`}
               </p>
             </div>
 
-            <ValuationMetricsCards quote={quote} fundamentals={fundamentals} />
+            <MonteCarloCard
+              ticker={ticker}
+              scenarios={scenarios}
+              revenueBasis={revenueBasis}
+              discountConvention={discountConvention}
+              currency={shownQuote.currency}
+              fxRate={displayFx?.priceRate ?? 1}
+            />
+
+            <SensitivityHeatmap
+              ticker={ticker}
+              scenarios={scenarios}
+              mosPercent={mosPercent}
+              revenueBasis={revenueBasis}
+              discountConvention={discountConvention}
+              currency={shownQuote.currency}
+              fxRate={displayFx?.priceRate ?? 1}
+            />
 
-            <FundamentalsCharts fundamentals={fundamentals} />
+            <PriceHistoryChart
+              ticker={ticker}
+              currency={shownQuote.currency}
+              valuation={shownValuation}
+              fxRate={displayFx?.priceRate ?? 1}
+            />
+
+            {/* Metrics are ratios: compare market cap with statements in the same currency */}
+            <ValuationMetricsCards
+              quote={convertQuote(quote, 1 / valuation.fxRate, fundamentals.financialCurrency)}
+              fundamentals={fundamentals}
+            />
+
+            <FundamentalsCharts
+              fundamentals={fundamentals}
+              currency={displayFx?.currency ?? fundamentals.financialCurrency}
+              fxRate={displayFx?.statementRate ?? 1}
+            />
 
             <AiAnalysisPanel
               ticker={ticker}
               mosPercent={mosPercent}
               scenarios={scenarios}
+              revenueBasis={revenueBasis}
+              discountConvention={discountConvention}
               companyName={quote.shortName}
             />
           </motion.div>
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import {
   Bar,
   BarChart,
@@ -7,19 +8,68 @@ import {
   Legend,
   Line,
   LineChart,
+  ReferenceLine,
   ResponsiveContainer,
   Tooltip,
   XAxis,
   YAxis
 } from "recharts";
 
-import { FundamentalsResponse } from "@/types/fundamentals";
-import { formatCompactNumber } from "@/lib/format";
+import { detectAnomalies } from "@/lib/fundamentals/anomalies";
+import { describeProvenanceGaps } from "@/lib/fundamentals/data-quality";
+import { FlowProvenance, FundamentalsPeriod, FundamentalsResponse } from "@/types/fundamentals";
+import { formatCompactNumber, formatDataAge, formatPercent } from "@/lib/format";
 
 type FundamentalsChartsProps = {
   fundamentals: FundamentalsResponse;
+  /** Display currency for amounts; defaults to the statement currency */
+  currency?: string;
+  /** Converts statement amounts into `currency`; 1 when they match */
+  fxRate?: number;
+};
+
+type ChartPoint = {
+  period: string;
+  revenue: number;
+  fcf: number;
+  netIncome: number;
+  operatingMargin: number;
+  netMargin: number;
+  gaps: string | null;       // Derived/missing fields, e.g. "EBIT missing"
 };
 
+/**
+ * Convert a point's margins from decimals (0.15) to percentages (15) for readability,
+ * and its amounts into the display currency.
+ *
+ * Periods with derived or missing figures get a "*" suffix so a placeholder 0
+ * doesn't read as a real zero-margin year; the footnote lists what's affected.
+ */
+function toChartPoint(
+  period: string,
+  point: {
+    revenue: number;
+    fcf: number;
+    netIncome: number;
+    operatingMargin: number;
+    netMargin: number;
+    provenance?: FlowProvenance;
+  },
+  fxRate: number
+): ChartPoint {
+  const gaps = describeProvenanceGaps(point.provenance);
+  return {
+    period: gaps ? `${period}*` : period,
+    revenue: point.revenue * fxRate,
+    fcf: point.fcf * fxRate,
+    // netIncome included alongside FCF to show how much of earnings converts to real cash
+    netIncome: point.netIncome * fxRate,
+    operatingMargin: Number((point.operatingMargin * 100).toFixed(2)),
+    netMargin: Number((point.netMargin * 100).toFixed(2)),
+    gaps
+  };
+}
+
 /**
  * Renders historical fundamental data charts for revenue, FCF, and margins.
  *
@@ -27,55 +77,153 @@ type FundamentalsChartsProps = {
  * - Line chart: Revenue and Free Cash Flow trends over time
  * - Bar chart: Operating and net margin percentages
  *
+ * An Annual/Quarterly toggle switches the series. The dashboard only loads
+ * annual data, so the quarterly series (plus TTM) is fetched lazily the first
+ * time the toggle is used — most users never need it.
+ *
+ * In the annual view, years flagged by detectAnomalies (revenue jumps, sign
+ * flips, margin spikes) get a dashed marker on both charts and a footnote, so
+ * a one-off writedown isn't read as a trend.
+ *
  * @param fundamentals - Historical annual financial data
+ * @param currency - Display currency for amounts (defaults to the statement currency)
+ * @param fxRate - Rate from the statement currency to `currency`
  */
-export function FundamentalsCharts({ fundamentals }: FundamentalsChartsProps) {
-  // Sort by year ascending to ensure chronological display on X-axis
-  // Convert margin decimals (0.15) to percentages (15) for readability
-  const chartData = [...fundamentals.annual]
-    .sort((a, b) => a.year - b.year)
-    .map((point) => ({
-      year: point.year,
-      revenue: point.revenue,
-      fcf: point.fcf,
-      // netIncome included alongside FCF to show how much of earnings converts to real cash
-      netIncome: point.netIncome,
-      operatingMargin: Number((point.operatingMargin * 100).toFixed(2)),
-      netMargin: Number((point.netMargin * 100).toFixed(2))
-    }));
+export function FundamentalsCharts({ fundamentals, currency = fundamentals.financialCurrency, fxRate = 1 }: FundamentalsChartsProps) {
+  const [period, setPeriod] = useState<FundamentalsPeriod>("annual");
+  const [quarterlyData, setQuarterlyData] = useState<FundamentalsResponse | null>(
+    fundamentals.quarterly ? fundamentals : null
+  );
+  const [quarterlyError, setQuarterlyError] = useState<string | null>(null);
+
+  async function selectPeriod(next: FundamentalsPeriod) {
+    setPeriod(next);
+    if (next !== "quarterly" || quarterlyData?.ticker === fundamentals.ticker) return;
+
+    setQuarterlyError(null);
+    try {
+      const res = await fetch(`/api/fundamentals/${encodeURIComponent(fundamentals.ticker)}?period=quarterly`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Unable to load quarterly data.");
+      setQuarterlyData(data);
+    } catch (error) {
+      setQuarterlyError(error instanceof Error ? error.message : "Unable to load quarterly data.");
+    }
+  }
+
+  // Sort ascending to ensure chronological display on X-axis
+  // Only use quarterly data loaded for the ticker currently on screen
+  const quarterlySource = period === "quarterly" && quarterlyData?.ticker === fundamentals.ticker ? quarterlyData : null;
+  const chartData: ChartPoint[] = quarterlySource
+    ? [...(quarterlySource.quarterly ?? [])]
+        .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd))
+        .map((point) => toChartPoint(`Q${point.quarter} ${point.year}`, point, fxRate))
+    : [...fundamentals.annual]
+        .sort((a, b) => a.year - b.year)
+        .map((point) => toChartPoint(String(point.year), point, fxRate));
+  const ttm = quarterlySource?.ttm ?? null;
+  const flaggedPoints = chartData.filter((point) => point.gaps);
+
+  // Anomalies are computed on fiscal years only; markers need the (possibly "*"-suffixed) axis label
+  const anomalies = quarterlySource ? [] : detectAnomalies(fundamentals.annual);
+  const anomalyPeriods = [...new Set(anomalies.map((anomaly) => anomaly.year))].flatMap((year) =>
+    chartData.filter((point) => point.period.replace("*", "") === String(year)).map((point) => point.period)
+  );
+  const anomalyMarkers = anomalyPeriods.map((period) => (
+    <ReferenceLine key={period} x={period} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: "!", fill: "#f59e0b", position: "top" }} />
+  ));
 
   return (
-    <div className="grid gap-4 lg:grid-cols-2">
-      <div className="card h-[320px]">
-        <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-muted">Revenue, Net Income & FCF</p>
-        <ResponsiveContainer width="100%" height="90%">
-          <LineChart data={chartData}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#23314f" />
-            <XAxis dataKey="year" stroke="#7b8ba9" />
-            <YAxis stroke="#7b8ba9" tickFormatter={(v: number) => formatCompactNumber(v)} />
-            <Tooltip formatter={(value: number) => formatCompactNumber(value)} />
-            <Legend />
-            <Line type="monotone" dataKey="revenue" stroke="#38bdf8" strokeWidth={2} dot={false} />
-            {/* netIncome alongside FCF shows how much accounting profit converts to real cash */}
-            <Line type="monotone" dataKey="netIncome" stroke="#f59e0b" strokeWidth={2} dot={false} />
-            <Line type="monotone" dataKey="fcf" stroke="#10b981" strokeWidth={2} dot={false} />
-          </LineChart>
-        </ResponsiveContainer>
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg border border-slate-700 p-0.5 text-xs font-semibold">
+          {(["annual", "quarterly"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => void selectPeriod(option)}
+              aria-pressed={period === option}
+              className={`rounded-md px-3 py-1 capitalize ${period === option ? "bg-slate-700 text-white" : "text-muted hover:text-white"}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        {period === "quarterly" && !quarterlySource && !quarterlyError && (
+          <span className="text-xs text-muted">Loading quarterly data...</span>
+        )}
+        {period === "quarterly" && quarterlyError && <span className="text-xs text-danger">{quarterlyError}</span>}
+        {ttm && (
+          <span className="text-xs text-muted">
+            TTM to {ttm.periodEnd}: revenue <span className="text-slate-200">{formatCompactNumber(ttm.revenue * fxRate)}</span>
+            {" · "}op. margin <span className="text-slate-200">{formatPercent(ttm.operatingMargin)}</span>
+            {" · "}FCF <span className="text-slate-200">{formatCompactNumber(ttm.fcf * fxRate)}</span>
+          </span>
+        )}
       </div>
-      <div className="card h-[320px]">
-        <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-muted">Margins (%)</p>
-        <ResponsiveContainer width="100%" height="90%">
-          <BarChart data={chartData}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#23314f" />
-            <XAxis dataKey="year" stroke="#7b8ba9" />
-            <YAxis stroke="#7b8ba9" tickFormatter={(v: number) => `${v}%`} />
-            <Tooltip formatter={(value: number) => `${value}%`} />
-            <Legend />
-            <Bar dataKey="operatingMargin" fill="#38bdf8" radius={4} />
-            <Bar dataKey="netMargin" fill="#10b981" radius={4} />
-          </BarChart>
-        </ResponsiveContainer>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="card h-[320px]">
+          <div className="mb-3 flex items-center justify-between">
+            <p className="text-xs font-semibold uppercase tracking-wider text-muted">Revenue, Net Income & FCF ({currency})</p>
+            {fundamentals.manualImport ? (
+              <p className="text-[10px] text-emerald-400">Source: {fundamentals.manualImport.fileName} (uploaded)</p>
+            ) : fundamentals.secFilings ? (
+              <p className="text-[10px] text-emerald-400" title={fundamentals.secFilings.entityName}>
+                Source: SEC 10-K filings (last filed {fundamentals.secFilings.lastFiled})
+              </p>
+            ) : (
+              fundamentals.fetchedAt && <p className="text-[10px] text-muted">Updated {formatDataAge(fundamentals.fetchedAt)}</p>
+            )}
+          </div>
+          <ResponsiveContainer width="100%" height="90%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#23314f" />
+              <XAxis dataKey="period" stroke="#7b8ba9" />
+              <YAxis stroke="#7b8ba9" tickFormatter={(v: number) => formatCompactNumber(v)} />
+              <Tooltip formatter={(value: number) => formatCompactNumber(value)} />
+              <Legend />
+              <Line type="monotone" dataKey="revenue" stroke="#38bdf8" strokeWidth={2} dot={false} />
+              {/* netIncome alongside FCF shows how much accounting profit converts to real cash */}
+              <Line type="monotone" dataKey="netIncome" stroke="#f59e0b" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="fcf" stroke="#10b981" strokeWidth={2} dot={false} />
+              {anomalyMarkers}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="card h-[320px]">
+          <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-muted">Margins (%)</p>
+          <ResponsiveContainer width="100%" height="90%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#23314f" />
+              <XAxis dataKey="period" stroke="#7b8ba9" />
+              <YAxis stroke="#7b8ba9" tickFormatter={(v: number) => `${v}%`} />
+              <Tooltip formatter={(value: number) => `${value}%`} />
+              <Legend />
+              <Bar dataKey="operatingMargin" fill="#38bdf8" radius={4} />
+              <Bar dataKey="netMargin" fill="#10b981" radius={4} />
+              {anomalyMarkers}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
       </div>
+
+      {anomalies.length > 0 && (
+        <ul className="text-xs text-warning">
+          {anomalies.map((anomaly) => (
+            <li key={`${anomaly.year}-${anomaly.field}`}>
+              ! {anomaly.year}: {anomaly.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {flaggedPoints.length > 0 && (
+        <p className="text-xs text-warning">
+          * Not fully reported:{" "}
+          {flaggedPoints.map((point) => `${point.period.slice(0, -1)} (${point.gaps})`).join(" · ")}. Missing figures are
+          charted as 0.
+        </p>
+      )}
     </div>
   );
 }
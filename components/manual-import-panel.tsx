@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+
+import { formatDataAge } from "@/lib/format";
+import { ManualFundamentals, StatementScale } from "@/types/fundamentals";
+
+type ManualImportPanelProps = {
+  ticker: string;
+  /** Default currency for a new upload (the ticker's trading currency) */
+  currency?: string;
+  /** Called after an upload or removal so the dashboard reloads with the new source */
+  onChange: () => void;
+};
+
+type Status = "idle" | "uploading" | "error";
+
+/**
+ * Upload annual statements (CSV/XLSX) for tickers the market data provider
+ * doesn't cover, e.g. Italian small caps without Yahoo statements.
+ *
+ * The upload is stored per user and replaces provider fundamentals for that
+ * ticker in the charts, smart scenarios and valuation until removed. Only
+ * shown to signed-in users, since uploads are tied to an account.
+ *
+ * @param ticker - Ticker the statements belong to
+ * @param currency - Pre-selected currency for the amounts
+ * @param onChange - Callback after a successful upload or removal
+ */
+export function ManualImportPanel({ ticker, currency = "USD", onChange }: ManualImportPanelProps) {
+  const { data: session } = useSession();
+  const [current, setCurrent] = useState<ManualFundamentals | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileCurrency, setFileCurrency] = useState(currency);
+  const [scale, setScale] = useState<StatementScale>("units");
+  const [status, setStatus] = useState<Status>("idle");
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFileCurrency(currency);
+  }, [currency]);
+
+  // Show which upload (if any) is active for the ticker on screen
+  useEffect(() => {
+    setCurrent(null);
+    if (!session || !ticker) return;
+
+    let cancelled = false;
+    fetch(`/api/manual-fundamentals/${encodeURIComponent(ticker)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ManualFundamentals | null) => {
+        if (!cancelled) setCurrent(data);
+      })
+      .catch(() => {/* the panel still allows a fresh upload */});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session, ticker]);
+
+  if (!session) return null;
+
+  async function handleUpload() {
+    if (!file) return;
+    setStatus("uploading");
+    setErrorMsg(null);
+
+    const form = new FormData();
+    form.append("file", file);
+    form.append("currency", fileCurrency);
+    form.append("scale", scale);
+
+    try {
+      const res = await fetch(`/api/manual-fundamentals/${encodeURIComponent(ticker)}`, { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Unable to import statements.");
+
+      setCurrent(data);
+      setFile(null);
+      setStatus("idle");
+      onChange();
+    } catch (error) {
+      setStatus("error");
+      setErrorMsg(error instanceof Error ? error.message : "Unable to import statements.");
+    }
+  }
+
+  async function handleRemove() {
+    const res = await fetch(`/api/manual-fundamentals/${encodeURIComponent(ticker)}`, { method: "DELETE" });
+    if (res.ok) {
+      setCurrent(null);
+      onChange();
+    }
+  }
+
+  return (
+    <details className="card text-xs text-slate-200" open={Boolean(current)}>
+      <summary className="cursor-pointer font-semibold uppercase tracking-wider text-muted">
+        Manual statements for {ticker}
+        {current && <span className="ml-2 normal-case tracking-normal text-emerald-400">in use</span>}
+      </summary>
+
+      <p className="mt-2 text-muted">
+        No statements from Yahoo? Upload a CSV or XLSX with a header row and one row per fiscal year. Required
+        columns: <code>year</code>, <code>revenue</code>. Optional: <code>ebit</code>, <code>net income</code>,{" "}
+        <code>fcf</code> (or <code>operating cash flow</code> + <code>capex</code>), <code>shares</code>,{" "}
+        <code>net debt</code> (or <code>total debt</code> + <code>cash</code>), <code>equity</code>,{" "}
+        <code>dividends</code>, <code>buybacks</code>.
+      </p>
+
+      {current && (
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <span>
+            Using <span className="font-semibold">{current.fileName}</span> ({current.annual.length} years,{" "}
+            {current.currency}) · uploaded {formatDataAge(current.updatedAt)}
+          </span>
+          <button
+            onClick={() => void handleRemove()}
+            className="rounded-lg border border-slate-700 px-3 py-1 font-semibold hover:bg-slate-800"
+          >
+            Remove and use Yahoo data
+          </button>
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-muted">File</span>
+          <input type="file" accept=".csv,.xlsx" onChange={(event) => setFile(event.target.files?.[0] ?? null)} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted">Currency</span>
+          <input
+            value={fileCurrency}
+            maxLength={3}
+            onChange={(event) => setFileCurrency(event.target.value.toUpperCase())}
+            className="w-20 rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted">Amounts in</span>
+          <select
+            value={scale}
+            onChange={(event) => setScale(event.target.value as StatementScale)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+          >
+            <option value="units">Units</option>
+            <option value="thousands">Thousands</option>
+            <option value="millions">Millions</option>
+          </select>
+        </label>
+        <button
+          onClick={() => void handleUpload()}
+          disabled={!file || status === "uploading"}
+          className="rounded-lg bg-accent px-3 py-1.5 font-semibold text-slate-950 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {status === "uploading" ? "Uploading..." : current ? "Replace" : "Upload"}
+        </button>
+      </div>
+
+      {status === "error" && errorMsg && <p className="mt-2 text-danger">{errorMsg}</p>}
+    </details>
+  );
+}
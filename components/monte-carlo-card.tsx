@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { formatCurrency, formatPercent } from "@/lib/format";
+import { distributionsFromScenarios } from "@/lib/valuation/monte-carlo";
+import { DiscountConvention, MonteCarloResponse, RevenueBasis, ScenariosInput } from "@/types/valuation";
+
+type MonteCarloCardProps = {
+  ticker: string;
+  scenarios: ScenariosInput;
+  revenueBasis: RevenueBasis;
+  discountConvention: DiscountConvention;
+  currency: string;
+  /** Converts results (always in the trading currency) to `currency`; 1 when they match */
+  fxRate?: number;
+};
+
+/**
+ * Monte Carlo simulation of fair value across the bull/bear range.
+ *
+ * Each scenario field follows a triangular distribution from its lowest to
+ * its highest value across bull/base/bear, peaking at the base case, with
+ * growth and margin correlated. Runs on demand (the simulation is heavier
+ * than a point valuation); the seed is shown so a result can be reproduced.
+ *
+ * @param ticker - Ticker to simulate
+ * @param scenarios - Current scenario inputs defining the distributions
+ * @param revenueBasis - Starting revenue basis, as for the valuation
+ * @param discountConvention - Cash flow timing, as for the valuation
+ * @param currency - Currency used for labels (trading or display currency)
+ * @param fxRate - Rate from the trading currency to `currency`
+ */
+export function MonteCarloCard({ ticker, scenarios, revenueBasis, discountConvention, currency, fxRate = 1 }: MonteCarloCardProps) {
+  const [correlation, setCorrelation] = useState(0.5);
+  const [seed, setSeed] = useState("");
+  const [response, setResponse] = useState<MonteCarloResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleRun() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/valuation/${encodeURIComponent(ticker)}/monte-carlo`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          revenueBasis,
+          discountConvention,
+          scenario: scenarios.base,
+          distributions: distributionsFromScenarios(scenarios),
+          correlation,
+          seed: seed.trim() === "" ? undefined : Number(seed)
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Unable to run the simulation.");
+
+      setResponse(data);
+      setSeed(String(data.result.seed));
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : "Unable to run the simulation.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Hide a result left over from another ticker
+  const current = response?.ticker === ticker.toUpperCase() ? response : null;
+  const price = current ? current.currentPrice * fxRate : 0;
+  const bins = current
+    ? current.result.histogram.map((bin) => ({
+        label: formatCurrency(((bin.from + bin.to) / 2) * fxRate, currency),
+        count: bin.count,
+        abovePrice: bin.from * fxRate >= price
+      }))
+    : [];
+
+  return (
+    <div className="card">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted">Monte Carlo fair value</p>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-200">
+          <label className="flex items-center gap-2">
+            <span className="text-muted">Growth × margin correlation</span>
+            <input
+              type="number"
+              min={-1}
+              max={1}
+              step={0.1}
+              value={correlation}
+              onChange={(event) => setCorrelation(Number(event.target.value))}
+              className="w-16 rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-muted">Seed</span>
+            <input
+              value={seed}
+              onChange={(event) => setSeed(event.target.value.replace(/\D/g, ""))}
+              placeholder="random"
+              className="w-28 rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+            />
+          </label>
+          <button
+            onClick={() => void handleRun()}
+            disabled={loading}
+            className="rounded-lg bg-accent px-3 py-1 font-semibold text-slate-950 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {loading ? "Simulating..." : "Run simulation"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-danger">{error}</p>}
+
+      {current && (
+        <>
+          <div className="grid gap-2 text-sm sm:grid-cols-4">
+            <p>
+              Median: <strong>{formatCurrency(current.result.percentiles.p50 * fxRate, currency)}</strong>
+            </p>
+            <p>
+              5th–95th: <strong>{formatCurrency(current.result.percentiles.p5 * fxRate, currency)}</strong> –{" "}
+              <strong>{formatCurrency(current.result.percentiles.p95 * fxRate, currency)}</strong>
+            </p>
+            <p>
+              Mean: <strong>{formatCurrency(current.result.mean * fxRate, currency)}</strong>
+            </p>
+            <p className={current.result.probabilityAbovePrice >= 0.5 ? "text-success" : "text-danger"}>
+              P(fair value &gt; price): <strong>{formatPercent(current.result.probabilityAbovePrice)}</strong>
+            </p>
+          </div>
+
+          <div className="mt-3 h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={bins}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#23314f" />
+                <XAxis dataKey="label" stroke="#7b8ba9" minTickGap={30} />
+                <YAxis stroke="#7b8ba9" />
+                <Tooltip />
+                <Bar dataKey="count" radius={2}>
+                  {bins.map((bin, index) => (
+                    <Cell key={index} fill={bin.abovePrice ? "#34d399" : "#64748b"} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="mt-2 text-xs text-muted">
+            {current.result.runs.toLocaleString()} runs (seed {current.result.seed})
+            {current.result.discardedRuns > 0 && `, ${current.result.discardedRuns} discarded with WACC at or below terminal growth`}.
+            Fair values before margin of safety; green bins lie above the current price of {formatCurrency(price, currency)}.
+            Each input spans its bear–bull range, peaking at the base case.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+
+import { formatCurrency, formatDataAge, formatPercent } from "@/lib/format";
+import { HistoryInterval, HistoryRange, PriceHistoryResponse, PricePoint } from "@/types/market";
+import { ValuationResponse } from "@/types/valuation";
+
+type PriceHistoryChartProps = {
+  ticker: string;
+  currency: string;
+  valuation: ValuationResponse;
+  /** Converts history (always in the trading currency) to `currency`; 1 when they match */
+  fxRate?: number;
+};
+
+// Interval per range keeps every chart at a few hundred points at most
+const RANGE_OPTIONS: Array<{ range: HistoryRange; interval: HistoryInterval; label: string }> = [
+  { range: "6mo", interval: "1d", label: "6M" },
+  { range: "1y", interval: "1d", label: "1Y" },
+  { range: "5y", interval: "1wk", label: "5Y" },
+  { range: "10y", interval: "1mo", label: "10Y" },
+  { range: "max", interval: "1mo", label: "Max" }
+];
+
+/**
+ * Summarize how far price has traded from a fair value over a series.
+ *
+ * Gaps are expressed relative to the fair value: -0.2 means price was 20%
+ * below it, 0.5 means 50% above.
+ *
+ * @param points - Closing prices
+ * @param fairValue - Per-share fair value to compare against
+ * @returns Lowest and highest gap, or null for an empty series or non-positive fair value
+ */
+export function summarizePriceGap(points: PricePoint[], fairValue: number): { minGap: number; maxGap: number } | null {
+  if (points.length === 0 || !(fairValue > 0)) return null;
+
+  const closes = points.map((point) => point.close);
+  return {
+    minGap: Math.min(...closes) / fairValue - 1,
+    maxGap: Math.max(...closes) / fairValue - 1
+  };
+}
+
+/**
+ * Renders historical closing prices with the DCF fair values overlaid.
+ *
+ * The shaded band spans the bear to bull fair value (after margin of safety)
+ * and the dashed line marks the base case, so the chart shows how often and
+ * how far the market has traded outside our intrinsic value range. Fair values
+ * are today's estimates drawn across the whole period, not historical ones.
+ *
+ * Fetches its own data so switching range doesn't reload the whole dashboard.
+ *
+ * @param ticker - Ticker to load history for
+ * @param currency - Currency used for price labels (trading or display currency)
+ * @param valuation - DCF result providing the bull/base/bear fair values, in `currency`
+ * @param fxRate - Rate from the trading currency to `currency`
+ */
+export function PriceHistoryChart({ ticker, currency, valuation, fxRate = 1 }: PriceHistoryChartProps) {
+  const [selected, setSelected] = useState(RANGE_OPTIONS[2]);
+  const [history, setHistory] = useState<PriceHistoryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Ignore responses for a ticker/range the user has already moved away from
+    let cancelled = false;
+    setError(null);
+
+    fetch(`/api/history/${encodeURIComponent(ticker)}?range=${selected.range}&interval=${selected.interval}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Unable to load price history.");
+        if (!cancelled) setHistory(data);
+      })
+      .catch((fetchError: unknown) => {
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : "Unable to load price history.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker, selected]);
+
+  const bull = valuation.scenarios.bull.fairValueAfterMos;
+  const base = valuation.scenarios.base.fairValueAfterMos;
+  const bear = valuation.scenarios.bear.fairValueAfterMos;
+  const current =
+    history?.ticker === ticker.toUpperCase() && history.range === selected.range ? history : null;
+  const points = useMemo(
+    () => (current ? current.points.map((point) => ({ ...point, close: point.close * fxRate })) : []),
+    [current, fxRate]
+  );
+  const gap = current ? summarizePriceGap(points, base) : null;
+
+  return (
+    <div className="card">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted">Price history vs fair value</p>
+        <div className="flex rounded-lg border border-slate-700 p-0.5 text-xs font-semibold">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option.range}
+              onClick={() => setSelected(option)}
+              aria-pressed={selected.range === option.range}
+              className={`rounded-md px-3 py-1 ${selected.range === option.range ? "bg-slate-700 text-white" : "text-muted hover:text-white"}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-[320px]">
+        {error && <p className="text-sm text-danger">{error}</p>}
+        {!error && !current && <p className="text-sm text-muted">Loading price history...</p>}
+        {!error && current && (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#23314f" />
+              <XAxis dataKey="date" stroke="#7b8ba9" minTickGap={40} />
+              <YAxis
+                stroke="#7b8ba9"
+                domain={["auto", "auto"]}
+                tickFormatter={(v: number) => formatCurrency(v, currency)}
+              />
+              <Tooltip formatter={(value: number) => formatCurrency(value, currency)} />
+              {/* extendDomain keeps the band visible when fair value sits far from the traded range */}
+              <ReferenceArea
+                y1={Math.min(bear, bull)}
+                y2={Math.max(bear, bull)}
+                fill="#38bdf8"
+                fillOpacity={0.1}
+                ifOverflow="extendDomain"
+              />
+              <ReferenceLine
+                y={base}
+                stroke="#38bdf8"
+                strokeDasharray="6 4"
+                ifOverflow="extendDomain"
+                label={{ value: "Base", fill: "#38bdf8", fontSize: 11, position: "insideTopRight" }}
+              />
+              <Line type="monotone" dataKey="close" stroke="#e2e8f0" strokeWidth={1.5} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="mt-2 flex flex-wrap justify-between gap-2 text-xs text-muted">
+        <p>
+          Band: bear–bull fair value after margin of safety. Line: base case.
+          {gap && (
+            <>
+              {" "}Over this period price ranged from{" "}
+              <span className="text-slate-200">{formatPercent(gap.minGap)}</span> to{" "}
+              <span className="text-slate-200">{formatPercent(gap.maxGap)}</span> vs base.
+            </>
+          )}
+        </p>
+        {current?.fetchedAt && <p>Updated {formatDataAge(current.fetchedAt)}</p>}
+      </div>
+    </div>
+  );
+}
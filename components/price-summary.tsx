@@ -1,5 +1,6 @@
 import { QuoteResponse } from "@/types/market";
-import { formatCompactNumber, formatCurrency } from "@/lib/format";
+import { formatCompactNumber, formatCurrency, formatDataAge } from "@/lib/format";
+import { getMarketStatus } from "@/lib/market-data/exchanges";
 
 type PriceSummaryProps = {
   quote: QuoteResponse;
@@ -9,11 +10,16 @@ type PriceSummaryProps = {
  * Displays current market snapshot for a given ticker.
  *
  * Shows company name, ticker symbol, exchange, current price, and market capitalization
- * with currency-aware formatting.
+ * with currency-aware formatting, plus the age of the quote so cached data is
+ * never mistaken for a live price. For exchanges in the registry, also shows
+ * whether the regular session is open (local trading hours, holidays ignored).
  *
  * @param quote - Market data including price, market cap, and exchange info
  */
 export function PriceSummary({ quote }: PriceSummaryProps) {
+  const { market } = quote;
+  const status = market ? getMarketStatus(market) : null;
+
   return (
     <div className="card">
       <p className="text-xs font-semibold uppercase tracking-wider text-muted">Market snapshot</p>
@@ -23,6 +29,15 @@ export function PriceSummary({ quote }: PriceSummaryProps) {
           <p className="text-sm text-muted">
             {quote.ticker} · {quote.exchange}
           </p>
+          {market && (
+            <p className="text-xs text-muted" title={`${market.name} (${market.mic}), ${market.timezone}`}>
+              <span className={status === "open" ? "text-emerald-400" : "text-slate-400"}>
+                {status === "open" ? "Market open" : "Market closed"}
+              </span>
+              {" · "}
+              {market.tradingHours.open}–{market.tradingHours.close} local time
+            </p>
+          )}
         </div>
         <div className="text-right">
           <p className="font-display text-3xl font-bold text-accent">
@@ -31,6 +46,10 @@ export function PriceSummary({ quote }: PriceSummaryProps) {
           <p className="text-sm text-muted">
             Market cap: {quote.marketCap ? formatCompactNumber(quote.marketCap) : "n/a"}
           </p>
+          <p className="text-xs text-muted">
+            Updated {formatDataAge(quote.fetchedAt)}
+            {quote.cacheStatus === "stale" && " · refreshing"}
+          </p>
         </div>
       </div>
     </div>
@@ -0,0 +1,91 @@
+import { formatCompactNumber, formatPercent } from "@/lib/format";
+import { ScenarioName, ScenarioResult } from "@/types/valuation";
+
+type ProjectionTableProps = {
+  currency: string;
+  scenarios: Record<ScenarioName, ScenarioResult>;
+};
+
+const scenarioNames: ScenarioName[] = ["bull", "base", "bear"];
+
+/**
+ * Expandable per-year DCF projection for each scenario.
+ *
+ * Lists revenue, EBIT, NOPAT, free cash flow, discounting and present
+ * value for every explicit year, then the terminal value and its share of
+ * enterprise value, so the fair value can be traced line by line.
+ *
+ * @param currency - Currency of the money amounts (shown in the header)
+ * @param scenarios - DCF results with their projections
+ */
+export function ProjectionTable({ currency, scenarios }: ProjectionTableProps) {
+  return (
+    <div className="space-y-2">
+      {scenarioNames.map((name) => {
+        const result = scenarios[name];
+
+        return (
+          <details key={name} className="card text-xs text-slate-200">
+            <summary className="cursor-pointer font-semibold uppercase tracking-wider text-muted">
+              {name} scenario projection
+              <span className="ml-2 normal-case tracking-normal">
+                ({result.projection.length} years · terminal value {formatPercent(result.terminalValueShare)} of EV)
+              </span>
+            </summary>
+
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-right tabular-nums">
+                <thead className="text-muted">
+                  <tr>
+                    <th className="py-1 text-left font-medium">Year</th>
+                    <th className="font-medium">Revenue ({currency})</th>
+                    <th className="font-medium">Growth</th>
+                    <th className="font-medium">EBIT</th>
+                    <th className="font-medium">Margin</th>
+                    <th className="font-medium">NOPAT</th>
+                    <th className="font-medium">FCF</th>
+                    <th className="font-medium">Discount period</th>
+                    <th className="font-medium">Discount factor</th>
+                    <th className="font-medium">Present value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.projection.map((point) => (
+                    <tr key={point.year} className="border-t border-slate-800">
+                      <td className="py-1 text-left">{point.year}</td>
+                      <td>{formatCompactNumber(point.revenue)}</td>
+                      <td>{formatPercent(point.revenueGrowth)}</td>
+                      <td>{formatCompactNumber(point.ebit)}</td>
+                      <td>{formatPercent(point.operatingMargin)}</td>
+                      <td>{formatCompactNumber(point.nopat)}</td>
+                      <td>{formatCompactNumber(point.fcf)}</td>
+                      <td>{point.discountPeriod.toFixed(2)}</td>
+                      <td>{point.discountFactor.toFixed(4)}</td>
+                      <td>{formatCompactNumber(point.presentValue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="border-t border-slate-700 font-semibold">
+                  <tr>
+                    <td className="py-1 text-left" colSpan={6}>
+                      Terminal value
+                    </td>
+                    <td>{formatCompactNumber(result.terminalValue)}</td>
+                    <td colSpan={2} />
+                    <td>{formatCompactNumber(result.discountedTerminalValue)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 text-left" colSpan={9}>
+                      Enterprise value
+                    </td>
+                    <td>{formatCompactNumber(result.enterpriseValue)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
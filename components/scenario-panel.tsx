@@ -1,7 +1,17 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-import { AnalystEstimates, ScenariosInput, ScenarioName } from "@/types/valuation";
+import { RiskFreeRateResponse } from "@/types/market";
+import {
+  AnalystEstimates,
+  DiscountConvention,
+  ImpliedValueResult,
+  RevenueBasis,
+  ScenarioProbabilities,
+  ScenariosInput,
+  ScenarioName,
+  StatusBasis
+} from "@/types/valuation";
 
 type ScenarioSource = "smart" | "generic" | "custom";
 
@@ -9,12 +19,30 @@ type ScenarioPanelProps = {
   scenarios: ScenariosInput;
   mosPercent: number;
   analystEstimates: AnalystEstimates | null;
+  /** Reverse DCF: years 1-5 growth that prices the stock, holding the base case's other inputs */
+  impliedGrowth?: ImpliedValueResult | null;
   scenarioSource: ScenarioSource;
   onMosChange: (value: number) => void;
   onScenarioChange: (scenario: ScenarioName, key: string, value: number) => void;
   onResetSmart: () => void;
   onResetGeneric: () => void;
   onRecalculate: () => void;
+  revenueBasis?: RevenueBasis;
+  onRevenueBasisChange?: (basis: RevenueBasis) => void;
+  discountConvention?: DiscountConvention;
+  onDiscountConventionChange?: (convention: DiscountConvention) => void;
+  /** Scenario probabilities (decimals); inputs hidden if the callback is omitted */
+  probabilities?: ScenarioProbabilities;
+  onProbabilityChange?: (scenario: ScenarioName, value: number) => void;
+  statusBasis?: StatusBasis;
+  onStatusBasisChange?: (basis: StatusBasis) => void;
+  /** Selects the risk-free benchmark shown next to WACC; defaults to USD */
+  currency?: string;
+  ticker?: string;
+  /** Whether smart defaults leave anomalous years out (toggle hidden if the callback is omitted) */
+  excludeAnomalies?: boolean;
+  excludedYears?: number[];
+  onExcludeAnomaliesChange?: (value: boolean) => void;
   loading?: boolean;
 };
 
@@ -51,6 +79,15 @@ function formatGrowthPercent(value: number | null): string | null {
   return value >= 0 ? `+${pct}%` : `${pct}%`;
 }
 
+/**
+ * Format the market-implied growth, or the bound it lies beyond.
+ */
+function formatImpliedGrowth(implied: ImpliedValueResult): string {
+  if (implied.value !== null) return formatGrowthPercent(implied.value) ?? "";
+  const [min, max] = [fieldBounds.revenueGrowthYears1to5.min, fieldBounds.revenueGrowthYears1to5.max];
+  return implied.outOfRange === "above" ? `above +${max}%` : `below ${min}%`;
+}
+
 /**
  * Interactive control panel for DCF scenario inputs and margin of safety.
  *
@@ -61,12 +98,24 @@ function formatGrowthPercent(value: number | null): string | null {
  *
  * @param scenarios - Current values for all three scenarios (decimals internally)
  * @param mosPercent - Margin of safety percentage (0-80%)
+ * @param impliedGrowth - Market-implied years 1-5 growth, shown next to the analyst estimates
  * @param analystEstimates - Analyst consensus data shown as reference (nullable)
  * @param onMosChange - Callback when margin of safety slider changes
  * @param onScenarioChange - Callback when any scenario input changes (receives decimal)
  * @param onResetSmart - Callback to reset scenarios to company-specific smart defaults
  * @param onResetGeneric - Callback to reset scenarios to generic conservative defaults
  * @param onRecalculate - Callback to trigger new valuation API call
+ * @param revenueBasis - DCF starting revenue: last fiscal year or trailing twelve months
+ * @param onRevenueBasisChange - Callback when the starting revenue basis changes (selector hidden if omitted)
+ * @param discountConvention - Cash flow timing: end of year or mid-year
+ * @param onDiscountConventionChange - Callback when the convention changes (selector hidden if omitted)
+ * @param probabilities - Probability of each scenario, for the weighted fair value
+ * @param onProbabilityChange - Callback when a probability changes (receives decimal; inputs hidden if omitted)
+ * @param statusBasis - Whether the status is classified on the base case or the weighted fair value
+ * @param onStatusBasisChange - Callback when the status basis changes (selector hidden if omitted)
+ * @param excludeAnomalies - Whether smart defaults skip years flagged as anomalous
+ * @param excludedYears - Years the current smart defaults skipped
+ * @param onExcludeAnomaliesChange - Callback when the exclusion toggle changes
  * @param loading - Disables recalculate button during API request
  */
 const sourceBadge: Record<ScenarioSource, { label: string; color: string }> = {
@@ -79,27 +128,55 @@ export function ScenarioPanel({
   scenarios,
   mosPercent,
   analystEstimates,
+  impliedGrowth = null,
   scenarioSource,
   onMosChange,
   onScenarioChange,
   onResetSmart,
   onResetGeneric,
   onRecalculate,
+  revenueBasis = "annual",
+  onRevenueBasisChange,
+  discountConvention = "end-of-year",
+  onDiscountConventionChange,
+  probabilities,
+  onProbabilityChange,
+  statusBasis = "base",
+  onStatusBasisChange,
+  currency = "USD",
+  ticker,
+  excludeAnomalies = false,
+  excludedYears = [],
+  onExcludeAnomaliesChange,
   loading = false
 }: ScenarioPanelProps) {
-  // Risk-free rate (US 10Y Treasury yield) fetched once on mount.
+  // Risk-free rate for the ticker's currency (US 10Y, Bund, BTP, Gilt, ...),
+  // refetched when the currency or ticker changes.
   // Informational only — does not affect DCF calculations. Helps users
   // set a sensible WACC (should exceed Rf by the equity risk premium).
-  const [riskFreeRate, setRiskFreeRate] = useState<number | null>(null);
+  const [riskFreeRate, setRiskFreeRate] = useState<RiskFreeRateResponse | null>(null);
 
   useEffect(() => {
-    fetch("/api/macro/risk-free-rate")
+    const params = new URLSearchParams({ currency });
+    if (ticker) params.set("ticker", ticker);
+
+    let cancelled = false;
+    fetch(`/api/macro/risk-free-rate?${params.toString()}`)
       .then((res) => res.ok ? res.json() : null)
-      .then((data) => {
-        if (data?.rate != null) setRiskFreeRate(data.rate);
+      .then((data: RiskFreeRateResponse | null) => {
+        if (!cancelled) setRiskFreeRate(data?.rate != null ? data : null);
       })
       .catch(() => {/* non-critical, silently ignore */});
-  }, []);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currency, ticker]);
+
+  // Rounded so 33.33 + 33.33 + 33.34 reads as 100
+  const probabilitySum = probabilities
+    ? parseFloat(((probabilities.bull + probabilities.base + probabilities.bear) * 100).toFixed(1))
+    : 100;
 
   return (
     <div className="card">
@@ -133,10 +210,10 @@ export function ScenarioPanel({
         </div>
       </div>
 
-      {/* Analyst estimates reference banner */}
-      {analystEstimates && (
+      {/* Analyst estimates reference banner, with the growth the current price implies */}
+      {(analystEstimates || impliedGrowth) && (
         <div className="mt-3 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-muted">
-          {analystEstimates.numberOfAnalysts ? (
+          {analystEstimates && (analystEstimates.numberOfAnalysts ? (
             <span>
               Analyst estimates ({analystEstimates.numberOfAnalysts} analysts):{" "}
               {formatGrowthPercent(analystEstimates.revenueGrowth5Year) && (
@@ -151,6 +228,12 @@ export function ScenarioPanel({
             </span>
           ) : (
             <span>No analyst coverage available — using historical data for smart defaults</span>
+          ))}
+          {impliedGrowth && (
+            <span className="block">
+              Market-implied growth Y1-5: <span className="text-slate-200">{formatImpliedGrowth(impliedGrowth)}</span>{" "}
+              (other base case inputs unchanged)
+            </span>
           )}
         </div>
       )}
@@ -170,11 +253,96 @@ export function ScenarioPanel({
         />
       </div>
 
+      {onRevenueBasisChange && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-slate-200">
+          <label htmlFor="revenue-basis" className="font-semibold uppercase tracking-wider text-muted">
+            Starting revenue
+          </label>
+          <select
+            id="revenue-basis"
+            value={revenueBasis}
+            onChange={(event) => onRevenueBasisChange(event.target.value as RevenueBasis)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+          >
+            <option value="annual">Last fiscal year</option>
+            <option value="ttm">Trailing twelve months (TTM)</option>
+          </select>
+        </div>
+      )}
+
+      {onDiscountConventionChange && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-slate-200">
+          <label htmlFor="discount-convention" className="font-semibold uppercase tracking-wider text-muted">
+            Cash flow timing
+          </label>
+          <select
+            id="discount-convention"
+            value={discountConvention}
+            onChange={(event) => onDiscountConventionChange(event.target.value as DiscountConvention)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+          >
+            <option value="end-of-year">End of year</option>
+            <option value="mid-year">Mid-year convention</option>
+          </select>
+        </div>
+      )}
+
+      {onStatusBasisChange && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-slate-200">
+          <label htmlFor="status-basis" className="font-semibold uppercase tracking-wider text-muted">
+            Status based on
+          </label>
+          <select
+            id="status-basis"
+            value={statusBasis}
+            onChange={(event) => onStatusBasisChange(event.target.value as StatusBasis)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+          >
+            <option value="base">Base scenario</option>
+            <option value="weighted">Probability-weighted fair value</option>
+          </select>
+        </div>
+      )}
+
+      {onExcludeAnomaliesChange && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-200">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={excludeAnomalies}
+              onChange={(event) => onExcludeAnomaliesChange(event.target.checked)}
+            />
+            <span className="font-semibold uppercase tracking-wider text-muted">Exclude anomalous years from smart defaults</span>
+          </label>
+          {excludeAnomalies && excludedYears.length > 0 && (
+            <span className="text-muted">Skipped: {excludedYears.join(", ")}</span>
+          )}
+        </div>
+      )}
+
+      {probabilities && onProbabilityChange && probabilitySum !== 100 && (
+        <p className="mt-3 text-xs text-danger">Scenario probabilities add up to {probabilitySum}%; they must total 100%.</p>
+      )}
+
       <div className="mt-4 grid gap-4 lg:grid-cols-3">
         {(Object.keys(scenarios) as ScenarioName[]).map((scenarioName) => (
           <div key={scenarioName} className="rounded-xl border border-slate-800 bg-slate-950/40 p-3">
             <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted">{scenarioName}</p>
             <div className="space-y-2">
+              {probabilities && onProbabilityChange && (
+                <label className="block text-xs text-slate-200">
+                  Probability (%)
+                  <input
+                    type="number"
+                    step={5}
+                    min={0}
+                    max={100}
+                    value={parseFloat((probabilities[scenarioName] * 100).toFixed(2))}
+                    onChange={(event) => onProbabilityChange(scenarioName, Number(event.target.value) / 100)}
+                    className="mt-1 w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm"
+                  />
+                </label>
+              )}
               {Object.entries(scenarios[scenarioName]).map(([key, value]) => {
                 const bounds = fieldBounds[key] ?? { min: -100, max: 100, step: 0.5 };
 
@@ -182,11 +350,22 @@ export function ScenarioPanel({
                   <label key={key} className="block text-xs text-slate-200">
                     <span className="flex items-center gap-1.5">
                       {labels[key]}
-                      {/* Show current US 10Y Treasury yield next to WACC as a reference.
+                      {/* Show the local 10Y government yield next to WACC as a reference.
                           WACC should exceed Rf by the equity risk premium (~4-6%). */}
                       {key === "wacc" && riskFreeRate !== null && (
-                        <span className="rounded-full border border-sky-800 bg-sky-950 px-1.5 py-0.5 text-[10px] font-semibold text-sky-400">
-                          US 10Y: {(riskFreeRate * 100).toFixed(2)}%
+                        <span
+                          title={
+                            riskFreeRate.source === "static"
+                              ? "Static reference yield from a table (no live quote for this benchmark)"
+                              : riskFreeRate.source === "fallback"
+                                ? "Reference yield (live quote unavailable)"
+                                : undefined
+                          }
+                          className="rounded-full border border-sky-800 bg-sky-950 px-1.5 py-0.5 text-[10px] font-semibold text-sky-400"
+                        >
+                          {riskFreeRate.label}: {(riskFreeRate.rate * 100).toFixed(2)}%
+                          {riskFreeRate.source === "fallback" && "*"}
+                          {riskFreeRate.source === "static" && " (static)"}
                         </span>
                       )}
                     </span>
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+
+import { formatCurrency, formatPercent } from "@/lib/format";
+import {
+  DiscountConvention,
+  RevenueBasis,
+  ScenarioName,
+  ScenariosInput,
+  SensitivityParameter,
+  SensitivityResponse
+} from "@/types/valuation";
+
+type SensitivityHeatmapProps = {
+  ticker: string;
+  scenarios: ScenariosInput;
+  mosPercent: number;
+  revenueBasis: RevenueBasis;
+  discountConvention: DiscountConvention;
+  currency: string;
+  /** Converts results (always in the trading currency) to `currency`; 1 when they match */
+  fxRate?: number;
+};
+
+const PAIRS: Array<{ label: string; row: SensitivityParameter; column: SensitivityParameter }> = [
+  { label: "WACC × terminal growth", row: "wacc", column: "terminalGrowth" },
+  { label: "Growth Y1-5 × margin", row: "revenueGrowthYears1to5", column: "operatingMarginTarget" }
+];
+
+const PARAMETER_LABELS: Record<SensitivityParameter, string> = {
+  revenueGrowthYears1to5: "Growth Y1-5",
+  revenueGrowthYears6to10: "Growth Y6-10",
+  operatingMarginTarget: "Operating margin",
+  taxRate: "Tax rate",
+  reinvestmentRate: "Reinvestment",
+  wacc: "WACC",
+  terminalGrowth: "Terminal growth"
+};
+
+const scenarioNames: ScenarioName[] = ["bull", "base", "bear"];
+
+/**
+ * Background for a cell: green above the price, red below, stronger the
+ * further away (saturating at ±50% upside).
+ */
+function cellColor(upsidePercent: number): string {
+  const strength = Math.min(Math.abs(upsidePercent) / 50, 1);
+  const alpha = (0.12 + strength * 0.5).toFixed(2);
+  return upsidePercent >= 0 ? `rgba(52, 211, 153, ${alpha})` : `rgba(248, 113, 113, ${alpha})`;
+}
+
+/**
+ * Two-way sensitivity table rendered as a heatmap.
+ *
+ * Revalues one scenario over a grid of two of its inputs and colours each
+ * fair value (after margin of safety) by its upside vs the current price.
+ * Cells where the fair value crosses the price are outlined, tracing the
+ * price contour; the scenario's own cell is bold. Runs on demand, like the
+ * Monte Carlo card.
+ *
+ * @param ticker - Ticker to value
+ * @param scenarios - Current scenario inputs; one of them is varied
+ * @param mosPercent - Margin of safety, as for the valuation
+ * @param revenueBasis - Starting revenue basis, as for the valuation
+ * @param discountConvention - Cash flow timing, as for the valuation
+ * @param currency - Currency used for labels (trading or display currency)
+ * @param fxRate - Rate from the trading currency to `currency`
+ */
+export function SensitivityHeatmap({
+  ticker,
+  scenarios,
+  mosPercent,
+  revenueBasis,
+  discountConvention,
+  currency,
+  fxRate = 1
+}: SensitivityHeatmapProps) {
+  const [pairIndex, setPairIndex] = useState(0);
+  const [scenarioName, setScenarioName] = useState<ScenarioName>("base");
+  const [response, setResponse] = useState<SensitivityResponse | null>(null);
+  const [builtFor, setBuiltFor] = useState<ScenarioName>("base");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleRun() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const pair = PAIRS[pairIndex];
+      const res = await fetch(`/api/valuation/${encodeURIComponent(ticker)}/sensitivity`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mosPercent,
+          revenueBasis,
+          discountConvention,
+          scenario: scenarios[scenarioName],
+          rowParameter: pair.row,
+          columnParameter: pair.column
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Unable to build the sensitivity table.");
+
+      setResponse(data);
+      setBuiltFor(scenarioName);
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : "Unable to build the sensitivity table.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Hide a table left over from another ticker
+  const current = response?.ticker === ticker.toUpperCase() ? response : null;
+  const grid = current?.grid;
+
+  return (
+    <div className="card">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted">Sensitivity table</p>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-200">
+          <select
+            value={pairIndex}
+            onChange={(event) => setPairIndex(Number(event.target.value))}
+            aria-label="Parameters to vary"
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+          >
+            {PAIRS.map((pair, index) => (
+              <option key={pair.label} value={index}>
+                {pair.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={scenarioName}
+            onChange={(event) => setScenarioName(event.target.value as ScenarioName)}
+            aria-label="Scenario"
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 capitalize"
+          >
+            {scenarioNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void handleRun()}
+            disabled={loading}
+            className="rounded-lg bg-accent px-3 py-1 font-semibold text-slate-950 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {loading ? "Building..." : "Build table"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-danger">{error}</p>}
+
+      {current && grid && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-center text-xs tabular-nums text-slate-200">
+              <thead className="text-muted">
+                <tr>
+                  <th className="py-1 text-left font-medium">
+                    {PARAMETER_LABELS[grid.rowParameter]} ↓ / {PARAMETER_LABELS[grid.columnParameter]} →
+                  </th>
+                  {grid.columnValues.map((value) => (
+                    <th key={value} className={`py-1 font-medium ${value === grid.baseColumnValue ? "text-white" : ""}`}>
+                      {formatPercent(value)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.rowValues.map((rowValue, rowIndex) => (
+                  <tr key={rowValue}>
+                    <th className={`py-1 text-left font-medium ${rowValue === grid.baseRowValue ? "text-white" : "text-muted"}`}>
+                      {formatPercent(rowValue)}
+                    </th>
+                    {grid.cells[rowIndex].map((cell, columnIndex) => {
+                      const isBase = rowValue === grid.baseRowValue && grid.columnValues[columnIndex] === grid.baseColumnValue;
+                      if (!cell) {
+                        return (
+                          <td key={columnIndex} className="py-1 text-muted">
+                            –
+                          </td>
+                        );
+                      }
+
+                      return (
+                        <td
+                          key={columnIndex}
+                          title={`${formatPercent(cell.upsideVsPricePercent / 100)} vs price`}
+                          style={{ backgroundColor: cellColor(cell.upsideVsPricePercent) }}
+                          className={`px-2 py-1 ${cell.onPriceContour ? "ring-1 ring-inset ring-amber-300" : ""} ${isBase ? "font-bold text-white" : ""}`}
+                        >
+                          {formatCurrency(cell.fairValueAfterMos * fxRate, currency)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="mt-2 text-xs text-muted">
+            Fair value after {current.mosPercent}% margin of safety vs the current price of{" "}
+            {formatCurrency(current.currentPrice * fxRate, currency)}: green above, red below. Outlined cells sit
+            next to the price crossing; the bold cell is the {builtFor} scenario as entered. Dashes mark WACC at or
+            below terminal growth.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
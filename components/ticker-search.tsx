@@ -1,13 +1,26 @@
 "use client";
 
+import React, { useEffect, useState } from "react";
+
+import { SymbolSearchResult } from "@/types/market";
+
 type TickerSearchProps = {
   initialTicker: string;
   onSearch: (ticker: string) => void;
   loading: boolean;
 };
 
+// Wait for a pause in typing before hitting /api/search
+const SEARCH_DEBOUNCE_MS = 250;
+
 /**
- * Ticker input form with submit button.
+ * Ticker input form with symbol autocomplete and submit button.
+ *
+ * Typing a partial ticker or company name shows up to 8 suggestions from
+ * /api/search with exchange and currency, so users don't need to know
+ * Yahoo's suffix conventions (".MI", ".AS"). Suggestions are navigable with
+ * ArrowUp/ArrowDown, picked with Enter or a click, and dismissed with Escape.
+ * Submitting without picking a suggestion analyzes the raw input as before.
  *
  * Normalizes ticker input by trimming whitespace and converting to uppercase
  * to ensure consistent API requests regardless of user input formatting.
@@ -17,28 +30,138 @@ type TickerSearchProps = {
  * @param loading - Disables submit button and shows loading state
  */
 export function TickerSearch({ initialTicker, onSearch, loading }: TickerSearchProps) {
+  const [value, setValue] = useState(initialTicker);
+  // Text to search for; only set by typing so picking a suggestion doesn't search again
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<SymbolSearchResult[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // The dashboard restores the last ticker from localStorage after mount
+  useEffect(() => {
+    setValue(initialTicker);
+  }, [initialTicker]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setSuggestions([]);
+      return;
+    }
+
+    // Ignore responses for a query the user has already typed past
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`);
+        if (!res.ok) return;
+
+        const data: { results: SymbolSearchResult[] } = await res.json();
+        if (cancelled) return;
+        setSuggestions(data.results);
+        setActiveIndex(-1);
+        setOpen(true);
+      } catch {
+        // Autocomplete is a convenience: on failure the plain input still works
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  function submit(ticker: string) {
+    // Normalize ticker to uppercase for consistent API requests (Yahoo Finance is case-insensitive but uppercase is convention)
+    const normalized = ticker.trim().toUpperCase();
+    setOpen(false);
+    setQuery("");
+
+    if (normalized) {
+      setValue(normalized);
+      onSearch(normalized);
+    }
+  }
+
+  const showSuggestions = open && suggestions.length > 0;
+
   return (
     <form
       className="card flex flex-col gap-3 sm:flex-row sm:items-end"
       onSubmit={(event) => {
         event.preventDefault();
-        const formData = new FormData(event.currentTarget);
-        // Normalize ticker to uppercase for consistent API requests (Yahoo Finance is case-insensitive but uppercase is convention)
-        const ticker = String(formData.get("ticker") ?? "").trim().toUpperCase();
-
-        if (ticker) {
-          onSearch(ticker);
-        }
+        submit(value);
       }}
     >
-      <label className="flex-1">
+      <label className="relative flex-1">
         <span className="mb-2 block text-xs font-semibold uppercase tracking-wider text-muted">Ticker</span>
         <input
           name="ticker"
-          defaultValue={initialTicker}
-          placeholder="AAPL or ASML.AS"
+          value={value}
+          autoComplete="off"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls="ticker-suggestions"
+          aria-activedescendant={showSuggestions && activeIndex >= 0 ? `ticker-suggestion-${activeIndex}` : undefined}
+          placeholder="AAPL, ASML.AS or a company name"
           className="w-full rounded-xl border border-slate-700 bg-slate-900/70 px-3 py-2 text-sm outline-none ring-accent/40 transition focus:ring"
+          onChange={(event) => {
+            setValue(event.target.value);
+            setQuery(event.target.value);
+          }}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(event) => {
+            if (!showSuggestions) return;
+
+            if (event.key === "ArrowDown") {
+              event.preventDefault();
+              setActiveIndex((index) => (index + 1) % suggestions.length);
+            } else if (event.key === "ArrowUp") {
+              event.preventDefault();
+              setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+            } else if (event.key === "Enter" && activeIndex >= 0) {
+              // Pick the highlighted suggestion instead of submitting the raw text
+              event.preventDefault();
+              submit(suggestions[activeIndex].symbol);
+            } else if (event.key === "Escape") {
+              setOpen(false);
+            }
+          }}
         />
+        {showSuggestions && (
+          <ul
+            id="ticker-suggestions"
+            role="listbox"
+            className="absolute z-20 mt-1 w-full overflow-hidden rounded-xl border border-slate-700 bg-[var(--card)] shadow-2xl"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.symbol}
+                id={`ticker-suggestion-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  submit(suggestion.symbol);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex cursor-pointer items-center justify-between gap-3 px-3 py-2 text-sm ${index === activeIndex ? "bg-slate-700/70" : ""}`}
+              >
+                <span className="min-w-0">
+                  <span className="font-semibold">{suggestion.symbol}</span>
+                  <span className="ml-2 truncate text-muted">{suggestion.name}</span>
+                </span>
+                <span className="shrink-0 text-xs text-muted">
+                  {suggestion.exchange}
+                  {suggestion.currency && ` · ${suggestion.currency}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
       </label>
       <button
         type="submit"
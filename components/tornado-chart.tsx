@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { formatCurrency, formatPercent } from "@/lib/format";
+import { DEFAULT_TORNADO_DELTAS } from "@/lib/valuation/tornado";
+import {
+  DiscountConvention,
+  RevenueBasis,
+  ScenarioInput,
+  TornadoResponse,
+  ValuationResponse
+} from "@/types/valuation";
+
+type TornadoChartProps = {
+  ticker: string;
+  scenario: ScenarioInput;
+  revenueBasis: RevenueBasis;
+  discountConvention: DiscountConvention;
+  /** Latest valuation: the chart refreshes whenever it changes */
+  valuation: ValuationResponse;
+  currency: string;
+  /** Converts results (always in the trading currency) to `currency`; 1 when they match */
+  fxRate?: number;
+};
+
+const PARAMETER_LABELS: Record<keyof ScenarioInput, string> = {
+  revenueGrowthYears1to5: "Growth Y1-5",
+  revenueGrowthYears6to10: "Growth Y6-10",
+  operatingMarginTarget: "Operating margin",
+  taxRate: "Tax rate",
+  reinvestmentRate: "Reinvestment",
+  wacc: "WACC",
+  terminalGrowth: "Terminal growth"
+};
+
+// Multipliers on the default deltas (e.g. WACC ±1pp at 1×)
+const DELTA_SCALES = [0.5, 1, 2];
+
+/**
+ * Tornado chart of each base-case assumption's impact on fair value.
+ *
+ * Every field moves down and up by its delta with the others held at base;
+ * bars show the fair value change from the base case, widest first, so the
+ * assumption that matters most for this company sits on top. Refreshes with
+ * each valuation rather than on every edit to the inputs.
+ *
+ * @param ticker - Ticker to value
+ * @param scenario - Base scenario to perturb
+ * @param revenueBasis - Starting revenue basis, as for the valuation
+ * @param discountConvention - Cash flow timing, as for the valuation
+ * @param valuation - Latest valuation, used as the refresh trigger
+ * @param currency - Currency used for labels (trading or display currency)
+ * @param fxRate - Rate from the trading currency to `currency`
+ */
+export function TornadoChart({
+  ticker,
+  scenario,
+  revenueBasis,
+  discountConvention,
+  valuation,
+  currency,
+  fxRate = 1
+}: TornadoChartProps) {
+  const [scale, setScale] = useState(1);
+  const [response, setResponse] = useState<TornadoResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The inputs are read as of the latest valuation, not on every edit
+  const inputsRef = useRef({ scenario, revenueBasis, discountConvention });
+  inputsRef.current = { scenario, revenueBasis, discountConvention };
+
+  useEffect(() => {
+    // Ignore responses for a valuation the user has already moved away from
+    let cancelled = false;
+    setError(null);
+
+    const deltas = Object.fromEntries(
+      Object.entries(DEFAULT_TORNADO_DELTAS).map(([field, delta]) => [field, delta * scale])
+    );
+
+    fetch(`/api/valuation/${encodeURIComponent(ticker)}/tornado`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...inputsRef.current, deltas })
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Unable to run the tornado analysis.");
+        if (!cancelled) setResponse(data);
+      })
+      .catch((fetchError: unknown) => {
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : "Unable to run the tornado analysis.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker, valuation, scale]);
+
+  // Hide a result left over from another ticker
+  const current = response?.ticker === ticker.toUpperCase() ? response : null;
+  const base = current?.result.baseFairValue ?? 0;
+  const bars = current
+    ? current.result.bars.map((bar) => ({
+        label: PARAMETER_LABELS[bar.parameter],
+        range: `${formatPercent(bar.lowValue)} → ${formatPercent(bar.highValue)}`,
+        lower: bar.lowFairValue === null ? 0 : (bar.lowFairValue - base) * fxRate,
+        higher: bar.highFairValue === null ? 0 : (bar.highFairValue - base) * fxRate
+      }))
+    : [];
+
+  return (
+    <div className="card">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted">What moves the base case</p>
+        <label className="flex items-center gap-2 text-xs text-slate-200">
+          <span className="text-muted">Delta</span>
+          <select
+            value={scale}
+            onChange={(event) => setScale(Number(event.target.value))}
+            className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1"
+          >
+            {DELTA_SCALES.map((option) => (
+              <option key={option} value={option}>
+                {option}× (WACC ±{formatPercent(DEFAULT_TORNADO_DELTAS.wacc * option)})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="h-[300px]">
+        {error && <p className="text-sm text-danger">{error}</p>}
+        {!error && !current && <p className="text-sm text-muted">Loading tornado analysis...</p>}
+        {!error && current && (
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={bars} layout="vertical" stackOffset="sign">
+              <CartesianGrid strokeDasharray="3 3" stroke="#23314f" />
+              <XAxis
+                type="number"
+                stroke="#7b8ba9"
+                tickFormatter={(value: number) => formatCurrency(base * fxRate + value, currency)}
+              />
+              <YAxis type="category" dataKey="label" stroke="#7b8ba9" width={120} />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(base * fxRate + value, currency)}
+                labelFormatter={(label: string) => {
+                  const bar = bars.find((entry) => entry.label === label);
+                  return bar ? `${label} (${bar.range})` : label;
+                }}
+              />
+              <Legend />
+              <ReferenceLine x={0} stroke="#e2e8f0" />
+              <Bar dataKey="lower" name="Input lowered" stackId="swing" fill="#38bdf8" />
+              <Bar dataKey="higher" name="Input raised" stackId="swing" fill="#f59e0b" />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {current && (
+        <p className="mt-2 text-xs text-muted">
+          Fair value per share before margin of safety; base case {formatCurrency(base * fxRate, currency)}. Each
+          input moves by its delta with the others held at base.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -104,11 +104,12 @@ function InfoModal({
 }
 
 /**
- * Grid of 4 payback/yield cards placed above the historical charts.
+ * Grid of payback/yield and shareholder return cards placed above the historical charts.
  *
- * Each card expresses how many years of earnings or FCF it would take to
+ * The first four cards express how many years of earnings or FCF it would take to
  * "buy back" the current market cap — a more intuitive framing of P/E and P/FCF
  * for non-finance readers. FCF Yield and Earnings Yield are the inverse view.
+ * The remaining five cover dividends and buybacks (yields and payout ratios).
  *
  * The "?" button on each card opens an educational modal explaining
  * the metric and how to interpret its value.
@@ -119,38 +120,43 @@ export function ValuationMetricsCards({ quote, fundamentals }: Props) {
   const [openInfo, setOpenInfo] = useState<string | null>(null);
   const openMetric = metrics.find((m) => m.label === openInfo) ?? null;
 
+  // Payback/yield cards first, then the five shareholder return cards
+  const groups = [metrics.slice(0, 4), metrics.slice(4)];
+
   return (
     <>
-      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
-        {metrics.map((metric) => (
-          <div key={metric.label} className="card">
-            {/* Header row: label + info button */}
-            <div className="flex items-center justify-between">
-              <p className="text-xs font-semibold uppercase tracking-wider text-muted">
-                {metric.label}
-              </p>
-              <button
-                onClick={() => setOpenInfo(metric.label)}
-                aria-label={`Informazioni su ${metric.label}`}
-                className="flex h-5 w-5 items-center justify-center rounded-full text-xs font-bold text-muted hover:text-white hover:bg-white/10 transition-colors"
-              >
-                ?
-              </button>
-            </div>
+      {groups.map((group, index) => (
+        <div key={index} className={`grid gap-4 grid-cols-2 ${index === 0 ? "lg:grid-cols-4" : "lg:grid-cols-5"}`}>
+          {group.map((metric) => (
+            <div key={metric.label} className="card">
+              {/* Header row: label + info button */}
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold uppercase tracking-wider text-muted">
+                  {metric.label}
+                </p>
+                <button
+                  onClick={() => setOpenInfo(metric.label)}
+                  aria-label={`Informazioni su ${metric.label}`}
+                  className="flex h-5 w-5 items-center justify-center rounded-full text-xs font-bold text-muted hover:text-white hover:bg-white/10 transition-colors"
+                >
+                  ?
+                </button>
+              </div>
 
-            {/* Main value + trend badge */}
-            <div className="mt-3 flex items-end justify-between gap-2">
-              <p className="font-display text-2xl font-bold">{metric.value}</p>
-              {metric.trend !== null && <TrendBadge direction={metric.trend} />}
-            </div>
+              {/* Main value + trend badge */}
+              <div className="mt-3 flex items-end justify-between gap-2">
+                <p className="font-display text-2xl font-bold">{metric.value}</p>
+                {metric.trend !== null && <TrendBadge direction={metric.trend} />}
+              </div>
 
-            {/* N/A explanation (e.g. "Richiede FCF positivo") */}
-            {metric.tooltip && (
-              <p className="mt-1 text-xs text-muted">{metric.tooltip}</p>
-            )}
-          </div>
-        ))}
-      </div>
+              {/* N/A explanation (e.g. "Richiede FCF positivo") */}
+              {metric.tooltip && (
+                <p className="mt-1 text-xs text-muted">{metric.tooltip}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
 
       {/* Portal modal — rendered outside the card DOM tree to avoid clipping */}
       {openMetric && (
@@ -0,0 +1,49 @@
+import { formatCurrency, formatPercent } from "@/lib/format";
+import { ValuationResponse } from "@/types/valuation";
+
+type WeightedFairValueCardProps = {
+  currency: string;
+  valuation: ValuationResponse;
+};
+
+const statusColor: Record<ValuationResponse["summary"]["status"], string> = {
+  undervalued: "text-success",
+  fair: "text-slate-200",
+  overvalued: "text-danger"
+};
+
+/**
+ * Displays the probability-weighted fair value across bull, base and bear,
+ * with the summary status and which upside it was classified on.
+ *
+ * @param currency - Currency code for formatting (e.g., "USD", "EUR")
+ * @param valuation - Valuation with the weighted fair value, in `currency`
+ */
+export function WeightedFairValueCard({ currency, valuation }: WeightedFairValueCardProps) {
+  const { weighted, summary } = valuation;
+  const upsideColor = weighted.expectedUpsidePercent >= 0 ? "text-success" : "text-danger";
+
+  return (
+    <div className="card border border-slate-700">
+      <p className="text-xs font-semibold uppercase tracking-wider text-muted">
+        Probability-weighted ({formatPercent(weighted.probabilities.bull, 0)} bull /{" "}
+        {formatPercent(weighted.probabilities.base, 0)} base / {formatPercent(weighted.probabilities.bear, 0)} bear)
+      </p>
+      <div className="mt-3 grid gap-2 text-sm sm:grid-cols-4">
+        <p>
+          Fair value: <strong>{formatCurrency(weighted.fairValuePerShare, currency)}</strong>
+        </p>
+        <p>
+          Fair value (MoS): <strong>{formatCurrency(weighted.fairValueAfterMos, currency)}</strong>
+        </p>
+        <p className={upsideColor}>
+          Expected upside: <strong>{weighted.expectedUpsidePercent.toFixed(2)}%</strong>
+        </p>
+        <p>
+          Status: <strong className={`capitalize ${statusColor[summary.status]}`}>{summary.status}</strong>{" "}
+          <span className="text-xs text-muted">({summary.statusBasis === "weighted" ? "weighted" : "base case"})</span>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Currency helpers shared by the server (FX service) and the dashboard.
+ *
+ * Kept free of server-only imports so client components can convert
+ * amounts for the display currency selector.
+ */
+import { QuoteResponse } from "@/types/market";
+import { ScenarioResult, ValuationResponse } from "@/types/valuation";
+
+// Yahoo quotes some listings in minor units: London in pence ("GBp"),
+// Johannesburg in cents ("ZAc"), Tel Aviv in agorot ("ILA").
+const MINOR_UNITS: Record<string, { currency: string; perMajor: number }> = {
+  GBp: { currency: "GBP", perMajor: 100 },
+  GBX: { currency: "GBP", perMajor: 100 },
+  ZAc: { currency: "ZAR", perMajor: 100 },
+  ILA: { currency: "ILS", perMajor: 100 }
+};
+
+/**
+ * Resolve a currency code to its major currency and the minor units per major unit.
+ *
+ * @param code - Currency code as reported by Yahoo (e.g., "USD", "GBp")
+ * @returns Major ISO code and units per major unit (1 for major currencies)
+ */
+export function toMajorCurrency(code: string): { currency: string; perMajor: number } {
+  return MINOR_UNITS[code] ?? { currency: code.toUpperCase(), perMajor: 1 };
+}
+
+/**
+ * Convert a quote's price and market cap into another currency.
+ *
+ * @param quote - Quote in its trading currency
+ * @param rate - Units of `currency` per unit of the trading currency
+ * @param currency - Target currency code
+ */
+export function convertQuote(quote: QuoteResponse, rate: number, currency: string): QuoteResponse {
+  return {
+    ...quote,
+    currency,
+    regularMarketPrice: quote.regularMarketPrice * rate,
+    marketCap: quote.marketCap === null ? null : quote.marketCap * rate
+  };
+}
+
+function convertScenario(result: ScenarioResult, rate: number): ScenarioResult {
+  return {
+    ...result,
+    enterpriseValue: result.enterpriseValue * rate,
+    equityValue: result.equityValue * rate,
+    fairValuePerShare: result.fairValuePerShare * rate,
+    fairValueAfterMos: result.fairValueAfterMos * rate,
+    projection: result.projection.map((point) => ({
+      ...point,
+      revenue: point.revenue * rate,
+      ebit: point.ebit * rate,
+      nopat: point.nopat * rate,
+      fcf: point.fcf * rate,
+      presentValue: point.presentValue * rate
+    })),
+    terminalValue: result.terminalValue * rate,
+    discountedTerminalValue: result.discountedTerminalValue * rate
+  };
+}
+
+/**
+ * Convert a valuation's money amounts into another currency.
+ *
+ * Upside percentages and the status are ratios and don't change.
+ *
+ * @param valuation - Valuation in the trading currency
+ * @param rate - Units of `currency` per unit of the trading currency
+ * @param currency - Target currency code
+ */
+export function convertValuation(valuation: ValuationResponse, rate: number, currency: string): ValuationResponse {
+  return {
+    ...valuation,
+    currency,
+    currentPrice: valuation.currentPrice * rate,
+    startingRevenue: valuation.startingRevenue * rate,
+    scenarios: {
+      bull: convertScenario(valuation.scenarios.bull, rate),
+      base: convertScenario(valuation.scenarios.base, rate),
+      bear: convertScenario(valuation.scenarios.bear, rate)
+    },
+    weighted: {
+      ...valuation.weighted,
+      fairValuePerShare: valuation.weighted.fairValuePerShare * rate,
+      fairValueAfterMos: valuation.weighted.fairValueAfterMos * rate
+    }
+  };
+}
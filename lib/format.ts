@@ -51,3 +51,25 @@ export function formatPercent(value: number, fractionDigits = 1, locale = "en-US
     maximumFractionDigits: fractionDigits
   }).format(value);
 }
+
+/**
+ * Formats the age of a data point relative to now (e.g., "just now", "12 min ago").
+ *
+ * Used to show how old cached market data is, so users can tell a fresh
+ * quote from one served out of the server-side cache.
+ *
+ * @param isoTimestamp - ISO 8601 timestamp of when the data was fetched
+ * @param now - Reference time (defaults to the current time)
+ * @returns Human-readable age string
+ */
+export function formatDataAge(isoTimestamp: string, now = Date.now()): string {
+  const minutes = Math.max(0, Math.floor((now - new Date(isoTimestamp).getTime()) / 60000));
+
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+
+  return `${Math.floor(hours / 24)} d ago`;
+}
@@ -0,0 +1,138 @@
+import { AnnualFundamentalPoint, FundamentalAnomaly } from "@/types/fundamentals";
+
+/**
+ * Thresholds for flagging a fiscal year as anomalous.
+ */
+export type AnomalyBounds = {
+  maxRevenueChange: number;     // |revenue / prior year revenue - 1| above this is a jump (decimal)
+  maxMarginDeviation: number;   // Margin farther than this from the median of the other years (decimal, 0.1 = 10pp)
+};
+
+// A 50% revenue swing is rare outside acquisitions, divestments and restated
+// series; a 10pp margin swing is beyond normal cyclicality for most sectors.
+export const DEFAULT_ANOMALY_BOUNDS: AnomalyBounds = {
+  maxRevenueChange: 0.5,
+  maxMarginDeviation: 0.1
+};
+
+const SIGN_FIELDS = [
+  ["ebit", "EBIT"],
+  ["netIncome", "Net income"],
+  ["fcf", "Free cash flow"]
+] as const;
+
+const MARGIN_FIELDS = [
+  ["operatingMargin", "Operating margin"],
+  ["netMargin", "Net margin"]
+] as const;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function formatPp(value: number): string {
+  return `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}pp`;
+}
+
+/**
+ * Flag years whose figures don't line up with the rest of the history.
+ *
+ * Checks, per year:
+ * - Revenue jumps vs the prior fiscal year beyond `maxRevenueChange`
+ *   (acquisitions, divestments, or a restated series that doesn't match older years)
+ * - EBIT, net income or FCF with the opposite sign of most other years (one-off writedowns)
+ * - Operating or net margin more than `maxMarginDeviation` from the median of the other years
+ *
+ * Figures marked "missing" in provenance are skipped: a placeholder 0 is a data
+ * gap, not an anomaly (see lib/fundamentals/data-quality.ts).
+ *
+ * @param annual - Annual points, most recent first
+ * @param bounds - Overrides for `DEFAULT_ANOMALY_BOUNDS`
+ * @returns Anomalies sorted by year, most recent first
+ */
+export function detectAnomalies(
+  annual: AnnualFundamentalPoint[],
+  bounds: Partial<AnomalyBounds> = {}
+): FundamentalAnomaly[] {
+  const maxRevenueChange = bounds.maxRevenueChange ?? DEFAULT_ANOMALY_BOUNDS.maxRevenueChange;
+  const maxMarginDeviation = bounds.maxMarginDeviation ?? DEFAULT_ANOMALY_BOUNDS.maxMarginDeviation;
+  const anomalies: FundamentalAnomaly[] = [];
+  const reported = (point: AnnualFundamentalPoint, field: "ebit" | "netIncome" | "fcf") =>
+    point.provenance?.[field] !== "missing";
+
+  annual.forEach((point, index) => {
+    const prior = annual[index + 1];
+    if (prior && prior.year === point.year - 1 && prior.revenue > 0) {
+      const change = point.revenue / prior.revenue - 1;
+      if (Math.abs(change) > maxRevenueChange) {
+        anomalies.push({
+          year: point.year,
+          kind: "jump",
+          field: "revenue",
+          message: `Revenue ${change >= 0 ? "+" : ""}${(change * 100).toFixed(0)}% vs ${prior.year} (acquisition or restatement?)`
+        });
+      }
+    }
+  });
+
+  // Sign flips need a clear majority to compare against
+  for (const [field, label] of SIGN_FIELDS) {
+    const points = annual.filter((point) => reported(point, field) && point[field] !== 0);
+    const positives = points.filter((point) => point[field] > 0).length;
+    const negatives = points.length - positives;
+    if (points.length < 3 || positives === negatives) continue;
+
+    const majorityPositive = positives > negatives;
+    for (const point of points) {
+      if (point[field] > 0 !== majorityPositive) {
+        anomalies.push({
+          year: point.year,
+          kind: "signFlip",
+          field,
+          message: `${label} ${majorityPositive ? "negative" : "positive"}, unlike most other years`
+        });
+      }
+    }
+  }
+
+  for (const [field, label] of MARGIN_FIELDS) {
+    const source = field === "operatingMargin" ? "ebit" : "netIncome";
+    const points = annual.filter((point) => reported(point, source));
+    if (points.length < 3) continue;
+
+    for (const point of points) {
+      const others = points.filter((other) => other !== point).map((other) => other[field]);
+      const deviation = point[field] - median(others);
+      if (Math.abs(deviation) > maxMarginDeviation) {
+        anomalies.push({
+          year: point.year,
+          kind: "marginSpike",
+          field,
+          message: `${label} ${formatPp(deviation)} vs the median of other years`
+        });
+      }
+    }
+  }
+
+  return anomalies.sort((a, b) => b.year - a.year);
+}
+
+/**
+ * Drop the years flagged in `anomalies` from an annual series.
+ *
+ * Falls back to the full series when every year is flagged, so callers
+ * always have data to work with.
+ *
+ * @param annual - Annual points, most recent first
+ * @param anomalies - Output of `detectAnomalies` for the same series
+ */
+export function excludeAnomalousYears(
+  annual: AnnualFundamentalPoint[],
+  anomalies: FundamentalAnomaly[]
+): AnnualFundamentalPoint[] {
+  const flagged = new Set(anomalies.map((anomaly) => anomaly.year));
+  const kept = annual.filter((point) => !flagged.has(point.year));
+  return kept.length > 0 ? kept : annual;
+}
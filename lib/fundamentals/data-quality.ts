@@ -0,0 +1,98 @@
+import {
+  AnnualFundamentalPoint,
+  DataQuality,
+  FieldProvenance,
+  FlowProvenance,
+  FundamentalsResponse
+} from "@/types/fundamentals";
+import { RevenueBasis } from "@/types/valuation";
+
+const FLOW_FIELDS: Array<keyof FlowProvenance> = ["revenue", "ebit", "netIncome", "fcf"];
+
+const FIELD_LABELS: Record<keyof FlowProvenance, string> = {
+  revenue: "revenue",
+  ebit: "EBIT",
+  netIncome: "net income",
+  fcf: "free cash flow"
+};
+
+// Worst first: a sum including one missing quarter is itself incomplete
+const SEVERITY: Record<FieldProvenance, number> = { reported: 0, derived: 1, missing: 2 };
+
+/**
+ * Combine the provenance of figures that were added together (e.g., four quarters into TTM).
+ *
+ * @returns The worst provenance among `values` ("reported" for an empty list)
+ */
+export function combineProvenance(values: FieldProvenance[]): FieldProvenance {
+  return values.reduce<FieldProvenance>(
+    (worst, value) => (SEVERITY[value] > SEVERITY[worst] ? value : worst),
+    "reported"
+  );
+}
+
+/**
+ * Short list of the non-reported fields of a period, for chart footnotes.
+ *
+ * @returns e.g. "free cash flow derived, EBIT missing", or null when all reported
+ */
+export function describeProvenanceGaps(provenance: FlowProvenance | undefined): string | null {
+  if (!provenance) return null;
+  const gaps = FLOW_FIELDS.filter((field) => provenance[field] !== "reported").map(
+    (field) => `${FIELD_LABELS[field]} ${provenance[field]}`
+  );
+  return gaps.length > 0 ? gaps.join(", ") : null;
+}
+
+/**
+ * Count reported/derived/missing flow fields across the annual history.
+ *
+ * Points without `provenance` count as fully reported.
+ *
+ * @param annual - Annual points, most recent first
+ */
+export function summarizeDataQuality(annual: AnnualFundamentalPoint[]): DataQuality {
+  const quality: DataQuality = { reported: 0, derived: 0, missing: 0, flaggedYears: [] };
+
+  for (const point of annual) {
+    let flagged = false;
+    for (const field of FLOW_FIELDS) {
+      const provenance = point.provenance?.[field] ?? "reported";
+      quality[provenance] += 1;
+      flagged ||= provenance !== "reported";
+    }
+    if (flagged) quality.flaggedYears.push(point.year);
+  }
+
+  return quality;
+}
+
+/**
+ * Describe the derived or missing figures in the period the DCF starts from.
+ *
+ * Starting revenue comes from this period, and the company-specific presets
+ * anchor margins and reinvestment on its EBIT and FCF, so a placeholder 0
+ * there silently skews the valuation.
+ *
+ * @param fundamentals - Fundamentals used for the valuation (with `ttm` for the "ttm" basis)
+ * @param basis - Revenue basis the projection starts from
+ * @returns One human-readable warning per affected field (empty when all reported)
+ */
+export function describeDcfInputIssues(fundamentals: FundamentalsResponse, basis: RevenueBasis): string[] {
+  const point = basis === "ttm" ? fundamentals.ttm : fundamentals.annual[0];
+  if (!point?.provenance) return [];
+
+  const period = basis === "ttm" ? `TTM to ${fundamentals.ttm?.periodEnd}` : `FY${fundamentals.annual[0].year}`;
+  const provenance = point.provenance;
+
+  return FLOW_FIELDS.flatMap((field) => {
+    if (provenance[field] === "missing") {
+      return [`${period} ${FIELD_LABELS[field]} was not reported and is treated as 0.`];
+    }
+    if (provenance[field] === "derived") {
+      const source = field === "fcf" ? "operating cash flow + capex" : "other statement lines";
+      return [`${period} ${FIELD_LABELS[field]} is derived from ${source}.`];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,365 @@
+import { summarizeDataQuality } from "@/lib/fundamentals/data-quality";
+import {
+  AnnualFundamentalPoint,
+  FieldProvenance,
+  FundamentalsResponse,
+  ManualFundamentals,
+  StatementScale
+} from "@/types/fundamentals";
+
+/**
+ * Manual Fundamentals Import
+ *
+ * Turns a user-uploaded table of annual statements (CSV text, or rows read
+ * from an XLSX sheet by lib/fundamentals/xlsx.ts) into `AnnualFundamentalPoint`s,
+ * for small caps the market data provider has no usable statements for.
+ *
+ * Layout: a header row, then one row per fiscal year. Headers are matched
+ * case- and punctuation-insensitively against the aliases below, so
+ * "Net income", "net_income" and "NetIncome" all work. Only `year` and
+ * `revenue` are required; columns that are absent or blank are recorded as
+ * missing in provenance, like unreported Yahoo fields.
+ */
+
+type ColumnKey =
+  | "year"
+  | "revenue"
+  | "ebit"
+  | "netIncome"
+  | "fcf"
+  | "operatingCashFlow"
+  | "capex"
+  | "totalAssets"
+  | "totalEquity"
+  | "cash"
+  | "totalDebt"
+  | "netDebt"
+  | "currentAssets"
+  | "currentLiabilities"
+  | "goodwill"
+  | "sharesOutstanding"
+  | "dividendsPaid"
+  | "buybacks";
+
+// Aliases are normalized (lowercase, letters and digits only); Italian labels
+// cover the small caps that motivated the import.
+const COLUMN_ALIASES: Record<ColumnKey, string[]> = {
+  year: ["year", "fiscalyear", "fy", "anno"],
+  revenue: ["revenue", "revenues", "totalrevenue", "sales", "ricavi"],
+  ebit: ["ebit", "operatingincome", "risultatooperativo"],
+  netIncome: ["netincome", "netprofit", "utilenetto"],
+  fcf: ["fcf", "freecashflow"],
+  operatingCashFlow: ["operatingcashflow", "cashfromoperations", "cfo"],
+  capex: ["capex", "capitalexpenditure", "capitalexpenditures"],
+  totalAssets: ["totalassets", "totaleattivo"],
+  totalEquity: ["totalequity", "equity", "stockholdersequity", "patrimonionetto"],
+  cash: ["cash", "cashandequivalents", "cashandcashequivalents", "liquidita"],
+  totalDebt: ["totaldebt", "debt", "debiti"],
+  netDebt: ["netdebt", "indebitamentonetto", "posizionefinanziarianetta"],
+  currentAssets: ["currentassets"],
+  currentLiabilities: ["currentliabilities"],
+  goodwill: ["goodwill", "avviamento"],
+  sharesOutstanding: ["shares", "sharesoutstanding", "azioni"],
+  dividendsPaid: ["dividends", "dividendspaid", "dividendi"],
+  buybacks: ["buybacks", "repurchases", "sharerepurchases"]
+};
+
+// Amounts scale with the file's unit; the year and share count don't
+const UNSCALED: ColumnKey[] = ["year", "sharesOutstanding"];
+
+const SCALE_FACTORS: Record<StatementScale, number> = { units: 1, thousands: 1e3, millions: 1e6 };
+
+// A decade of statements is all the charts and presets use; anything far
+// beyond that is probably the wrong sheet
+const MAX_ROWS = 50;
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Decimal separator of the amounts in a file. With a known separator the
+ * other one groups thousands; unknown leaves "1.234"-style values ambiguous.
+ */
+export type DecimalSeparator = "." | ",";
+
+/**
+ * Detect a CSV delimiter from the header line: comma, semicolon (Excel in
+ * most European locales) or tab.
+ */
+function detectDelimiter(text: string): string {
+  const headerLine = text.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] ?? "";
+  return [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Decimal separator implied by a CSV's delimiter.
+ *
+ * Excel writes semicolon CSVs in locales whose decimal separator is the
+ * comma (Italy, Germany, France...), and comma CSVs in locales that use the
+ * dot. Tab-separated files say nothing, so the result is undefined.
+ */
+export function detectDecimalSeparator(text: string): DecimalSeparator | undefined {
+  const delimiter = detectDelimiter(text);
+  if (delimiter === ";") return ",";
+  if (delimiter === ",") return ".";
+  return undefined;
+}
+
+/**
+ * Parse a CSV document into rows of trimmed cells.
+ *
+ * Supports quoted cells ("" escapes a quote) and detects the delimiter from
+ * the header line: comma, semicolon or tab.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value !== ""));
+}
+
+/**
+ * Whether a value reads differently depending on the decimal separator: a
+ * single "." or "," followed by exactly three digits ("152.400", "1,234").
+ */
+export function isAmbiguousAmount(raw: string): boolean {
+  return /^\d{1,3}[.,]\d{3}$/.test(raw.replace(/[\s '€$£()-]/g, ""));
+}
+
+/**
+ * Parse a number as typed in a spreadsheet.
+ *
+ * Accepts thousands separators in either convention ("1,234.5" and "1.234,5"),
+ * currency symbols, and accounting negatives in parentheses. When both
+ * separators appear, the later one is the decimal point; a separator that
+ * repeats groups thousands. A single separator followed by exactly three
+ * digits ("152.400") follows `decimalSeparator`, and is unparseable when
+ * that is unknown rather than guessed.
+ *
+ * @param decimalSeparator - The file's decimal separator, when known
+ * @returns The number, null for a blank cell or "-", NaN if unparseable or ambiguous
+ */
+export function parseAmount(raw: string, decimalSeparator?: DecimalSeparator): number | null {
+  let text = raw.replace(/[\s '€$£]/g, "");
+  if (text === "" || text === "-") return null;
+
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) text = text.slice(1, -1);
+
+  const commas = text.split(",").length - 1;
+  const dots = text.split(".").length - 1;
+  if (commas > 0 && dots > 0) {
+    // The later separator is the decimal point
+    text = text.lastIndexOf(",") > text.lastIndexOf(".") ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, "");
+  } else if (commas > 1 || dots > 1) {
+    text = text.replace(/[.,]/g, "");
+  } else if (isAmbiguousAmount(text)) {
+    if (!decimalSeparator) return NaN;
+    const separator = commas > 0 ? "," : ".";
+    text = separator === decimalSeparator ? text.replace(",", ".") : text.replace(separator, "");
+  } else {
+    text = text.replace(",", ".");
+  }
+
+  const value = Number(text);
+  if (!Number.isFinite(value)) return NaN;
+  return negative ? -value : value;
+}
+
+/**
+ * Map a statements table onto annual points, shares and net debt.
+ *
+ * FCF falls back to operating cash flow - |capex| when no FCF column is
+ * given (marked "derived"). Net debt uses the latest year's `netDebt`
+ * column, else total debt - cash.
+ *
+ * @param rows - Header row followed by one row per fiscal year
+ * @param scale - Unit of the money amounts in the file
+ * @param decimalSeparator - The file's decimal separator, when known (see `parseAmount`)
+ * @throws Error describing the first problem found (missing column, bad number, duplicate year)
+ */
+export function parseStatementsTable(
+  rows: string[][],
+  scale: StatementScale = "units",
+  decimalSeparator?: DecimalSeparator
+): Pick<ManualFundamentals, "annual" | "sharesOutstanding" | "netDebt"> {
+  const [header, ...body] = rows;
+  if (!header || body.length === 0) {
+    throw new Error("The file needs a header row and at least one year of data.");
+  }
+  if (body.length > MAX_ROWS) {
+    throw new Error(`Too many rows (${body.length}). Upload at most ${MAX_ROWS} fiscal years.`);
+  }
+
+  const columnIndex = new Map<ColumnKey, number>();
+  header.forEach((label, index) => {
+    const normalized = normalizeHeader(label);
+    const key = (Object.keys(COLUMN_ALIASES) as ColumnKey[]).find((column) => COLUMN_ALIASES[column].includes(normalized));
+    if (key && !columnIndex.has(key)) columnIndex.set(key, index);
+  });
+  for (const required of ["year", "revenue"] as const) {
+    if (!columnIndex.has(required)) {
+      throw new Error(`Missing required column "${required}".`);
+    }
+  }
+
+  const factor = SCALE_FACTORS[scale];
+  const seenYears = new Set<number>();
+
+  const parsed = body.map((cells, rowIndex) => {
+    const rowNumber = rowIndex + 2; // 1-based, after the header
+    const read = (key: ColumnKey): number | null => {
+      const index = columnIndex.get(key);
+      if (index === undefined) return null;
+      const value = parseAmount(cells[index] ?? "", decimalSeparator);
+      if (Number.isNaN(value) && isAmbiguousAmount(cells[index])) {
+        throw new Error(
+          `Row ${rowNumber}: "${cells[index]}" could be a decimal or a number with a thousands separator (column ${header[index]}). ` +
+            "Write it without thousands separators."
+        );
+      }
+      if (Number.isNaN(value)) {
+        throw new Error(`Row ${rowNumber}: "${cells[index]}" is not a number (column ${header[index]}).`);
+      }
+      return value === null || UNSCALED.includes(key) ? value : value * factor;
+    };
+
+    // Accept "2024", "FY2024" or a fiscal year end date
+    const yearMatch = (cells[columnIndex.get("year")!] ?? "").match(/(19|20)\d{2}/);
+    if (!yearMatch) {
+      throw new Error(`Row ${rowNumber}: missing or invalid fiscal year.`);
+    }
+    const year = Number(yearMatch[0]);
+    if (seenYears.has(year)) {
+      throw new Error(`Row ${rowNumber}: fiscal year ${year} appears twice.`);
+    }
+    seenYears.add(year);
+
+    const revenue = read("revenue");
+    if (revenue === null || revenue <= 0) {
+      throw new Error(`Row ${rowNumber}: revenue must be a positive number.`);
+    }
+
+    const ebit = read("ebit");
+    const netIncome = read("netIncome");
+    const fcfReported = read("fcf");
+    const operatingCashFlow = read("operatingCashFlow");
+    const capex = read("capex");
+    const fcf = fcfReported ?? (operatingCashFlow !== null ? operatingCashFlow - Math.abs(capex ?? 0) : null);
+    const presence = (value: number | null): FieldProvenance => (value === null ? "missing" : "reported");
+
+    const sharesOutstanding = read("sharesOutstanding");
+    const dividendsPaid = read("dividendsPaid");
+    const buybacks = read("buybacks");
+    const cash = read("cash");
+    const totalDebt = read("totalDebt");
+    const netDebt = read("netDebt") ?? (totalDebt !== null && cash !== null ? totalDebt - cash : null);
+
+    const point: AnnualFundamentalPoint = {
+      year,
+      revenue,
+      ebit: ebit ?? 0,
+      netIncome: netIncome ?? 0,
+      fcf: fcf ?? 0,
+      operatingMargin: (ebit ?? 0) / revenue,
+      netMargin: (netIncome ?? 0) / revenue,
+      provenance: {
+        revenue: "reported",
+        ebit: presence(ebit),
+        netIncome: presence(netIncome),
+        fcf: fcfReported !== null ? "reported" : fcf !== null ? "derived" : "missing"
+      },
+      totalAssets: read("totalAssets"),
+      totalEquity: read("totalEquity"),
+      cash,
+      totalDebt,
+      currentAssets: read("currentAssets"),
+      currentLiabilities: read("currentLiabilities"),
+      goodwill: read("goodwill"),
+      sharesOutstanding,
+      // Positive amounts, as the Yahoo mapper stores them
+      dividendsPaid: dividendsPaid === null ? null : Math.abs(dividendsPaid),
+      dividendsPerShare: dividendsPaid !== null && sharesOutstanding ? Math.abs(dividendsPaid) / sharesOutstanding : null,
+      buybacks: buybacks === null ? null : Math.abs(buybacks)
+    };
+    return { point, netDebt };
+  });
+
+  // Most recent first, matching provider fundamentals
+  parsed.sort((a, b) => b.point.year - a.point.year);
+  const annual = parsed.map(({ point }, index) => {
+    const prior = parsed[index + 1]?.point;
+    const netShareChange =
+      point.sharesOutstanding && prior?.sharesOutstanding && prior.year === point.year - 1
+        ? point.sharesOutstanding / prior.sharesOutstanding - 1
+        : null;
+    return { ...point, netShareChange };
+  });
+
+  return {
+    annual,
+    sharesOutstanding: annual[0].sharesOutstanding ?? null,
+    netDebt: parsed[0].netDebt
+  };
+}
+
+/**
+ * Present uploaded statements as a provider fundamentals response.
+ *
+ * The file carries one currency, used as both trading and statement
+ * currency; the valuation route still converts it to the quote's currency.
+ * Uploads have no quarterly series and no market ratios.
+ */
+export function manualToFundamentalsResponse(manual: ManualFundamentals): FundamentalsResponse {
+  return {
+    ticker: manual.ticker,
+    currency: manual.currency,
+    financialCurrency: manual.currency,
+    annual: manual.annual,
+    ratios: { pe: null, pb: null, ps: null },
+    dataQuality: summarizeDataQuality(manual.annual),
+    manualImport: { fileName: manual.fileName, updatedAt: manual.updatedAt }
+  };
+}
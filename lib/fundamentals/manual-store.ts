@@ -0,0 +1,71 @@
+/**
+ * Per-user storage for uploaded statements (see lib/fundamentals/manual-import.ts).
+ *
+ * One row per user + ticker in the ManualFundamentals table; uploading again
+ * replaces the previous file. Only the uploader sees the override, so one
+ * user's spreadsheet never changes another user's valuation.
+ */
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { ManualFundamentals } from "@/types/fundamentals";
+
+/**
+ * Load the statements a user uploaded for a ticker.
+ *
+ * @returns The stored statements, or null if none were uploaded
+ */
+export async function getManualFundamentals(userId: string, ticker: string): Promise<ManualFundamentals | null> {
+  const row = await db.manualFundamentals.findUnique({
+    where: { userId_ticker: { userId, ticker: ticker.toUpperCase() } }
+  });
+  if (!row) return null;
+
+  return { ...JSON.parse(row.payload), updatedAt: new Date(row.updatedAt).toISOString() } as ManualFundamentals;
+}
+
+/**
+ * Store (or replace) a user's statements for a ticker.
+ *
+ * @returns The stored statements with their new `updatedAt`
+ */
+export async function saveManualFundamentals(
+  userId: string,
+  data: Omit<ManualFundamentals, "updatedAt">
+): Promise<ManualFundamentals> {
+  const ticker = data.ticker.toUpperCase();
+  const payload = JSON.stringify({ ...data, ticker });
+  const row = await db.manualFundamentals.upsert({
+    where: { userId_ticker: { userId, ticker } },
+    create: { userId, ticker, payload },
+    update: { payload }
+  });
+
+  return { ...data, ticker, updatedAt: new Date(row.updatedAt).toISOString() };
+}
+
+/**
+ * Remove a user's statements for a ticker.
+ *
+ * @returns false if there was nothing to delete
+ */
+export async function deleteManualFundamentals(userId: string, ticker: string): Promise<boolean> {
+  const { count } = await db.manualFundamentals.deleteMany({ where: { userId, ticker: ticker.toUpperCase() } });
+  return count > 0;
+}
+
+/**
+ * Uploaded statements overriding provider data for the signed-in user.
+ *
+ * Used by the fundamentals, analyst-estimates, valuation and AI routes.
+ * Anonymous requests and database errors yield null, so those routes fall
+ * back to the market data provider instead of failing.
+ */
+export async function getManualOverride(ticker: string): Promise<ManualFundamentals | null> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) return null;
+    return await getManualFundamentals(session.user.id, ticker);
+  } catch {
+    return null;
+  }
+}
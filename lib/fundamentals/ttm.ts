@@ -0,0 +1,51 @@
+import { combineProvenance } from "@/lib/fundamentals/data-quality";
+import { QuarterlyFundamentalPoint, TtmFundamentalPoint } from "@/types/fundamentals";
+
+// Four consecutive quarter ends span ~273 days (Q1 end → Q4 end). Allow some
+// slack for 52/53-week fiscal calendars, but reject series with a gap.
+const MAX_TTM_SPAN_DAYS = 300;
+
+/**
+ * Compute trailing-twelve-months figures from a quarterly series.
+ *
+ * Sums revenue, EBIT, net income and FCF over the four most recent quarters
+ * and recomputes margins from the sums (averaging quarterly margins would
+ * overweight small quarters). Each summed field inherits the worst provenance
+ * of its quarters.
+ *
+ * @param quarterly - Quarterly points, most recent first
+ * @returns TTM point, or null if fewer than four consecutive quarters exist
+ */
+export function computeTtm(quarterly: QuarterlyFundamentalPoint[]): TtmFundamentalPoint | null {
+  const lastFour = quarterly.slice(0, 4);
+  if (lastFour.length < 4) return null;
+
+  const spanDays =
+    (Date.parse(lastFour[0].periodEnd) - Date.parse(lastFour[3].periodEnd)) / (24 * 60 * 60 * 1000);
+  if (!(spanDays > 0 && spanDays <= MAX_TTM_SPAN_DAYS)) return null;
+
+  const sum = (field: "revenue" | "ebit" | "netIncome" | "fcf") =>
+    lastFour.reduce((total, point) => total + point[field], 0);
+
+  const revenue = sum("revenue");
+  const ebit = sum("ebit");
+  const netIncome = sum("netIncome");
+  const provenanceOf = (field: "revenue" | "ebit" | "netIncome" | "fcf") =>
+    combineProvenance(lastFour.map((point) => point.provenance?.[field] ?? "reported"));
+
+  return {
+    periodEnd: lastFour[0].periodEnd,
+    revenue,
+    ebit,
+    netIncome,
+    fcf: sum("fcf"),
+    operatingMargin: revenue > 0 ? ebit / revenue : 0,
+    netMargin: revenue > 0 ? netIncome / revenue : 0,
+    provenance: {
+      revenue: provenanceOf("revenue"),
+      ebit: provenanceOf("ebit"),
+      netIncome: provenanceOf("netIncome"),
+      fcf: provenanceOf("fcf")
+    }
+  };
+}
@@ -0,0 +1,196 @@
+import { inflateRawSync } from "node:zlib";
+
+/**
+ * Minimal XLSX reader (server-only)
+ *
+ * Reads the cell values of the first worksheet of an .xlsx workbook as text,
+ * which is all the manual fundamentals import needs. An .xlsx file is a ZIP
+ * of XML parts, so this only needs zlib and a few regular expressions instead
+ * of a full spreadsheet dependency.
+ *
+ * Limitations: formulas yield their cached value (what Excel last computed),
+ * dates come back as Excel serial numbers, and styles/merged cells are ignored.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Inflated size cap per part: a decade of statements is a few KB, so anything
+// near this is a zip bomb rather than a workbook
+const MAX_PART_BYTES = 4 * 1024 * 1024;
+
+// Excel's last column is XFD; a reference past it would pad rows without limit
+const MAX_COLUMNS = 16384;
+
+type ZipEntry = { method: number; data: Buffer };
+
+/**
+ * Index the files of a ZIP archive by name without decompressing them.
+ *
+ * Every offset is checked against the buffer, so a truncated or corrupt file
+ * fails with "Not a valid .xlsx file." instead of a RangeError.
+ */
+function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  const invalid = () => new Error("Not a valid .xlsx file.");
+  const fits = (offset: number, length: number) => offset >= 0 && offset + length <= buffer.length;
+
+  // End of central directory record: 22 bytes plus an optional comment of up to 64 KB
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw invalid();
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (!fits(offset, 46) || buffer.readUInt32LE(offset) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw invalid();
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    if (!fits(offset + 46, nameLength)) {
+      throw invalid();
+    }
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!fits(localOffset, 30) || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw invalid();
+    }
+    // Local header extra field can differ from the central directory's
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (!fits(dataStart, compressedSize)) {
+      throw invalid();
+    }
+
+    entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+  }
+
+  return entries;
+}
+
+/**
+ * Decompress one part as text (stored or deflated entries only).
+ *
+ * Only the parts the reader uses are ever inflated, each capped at
+ * `MAX_PART_BYTES`.
+ *
+ * @throws Error if the part is corrupt or inflates past the cap
+ */
+function readEntryText(entries: Map<string, ZipEntry>, name: string): string | undefined {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+  if (entry.method === 0) {
+    if (entry.data.length > MAX_PART_BYTES) throw new Error("The workbook is too large to read.");
+    return entry.data.toString("utf8");
+  }
+  if (entry.method !== 8) return undefined;
+
+  try {
+    return inflateRawSync(entry.data, { maxOutputLength: MAX_PART_BYTES }).toString("utf8");
+  } catch (error) {
+    // maxOutputLength overruns throw a RangeError; anything else is corrupt data
+    if (error instanceof RangeError) {
+      throw new Error("The workbook is too large to read.");
+    }
+    throw new Error("Not a valid .xlsx file.");
+  }
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Concatenate the <t> runs of a rich-text string item
+function textRuns(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => decodeXml(match[1])).join("");
+}
+
+// "AB12" → 27 (zero-based column index)
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, "");
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Path of the first worksheet in workbook order (not necessarily sheet1.xml).
+ */
+function firstSheetPath(entries: Map<string, ZipEntry>): string {
+  const workbook = readEntryText(entries, "xl/workbook.xml") ?? "";
+  const rels = readEntryText(entries, "xl/_rels/workbook.xml.rels") ?? "";
+  const relationId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const relation = relationId
+    ? [...rels.matchAll(/<Relationship\b[^>]*>/g)].find((match) => match[0].includes(`Id="${relationId}"`))?.[0]
+    : undefined;
+  const target = relation?.match(/Target="([^"]+)"/)?.[1];
+
+  if (!target) return "xl/worksheets/sheet1.xml";
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook as rows of text cells.
+ *
+ * Gaps between cells are filled with empty strings so column positions match
+ * the spreadsheet; fully empty rows are dropped.
+ *
+ * @param buffer - Raw .xlsx file contents
+ * @throws Error if the file isn't a readable workbook
+ */
+export function readXlsxRows(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const sheet = readEntryText(entries, firstSheetPath(entries));
+  if (!sheet) {
+    throw new Error("The workbook has no readable worksheet.");
+  }
+
+  const sharedXml = readEntryText(entries, "xl/sharedStrings.xml") ?? "";
+  const sharedStrings = [...sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => textRuns(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = "";
+      if (type === "s" && value !== undefined) text = sharedStrings[Number(value)] ?? "";
+      else if (type === "inlineStr") text = textRuns(content);
+      else if (value !== undefined) text = decodeXml(value);
+
+      const index = reference ? columnIndex(reference) : row.length;
+      if (index >= MAX_COLUMNS) {
+        throw new Error(`Not a valid .xlsx file: cell ${reference ?? index + 1} is past the last column (XFD).`);
+      }
+      while (row.length < index) row.push("");
+      row[index] = text.trim();
+    }
+    if (row.some((cell) => cell !== "")) rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,46 @@
+/**
+ * Shared request handling for the batch routes (app/api/batch/*).
+ *
+ * A batch answers 200 with one result per ticker, errors included, so a list
+ * view can render what it got. Only when every ticker hit the rate limit does
+ * the route answer 503, like the single-ticker routes.
+ */
+import { z } from "zod";
+
+import { BatchResult } from "@/types/market";
+
+// Enough for a watchlist or screener page; larger lists should be paged so
+// one request can't spend the whole Yahoo budget
+const DEFAULT_MAX_TICKERS = 25;
+
+export const batchTickersSchema = z.array(z.string().trim().min(1).max(20)).min(1);
+
+/**
+ * Maximum tickers per batch request (BATCH_MAX_TICKERS env var, default 25).
+ */
+export function getBatchLimit(): number {
+  const limit = Number(process.env.BATCH_MAX_TICKERS);
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_MAX_TICKERS;
+}
+
+/**
+ * Uppercase and de-duplicate requested tickers, keeping the first occurrence's order.
+ *
+ * @throws Error if more tickers than `getBatchLimit()` remain
+ */
+export function normalizeBatchTickers(tickers: string[]): string[] {
+  const unique = [...new Set(tickers.map((ticker) => ticker.toUpperCase()))];
+  const limit = getBatchLimit();
+  if (unique.length > limit) {
+    throw new Error(`Too many tickers (${unique.length}). Send at most ${limit} per request.`);
+  }
+  return unique;
+}
+
+/**
+ * HTTP status for a batch response: 503 if every ticker failed on a rate limit.
+ */
+export function batchStatus<T>(results: BatchResult<T>[]): number {
+  const rateLimited = results.every((result) => "error" in result && result.error.toLowerCase().includes("rate limit"));
+  return results.length > 0 && rateLimited ? 503 : 200;
+}
@@ -0,0 +1,306 @@
+/**
+ * Persistent Market Data Cache (stale-while-revalidate)
+ *
+ * A single dashboard search fans out into several provider calls for the same
+ * ticker (quote and fundamentals are each requested by two routes), and every
+ * "Recalculate" repeats them. Against Yahoo that is how we hit the rate limit.
+ *
+ * Design:
+ * - Responses are stored in the MarketDataCache table (same SQLite/libsql DB
+ *   as users and analyses), keyed by provider + ticker + data kind, so the
+ *   cache survives restarts and is shared by all route handlers.
+ * - Each kind has a TTL (how long data is "fresh") and a stale window (how
+ *   long expired data may still be served). Within the stale window we return
+ *   the cached copy immediately and refresh it in the background; past it we
+ *   fetch synchronously.
+ * - If the provider fails and we still hold any copy, we serve it rather than
+ *   fail: old data beats an error page when Yahoo is throttling us.
+ * - The cache is best-effort. Database errors are swallowed so a broken cache
+ *   degrades to direct provider calls instead of breaking the app.
+ */
+import { db } from "@/lib/db";
+import type { MarketDataProvider } from "@/lib/market-data/provider";
+import { BatchResult, CacheStatus } from "@/types/market";
+
+export type CacheKind =
+  | "quote"
+  | "fundamentals"
+  | "fundamentalsQuarterly"
+  | "netDebt"
+  | "analystEstimates"
+  | "priceHistory"
+  | "symbolSearch"
+  | "fxRate"
+  | "riskFreeRate";
+
+export type CachedValue<T> = {
+  data: T;
+  fetchedAt: string;         // ISO 8601 timestamp of the provider fetch
+  cacheStatus: CacheStatus;
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Freshness policy per data kind.
+ *
+ * Quotes move during the session, so they expire quickly. Statements and
+ * analyst estimates change at most a few times per quarter; a day is plenty.
+ */
+export const CACHE_POLICIES: Record<CacheKind, { ttlMs: number; staleMs: number }> = {
+  quote: { ttlMs: 5 * MINUTE, staleMs: HOUR },
+  fundamentals: { ttlMs: DAY, staleMs: 7 * DAY },
+  fundamentalsQuarterly: { ttlMs: DAY, staleMs: 7 * DAY },
+  netDebt: { ttlMs: DAY, staleMs: 7 * DAY },
+  analystEstimates: { ttlMs: 6 * HOUR, staleMs: 3 * DAY },
+  // Daily bars only gain a new close once per session
+  priceHistory: { ttlMs: HOUR, staleMs: DAY },
+  // Listings rarely change; long TTL keeps keystroke-driven searches off the API
+  symbolSearch: { ttlMs: DAY, staleMs: 7 * DAY },
+  // A fundamentals-driven valuation doesn't need tick-level FX
+  fxRate: { ttlMs: HOUR, staleMs: DAY },
+  riskFreeRate: { ttlMs: HOUR, staleMs: DAY }
+};
+
+// Keys with a background refresh in flight, so a burst of stale reads
+// triggers one provider call instead of one per request.
+const refreshing = new Set<string>();
+
+async function readEntry(provider: string, ticker: string, kind: CacheKind) {
+  try {
+    return await db.marketDataCache.findUnique({
+      where: { provider_ticker_kind: { provider, ticker, kind } }
+    });
+  } catch {
+    return null;
+  }
+}
+
+async function writeEntry(provider: string, ticker: string, kind: CacheKind, data: unknown, fetchedAt: Date) {
+  const payload = JSON.stringify(data);
+
+  try {
+    await db.marketDataCache.upsert({
+      where: { provider_ticker_kind: { provider, ticker, kind } },
+      create: { provider, ticker, kind, payload, fetchedAt },
+      update: { payload, fetchedAt }
+    });
+  } catch {
+    // Best-effort: a failed write only costs us a future cache miss
+  }
+}
+
+/**
+ * Fetch a value through the cache with stale-while-revalidate semantics.
+ *
+ * @param provider - Provider name (part of the key so vendors never mix)
+ * @param ticker - Ticker symbol (normalized to uppercase for the key)
+ * @param kind - Data kind, selects the TTL policy
+ * @param fetcher - Provider call used on miss or refresh
+ * @returns The data with its original fetch time and cache status
+ * @throws Whatever fetcher throws, when no cached copy exists
+ */
+export async function cachedFetch<T>(
+  provider: string,
+  ticker: string,
+  kind: CacheKind,
+  fetcher: () => Promise<T>
+): Promise<CachedValue<T>> {
+  const key = ticker.toUpperCase();
+  const policy = CACHE_POLICIES[kind];
+  const entry = await readEntry(provider, key, kind);
+  const ageMs = entry ? Date.now() - new Date(entry.fetchedAt).getTime() : Infinity;
+
+  if (entry && ageMs < policy.ttlMs) {
+    return { data: JSON.parse(entry.payload) as T, fetchedAt: new Date(entry.fetchedAt).toISOString(), cacheStatus: "fresh" };
+  }
+
+  if (entry && ageMs < policy.ttlMs + policy.staleMs) {
+    const refreshKey = `${provider}:${key}:${kind}`;
+
+    if (!refreshing.has(refreshKey)) {
+      refreshing.add(refreshKey);
+      void fetcher()
+        .then((data) => writeEntry(provider, key, kind, data, new Date()))
+        .catch(() => {/* keep serving the stale copy; next read retries */})
+        .finally(() => refreshing.delete(refreshKey));
+    }
+
+    return { data: JSON.parse(entry.payload) as T, fetchedAt: new Date(entry.fetchedAt).toISOString(), cacheStatus: "stale" };
+  }
+
+  try {
+    const data = await fetcher();
+    const fetchedAt = new Date();
+    await writeEntry(provider, key, kind, data, fetchedAt);
+    return { data, fetchedAt: fetchedAt.toISOString(), cacheStatus: "miss" };
+  } catch (error) {
+    // Serve-stale-on-error: an expired copy is better than no data
+    if (entry) {
+      return { data: JSON.parse(entry.payload) as T, fetchedAt: new Date(entry.fetchedAt).toISOString(), cacheStatus: "stale" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Batch variant of `cachedFetch`: each ticker follows the same fresh/stale
+ * policy, but all tickers needing a provider call are fetched in one batch
+ * (and stale ones refreshed in one background batch).
+ *
+ * @param fetchMany - Batch provider call, one result per requested ticker
+ * @returns One result per ticker in input order, with cache metadata on successes
+ */
+export async function cachedFetchMany<T>(
+  provider: string,
+  tickers: string[],
+  kind: CacheKind,
+  fetchMany: (tickers: string[]) => Promise<BatchResult<T>[]>
+): Promise<BatchResult<CachedValue<T>>[]> {
+  const policy = CACHE_POLICIES[kind];
+  const keys = tickers.map((ticker) => ticker.toUpperCase());
+  const entries = new Map(
+    await Promise.all(keys.map(async (key) => [key, await readEntry(provider, key, kind)] as const))
+  );
+  const results = new Map<string, BatchResult<CachedValue<T>>>();
+  const cached = (key: string, cacheStatus: CacheStatus): BatchResult<CachedValue<T>> => {
+    const entry = entries.get(key)!;
+    return {
+      ticker: key,
+      data: { data: JSON.parse(entry.payload) as T, fetchedAt: new Date(entry.fetchedAt).toISOString(), cacheStatus }
+    };
+  };
+
+  const toFetch: string[] = [];
+  const toRefresh: string[] = [];
+  for (const key of keys) {
+    const entry = entries.get(key);
+    const ageMs = entry ? Date.now() - new Date(entry.fetchedAt).getTime() : Infinity;
+
+    if (ageMs < policy.ttlMs) {
+      results.set(key, cached(key, "fresh"));
+    } else if (ageMs < policy.ttlMs + policy.staleMs) {
+      results.set(key, cached(key, "stale"));
+      if (!refreshing.has(`${provider}:${key}:${kind}`)) toRefresh.push(key);
+    } else {
+      toFetch.push(key);
+    }
+  }
+
+  if (toRefresh.length > 0) {
+    toRefresh.forEach((key) => refreshing.add(`${provider}:${key}:${kind}`));
+    void fetchMany(toRefresh)
+      .then(async (batch) => {
+        for (const result of batch) {
+          if ("data" in result) await writeEntry(provider, result.ticker.toUpperCase(), kind, result.data, new Date());
+        }
+      })
+      .catch(() => {/* keep serving the stale copies; next read retries */})
+      .finally(() => toRefresh.forEach((key) => refreshing.delete(`${provider}:${key}:${kind}`)));
+  }
+
+  if (toFetch.length > 0) {
+    let batch: BatchResult<T>[];
+    try {
+      batch = await fetchMany(toFetch);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to fetch data.";
+      batch = toFetch.map((ticker) => ({ ticker, error: message }));
+    }
+
+    const fetchedAt = new Date();
+    for (const result of batch) {
+      const key = result.ticker.toUpperCase();
+      if ("data" in result) {
+        await writeEntry(provider, key, kind, result.data, fetchedAt);
+        results.set(key, { ticker: key, data: { data: result.data, fetchedAt: fetchedAt.toISOString(), cacheStatus: "miss" } });
+      } else {
+        // Serve-stale-on-error, per ticker
+        results.set(key, entries.get(key) ? cached(key, "stale") : { ticker: key, error: result.error });
+      }
+    }
+  }
+
+  return keys.map((key) => results.get(key) ?? { ticker: key, error: "No data returned by the provider." });
+}
+
+/**
+ * Drop every cached entry of a provider for a ticker, e.g. after its source
+ * files changed. Best-effort like writes.
+ */
+export async function invalidateCachedTicker(provider: string, ticker: string): Promise<void> {
+  try {
+    await db.marketDataCache.deleteMany({ where: { provider, ticker: ticker.toUpperCase() } });
+  } catch {
+    // Entries expire on their own within a day
+  }
+}
+
+/**
+ * Wrap a provider so every call goes through the persistent cache.
+ *
+ * Quote, fundamentals and price history responses carry their cache metadata (fetchedAt,
+ * cacheStatus) so the UI can show data age. The risk-free rate is only
+ * cached when available — a null result is never stored.
+ */
+export function withCache(provider: MarketDataProvider): MarketDataProvider {
+  const name = provider.name;
+
+  return {
+    name,
+    async getQuote(ticker) {
+      const cached = await cachedFetch(name, ticker, "quote", () => provider.getQuote(ticker));
+      return { ...cached.data, fetchedAt: cached.fetchedAt, cacheStatus: cached.cacheStatus };
+    },
+    async getQuotes(tickers) {
+      const results = await cachedFetchMany(name, tickers, "quote", (missing) => provider.getQuotes(missing));
+      return results.map((result) =>
+        "data" in result
+          ? { ticker: result.ticker, data: { ...result.data.data, fetchedAt: result.data.fetchedAt, cacheStatus: result.data.cacheStatus } }
+          : result
+      );
+    },
+    async getFundamentals(ticker, options) {
+      // Quarterly responses are a superset of annual ones, but cached separately
+      // so an annual request never pays for the extra quarterly fetch.
+      const kind = options?.period === "quarterly" ? "fundamentalsQuarterly" : "fundamentals";
+      const cached = await cachedFetch(name, ticker, kind, () => provider.getFundamentals(ticker, options));
+      return { ...cached.data, fetchedAt: cached.fetchedAt, cacheStatus: cached.cacheStatus };
+    },
+    async getNetDebtEstimate(ticker) {
+      return (await cachedFetch(name, ticker, "netDebt", () => provider.getNetDebtEstimate(ticker))).data;
+    },
+    async getAnalystEstimates(ticker) {
+      return (await cachedFetch(name, ticker, "analystEstimates", () => provider.getAnalystEstimates(ticker))).data;
+    },
+    async getPriceHistory(ticker, options) {
+      // One entry per range/interval pair: they are different series, not subsets
+      const key = `${ticker}:${options.range}:${options.interval}`;
+      const cached = await cachedFetch(name, key, "priceHistory", () => provider.getPriceHistory(ticker, options));
+      return { ...cached.data, fetchedAt: cached.fetchedAt, cacheStatus: cached.cacheStatus };
+    },
+    async getFxRate(from, to) {
+      // Keyed by the currency pair in place of a ticker
+      return (await cachedFetch(name, `${from}${to}`, "fxRate", () => provider.getFxRate(from, to))).data;
+    },
+    async searchSymbols(query) {
+      // Keyed by the normalized query text in place of a ticker
+      const key = query.trim().replace(/\s+/g, " ");
+      return (await cachedFetch(name, key, "symbolSearch", () => provider.searchSymbols(query))).data;
+    },
+    async getRiskFreeRate(symbol) {
+      try {
+        const cached = await cachedFetch(name, symbol, "riskFreeRate", async () => {
+          const result = await provider.getRiskFreeRate(symbol);
+          if (result === null) throw new Error("Risk-free rate unavailable.");
+          return result;
+        });
+        return cached.data;
+      } catch {
+        return null;
+      }
+    }
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Exchange Registry
+ *
+ * Static metadata for the exchanges the app supports: MIC, country, region,
+ * currency, time zone, regular trading hours and the default corporate tax
+ * rate used when a company's own effective rate can't be derived.
+ *
+ * Exchanges are matched by Yahoo exchange code (`quote.exchange`, e.g. "NMS",
+ * "MIL"), with the Yahoo ticker suffix (".MI", ".L", ...) as fallback when the
+ * code is unknown. Pure data and functions, safe to import client-side.
+ *
+ * Tax rates are combined statutory rates (national + typical local taxes,
+ * e.g. IRES + IRAP in Italy, federal + average state in the US) as of 2026;
+ * trading hours are the regular continuous session, without holidays,
+ * auctions or Asian lunch breaks.
+ */
+import { ExchangeInfo, MarketStatus } from "@/types/market";
+
+type ExchangeEntry = Omit<ExchangeInfo, "code"> & {
+  codes: string[];      // Yahoo exchange codes, first one is canonical
+  suffixes: string[];   // Yahoo ticker suffixes (empty for US listings)
+};
+
+const US_HOURS = { timezone: "America/New_York", tradingHours: { open: "09:30", close: "16:00" } };
+const US = { country: "US", region: "US", currency: "USD", corporateTaxRate: 0.256 } as const;
+const EU_HOURS = { open: "09:00", close: "17:30" };
+
+const EXCHANGES: ExchangeEntry[] = [
+  // United States
+  { codes: ["NMS", "NGM", "NCM", "NASDAQ"], mic: "XNAS", name: "Nasdaq", ...US, ...US_HOURS, suffixes: [] },
+  { codes: ["NYQ", "NYSE"], mic: "XNYS", name: "New York Stock Exchange", ...US, ...US_HOURS, suffixes: [] },
+  { codes: ["ASE", "AMEX"], mic: "XASE", name: "NYSE American", ...US, ...US_HOURS, suffixes: [] },
+  { codes: ["PCX"], mic: "ARCX", name: "NYSE Arca", ...US, ...US_HOURS, suffixes: [] },
+  { codes: ["BTS", "BATS"], mic: "BATS", name: "Cboe BZX", ...US, ...US_HOURS, suffixes: [] },
+
+  // Europe
+  { codes: ["MIL"], mic: "XMIL", name: "Borsa Italiana", country: "IT", region: "EU", currency: "EUR", timezone: "Europe/Rome", tradingHours: EU_HOURS, corporateTaxRate: 0.279, suffixes: ["MI"] },
+  { codes: ["PAR"], mic: "XPAR", name: "Euronext Paris", country: "FR", region: "EU", currency: "EUR", timezone: "Europe/Paris", tradingHours: EU_HOURS, corporateTaxRate: 0.258, suffixes: ["PA"] },
+  { codes: ["GER", "XETRA"], mic: "XETR", name: "Xetra", country: "DE", region: "EU", currency: "EUR", timezone: "Europe/Berlin", tradingHours: EU_HOURS, corporateTaxRate: 0.299, suffixes: ["DE"] },
+  { codes: ["FRA"], mic: "XFRA", name: "Frankfurt Stock Exchange", country: "DE", region: "EU", currency: "EUR", timezone: "Europe/Berlin", tradingHours: { open: "08:00", close: "22:00" }, corporateTaxRate: 0.299, suffixes: ["F"] },
+  { codes: ["AMS"], mic: "XAMS", name: "Euronext Amsterdam", country: "NL", region: "EU", currency: "EUR", timezone: "Europe/Amsterdam", tradingHours: EU_HOURS, corporateTaxRate: 0.258, suffixes: ["AS"] },
+  { codes: ["BRU"], mic: "XBRU", name: "Euronext Brussels", country: "BE", region: "EU", currency: "EUR", timezone: "Europe/Brussels", tradingHours: EU_HOURS, corporateTaxRate: 0.25, suffixes: ["BR"] },
+  { codes: ["LIS"], mic: "XLIS", name: "Euronext Lisbon", country: "PT", region: "EU", currency: "EUR", timezone: "Europe/Lisbon", tradingHours: { open: "08:00", close: "16:30" }, corporateTaxRate: 0.315, suffixes: ["LS"] },
+  { codes: ["ISE"], mic: "XDUB", name: "Euronext Dublin", country: "IE", region: "EU", currency: "EUR", timezone: "Europe/Dublin", tradingHours: { open: "08:00", close: "16:30" }, corporateTaxRate: 0.125, suffixes: ["IR"] },
+  { codes: ["MCE"], mic: "XMAD", name: "Bolsa de Madrid", country: "ES", region: "EU", currency: "EUR", timezone: "Europe/Madrid", tradingHours: EU_HOURS, corporateTaxRate: 0.25, suffixes: ["MC"] },
+  { codes: ["VIE"], mic: "XWBO", name: "Wiener Börse", country: "AT", region: "EU", currency: "EUR", timezone: "Europe/Vienna", tradingHours: EU_HOURS, corporateTaxRate: 0.23, suffixes: ["VI"] },
+  { codes: ["HEL"], mic: "XHEL", name: "Nasdaq Helsinki", country: "FI", region: "EU", currency: "EUR", timezone: "Europe/Helsinki", tradingHours: { open: "10:00", close: "18:30" }, corporateTaxRate: 0.2, suffixes: ["HE"] },
+  { codes: ["LSE"], mic: "XLON", name: "London Stock Exchange", country: "GB", region: "EU", currency: "GBp", timezone: "Europe/London", tradingHours: { open: "08:00", close: "16:30" }, corporateTaxRate: 0.25, suffixes: ["L"] },
+  { codes: ["EBS", "SWX"], mic: "XSWX", name: "SIX Swiss Exchange", country: "CH", region: "EU", currency: "CHF", timezone: "Europe/Zurich", tradingHours: EU_HOURS, corporateTaxRate: 0.196, suffixes: ["SW"] },
+  { codes: ["STO"], mic: "XSTO", name: "Nasdaq Stockholm", country: "SE", region: "EU", currency: "SEK", timezone: "Europe/Stockholm", tradingHours: EU_HOURS, corporateTaxRate: 0.206, suffixes: ["ST"] },
+  { codes: ["CPH"], mic: "XCSE", name: "Nasdaq Copenhagen", country: "DK", region: "EU", currency: "DKK", timezone: "Europe/Copenhagen", tradingHours: { open: "09:00", close: "17:00" }, corporateTaxRate: 0.22, suffixes: ["CO"] },
+  { codes: ["OSL"], mic: "XOSL", name: "Oslo Børs", country: "NO", region: "EU", currency: "NOK", timezone: "Europe/Oslo", tradingHours: { open: "09:00", close: "16:20" }, corporateTaxRate: 0.22, suffixes: ["OL"] },
+  { codes: ["MCX"], mic: "MISX", name: "Moscow Exchange", country: "RU", region: "EU", currency: "RUB", timezone: "Europe/Moscow", tradingHours: { open: "10:00", close: "18:50" }, corporateTaxRate: 0.25, suffixes: ["ME"] },
+
+  // Americas (ex-US)
+  { codes: ["TOR"], mic: "XTSE", name: "Toronto Stock Exchange", country: "CA", region: "AMERICAS", currency: "CAD", timezone: "America/Toronto", tradingHours: { open: "09:30", close: "16:00" }, corporateTaxRate: 0.261, suffixes: ["TO"] },
+  { codes: ["VAN"], mic: "XTSX", name: "TSX Venture Exchange", country: "CA", region: "AMERICAS", currency: "CAD", timezone: "America/Toronto", tradingHours: { open: "09:30", close: "16:00" }, corporateTaxRate: 0.261, suffixes: ["V"] },
+  { codes: ["SAO"], mic: "BVMF", name: "B3", country: "BR", region: "AMERICAS", currency: "BRL", timezone: "America/Sao_Paulo", tradingHours: { open: "10:00", close: "17:00" }, corporateTaxRate: 0.34, suffixes: ["SA"] },
+  { codes: ["MEX"], mic: "XMEX", name: "Bolsa Mexicana de Valores", country: "MX", region: "AMERICAS", currency: "MXN", timezone: "America/Mexico_City", tradingHours: { open: "08:30", close: "15:00" }, corporateTaxRate: 0.3, suffixes: ["MX"] },
+
+  // Asia-Pacific
+  { codes: ["JPX", "TYO"], mic: "XJPX", name: "Tokyo Stock Exchange", country: "JP", region: "APAC", currency: "JPY", timezone: "Asia/Tokyo", tradingHours: { open: "09:00", close: "15:30" }, corporateTaxRate: 0.297, suffixes: ["T"] },
+  { codes: ["HKG"], mic: "XHKG", name: "Hong Kong Exchanges", country: "HK", region: "APAC", currency: "HKD", timezone: "Asia/Hong_Kong", tradingHours: { open: "09:30", close: "16:00" }, corporateTaxRate: 0.165, suffixes: ["HK"] },
+  { codes: ["SHH"], mic: "XSHG", name: "Shanghai Stock Exchange", country: "CN", region: "APAC", currency: "CNY", timezone: "Asia/Shanghai", tradingHours: { open: "09:30", close: "15:00" }, corporateTaxRate: 0.25, suffixes: ["SS"] },
+  { codes: ["SHZ"], mic: "XSHE", name: "Shenzhen Stock Exchange", country: "CN", region: "APAC", currency: "CNY", timezone: "Asia/Shanghai", tradingHours: { open: "09:30", close: "15:00" }, corporateTaxRate: 0.25, suffixes: ["SZ"] },
+  { codes: ["NSI"], mic: "XNSE", name: "National Stock Exchange of India", country: "IN", region: "APAC", currency: "INR", timezone: "Asia/Kolkata", tradingHours: { open: "09:15", close: "15:30" }, corporateTaxRate: 0.252, suffixes: ["NS"] },
+  { codes: ["KSC"], mic: "XKRX", name: "Korea Exchange", country: "KR", region: "APAC", currency: "KRW", timezone: "Asia/Seoul", tradingHours: { open: "09:00", close: "15:30" }, corporateTaxRate: 0.264, suffixes: ["KS"] },
+  { codes: ["TAI"], mic: "XTAI", name: "Taiwan Stock Exchange", country: "TW", region: "APAC", currency: "TWD", timezone: "Asia/Taipei", tradingHours: { open: "09:00", close: "13:30" }, corporateTaxRate: 0.2, suffixes: ["TW"] },
+  { codes: ["SES"], mic: "XSES", name: "Singapore Exchange", country: "SG", region: "APAC", currency: "SGD", timezone: "Asia/Singapore", tradingHours: { open: "09:00", close: "17:00" }, corporateTaxRate: 0.17, suffixes: ["SI"] },
+  { codes: ["ASX"], mic: "XASX", name: "Australian Securities Exchange", country: "AU", region: "APAC", currency: "AUD", timezone: "Australia/Sydney", tradingHours: { open: "10:00", close: "16:00" }, corporateTaxRate: 0.3, suffixes: ["AX"] }
+];
+
+function toInfo({ codes, suffixes: _suffixes, ...info }: ExchangeEntry): ExchangeInfo {
+  return { code: codes[0], ...info };
+}
+
+/**
+ * Look up an exchange by Yahoo exchange code, falling back to the ticker suffix.
+ *
+ * @param code - Yahoo exchange code from a quote or search result (e.g., "MIL")
+ * @param ticker - Yahoo ticker (e.g., "ENI.MI"), used when the code is missing or unknown
+ * @returns The exchange, or null if neither matches the registry
+ */
+export function resolveExchange(code?: string | null, ticker?: string | null): ExchangeInfo | null {
+  const upperCode = code?.toUpperCase();
+  const byCode = upperCode ? EXCHANGES.find((entry) => entry.codes.includes(upperCode)) : undefined;
+  if (byCode) return toInfo(byCode);
+
+  const suffix = ticker?.includes(".") ? ticker.split(".").pop()!.toUpperCase() : null;
+  const bySuffix = suffix ? EXCHANGES.find((entry) => entry.suffixes.includes(suffix)) : undefined;
+  return bySuffix ? toInfo(bySuffix) : null;
+}
+
+// "HH:MM" → minutes since midnight
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether the exchange's regular session is running at a given moment.
+ *
+ * Uses the exchange's own time zone (so DST is handled by Intl). Weekends are
+ * closed; public holidays are not modelled and show as "open".
+ *
+ * @param exchange - Exchange metadata (from `resolveExchange` or `QuoteResponse.market`)
+ * @param now - Moment to check; defaults to the current time
+ */
+export function getMarketStatus(
+  exchange: Pick<ExchangeInfo, "timezone" | "tradingHours">,
+  now: Date = new Date()
+): MarketStatus {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: exchange.timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((entry) => entry.type === type)?.value ?? "";
+
+  if (part("weekday") === "Sat" || part("weekday") === "Sun") return "closed";
+
+  const minutes = toMinutes(`${part("hour")}:${part("minute")}`);
+  const { open, close } = exchange.tradingHours;
+  return minutes >= toMinutes(open) && minutes < toMinutes(close) ? "open" : "closed";
+}
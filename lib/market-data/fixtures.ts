@@ -0,0 +1,140 @@
+/**
+ * Yahoo Fixture Store (record / replay)
+ *
+ * Lets the whole app run offline against realistic data. Every raw
+ * yahoo-finance2 call in lib/yahoo-client.ts goes through `withFixture`:
+ *
+ * - "record": call Yahoo as usual and save the raw payload to
+ *   fixtures/yahoo/<TICKER>.json under a key describing the call
+ *   (e.g., "quote", "quoteSummary:financialData").
+ * - "replay": never touch the network; serve the saved payload instead.
+ * - "off": pass-through (default).
+ *
+ * We store raw payloads, not mapped responses, so replay exercises the same
+ * mappers as production and fixtures stay valid when mapping logic changes.
+ *
+ * Mode comes from YAHOO_FIXTURE_MODE. Selecting MARKET_DATA_PROVIDER=fixture
+ * implies replay. The directory can be moved with YAHOO_FIXTURE_DIR.
+ */
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+// yahoo-finance2 returns Date objects (e.g., fundamentalsTimeSeries `date`)
+// which JSON flattens to ISO strings; the mappers rely on `instanceof Date`.
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Resolve the active fixture mode from configuration.
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.YAHOO_FIXTURE_MODE?.toLowerCase();
+
+  if (mode === "record" || mode === "replay") {
+    return mode;
+  }
+
+  return process.env.MARKET_DATA_PROVIDER?.toLowerCase() === "fixture" ? "replay" : "off";
+}
+
+function getFixtureDir(): string {
+  return path.resolve(process.env.YAHOO_FIXTURE_DIR || path.join("fixtures", "yahoo"));
+}
+
+/**
+ * Map a ticker to its fixture file. Symbols like "^TNX" or "EURUSD=X" contain
+ * characters that are awkward in file names, so anything outside
+ * [A-Z0-9.-] becomes an underscore.
+ */
+function fixturePath(ticker: string): string {
+  const safeName = ticker.toUpperCase().replace(/[^A-Z0-9.-]/g, "_");
+  return path.join(getFixtureDir(), `${safeName}.json`);
+}
+
+async function readFixtureFile(file: string): Promise<Record<string, unknown> | null> {
+  try {
+    const raw = await readFile(file, "utf8");
+    return JSON.parse(raw, (_key, value) =>
+      typeof value === "string" && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read every recorded fixture file, e.g. to search symbols offline.
+ *
+ * @returns Raw payloads per file (keyed by call), in file name order
+ */
+export async function listFixtures(): Promise<Array<Record<string, unknown>>> {
+  let files: string[];
+  try {
+    files = (await readdir(getFixtureDir())).filter((file) => file.endsWith(".json")).sort();
+  } catch {
+    return [];
+  }
+
+  const fixtures = await Promise.all(files.map((file) => readFixtureFile(path.join(getFixtureDir(), file))));
+  return fixtures.filter((fixture): fixture is Record<string, unknown> => fixture !== null);
+}
+
+/**
+ * Run a raw Yahoo call through the fixture store according to the active mode.
+ *
+ * @param ticker - Symbol the call is about (selects the fixture file)
+ * @param key - Stable description of the call within that file
+ * @param fetcher - The real Yahoo call
+ * @returns Raw payload, either live or replayed
+ * @throws Error in replay mode when no fixture was recorded for this call
+ */
+export async function withFixture<T>(ticker: string, key: string, fetcher: () => Promise<T>): Promise<T> {
+  const mode = getFixtureMode();
+
+  if (mode === "off") {
+    return fetcher();
+  }
+
+  const file = fixturePath(ticker);
+
+  if (mode === "replay") {
+    const fixture = await readFixtureFile(file);
+    if (!fixture || !(key in fixture)) {
+      throw new Error(`No recorded fixture for ${ticker.toUpperCase()} (${key}). Record it with YAHOO_FIXTURE_MODE=record.`);
+    }
+    return fixture[key] as T;
+  }
+
+  const payload = await fetcher();
+  await recordFixture(file, key, payload);
+
+  return payload;
+}
+
+// Tail of the pending writes per fixture file
+const fixtureWrites = new Map<string, Promise<void>>();
+
+/**
+ * Merge one payload into a fixture file, so recording one call keeps the others.
+ *
+ * Writes to the same file are chained: calls for one ticker run concurrently
+ * (quote, fundamentals and net debt; the time series inside fundamentals),
+ * and unserialized read-merge-writes would drop each other's keys.
+ */
+function recordFixture(file: string, key: string, payload: unknown): Promise<void> {
+  const write = (fixtureWrites.get(file) ?? Promise.resolve()).then(async () => {
+    const existing = (await readFixtureFile(file)) ?? {};
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify({ ...existing, [key]: payload }, null, 2)}\n`, "utf8");
+  });
+
+  // A failed write shouldn't block the next one
+  const tail = write.catch(() => undefined);
+  fixtureWrites.set(file, tail);
+  void tail.then(() => {
+    if (fixtureWrites.get(file) === tail) fixtureWrites.delete(file);
+  });
+
+  return write;
+}
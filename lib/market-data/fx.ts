@@ -0,0 +1,42 @@
+/**
+ * FX Rate Service
+ *
+ * Converts between any two currency codes Yahoo reports, including minor
+ * units (GBp pence, ZAc cents). Major-currency rates come from the market
+ * data provider, so they go through the persistent cache like any other
+ * market data; identical currencies never hit the network.
+ */
+import { getMarketDataProvider, MarketDataProvider } from "@/lib/market-data/provider";
+import { toMajorCurrency } from "@/lib/currency";
+import { FxRate } from "@/types/market";
+
+/**
+ * Resolve the rate to convert amounts from one currency code into another.
+ *
+ * @param from - Source currency code (e.g., "TWD", "GBp")
+ * @param to - Target currency code (e.g., "USD")
+ * @param provider - Market data provider; defaults to the configured one
+ * @returns Units of `to` per unit of `from`
+ * @throws User-friendly error if the provider has no rate for the pair
+ */
+export async function getFxRate(
+  from: string,
+  to: string,
+  provider: MarketDataProvider = getMarketDataProvider()
+): Promise<FxRate> {
+  const source = toMajorCurrency(from);
+  const target = toMajorCurrency(to);
+
+  // Same major currency (USD→USD, GBp→GBP): only the unit scaling applies
+  const major =
+    source.currency === target.currency
+      ? { rate: 1, asOf: new Date().toISOString() }
+      : await provider.getFxRate(source.currency, target.currency);
+
+  return {
+    from,
+    to,
+    rate: (major.rate * target.perMajor) / source.perMajor,
+    asOf: major.asOf
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Market Data Provider Registry
+ *
+ * Routes never talk to a vendor SDK directly: they ask for the configured
+ * provider and call it through the MarketDataProvider contract. This keeps
+ * yahoo-finance2 as one implementation among others (offline fixtures,
+ * alternative vendors) without touching route code when we switch.
+ *
+ * The active provider is chosen by the MARKET_DATA_PROVIDER env var
+ * (defaults to "yahoo"). Unknown names fail loudly at first use instead of
+ * silently falling back, so a typo in configuration never ships real traffic
+ * to the wrong vendor.
+ *
+ * Every provider is wrapped in the persistent stale-while-revalidate cache
+ * (lib/market-data/cache.ts) unless MARKET_DATA_CACHE=off.
+ */
+import { FundamentalsPeriod, FundamentalsResponse } from "@/types/fundamentals";
+import {
+  BatchResult,
+  HistoryInterval,
+  HistoryRange,
+  PriceHistoryResponse,
+  QuoteResponse,
+  SymbolSearchResult
+} from "@/types/market";
+import { AnalystEstimates } from "@/types/valuation";
+import { withCache } from "@/lib/market-data/cache";
+import { secProvider } from "@/lib/market-data/sec-provider";
+import { yahooProvider } from "@/lib/market-data/yahoo-provider";
+
+/**
+ * Contract every market data source must implement.
+ *
+ * Implementations are expected to throw user-friendly Errors (the routes
+ * forward `error.message` to the UI and map "rate limit" messages to 503).
+ */
+export type MarketDataProvider = {
+  /** Identifier used in configuration and logs (e.g., "yahoo") */
+  name: string;
+  getQuote: (ticker: string) => Promise<QuoteResponse>;
+  /** One result per ticker in input order; per-ticker failures are results, not throws */
+  getQuotes: (tickers: string[]) => Promise<BatchResult<QuoteResponse>[]>;
+  /** period "quarterly" adds the quarterly series and TTM point to the annual data */
+  getFundamentals: (ticker: string, options?: { period?: FundamentalsPeriod }) => Promise<FundamentalsResponse>;
+  /** Total debt minus total cash, in the statement currency (positive = net debt, negative = net cash) */
+  getNetDebtEstimate: (ticker: string) => Promise<number>;
+  getAnalystEstimates: (ticker: string) => Promise<AnalystEstimates>;
+  /** Closing prices, oldest first */
+  getPriceHistory: (
+    ticker: string,
+    options: { range: HistoryRange; interval: HistoryInterval }
+  ) => Promise<PriceHistoryResponse>;
+  /** Units of `to` per unit of `from`, for major ISO currencies (see lib/market-data/fx.ts for minor units) */
+  getFxRate: (from: string, to: string) => Promise<{ rate: number; asOf: string }>;
+  /** Equity suggestions for a partial ticker or company name, most relevant first */
+  searchSymbols: (query: string) => Promise<SymbolSearchResult[]>;
+  /**
+   * Yield of a government bond index quoted in percent (e.g., "^TNX"), as a decimal.
+   * Non-critical: returns null instead of throwing when unavailable.
+   * Use lib/market-data/risk-free.ts to pick the benchmark for a currency.
+   */
+  getRiskFreeRate: (symbol: string) => Promise<{ rate: number; asOf: string } | null>;
+};
+
+// Factories (not instances) so providers with expensive setup are only
+// built when actually selected.
+const providers: Record<string, () => MarketDataProvider> = {
+  yahoo: () => yahooProvider,
+  // Same Yahoo code path, replaying recorded fixtures instead of calling the
+  // network (see lib/market-data/fixtures.ts). Distinct name so cached live
+  // and replayed data never mix.
+  fixture: () => ({ ...yahooProvider, name: "fixture" }),
+  // As-filed 10-K statements from SEC companyfacts files (US filers), Yahoo for the rest
+  sec: () => secProvider
+};
+
+/**
+ * Resolve the market data provider selected by configuration.
+ *
+ * @param name - Provider name; defaults to MARKET_DATA_PROVIDER env var, then "yahoo"
+ * @returns The matching provider implementation, wrapped in the cache when enabled
+ * @throws Error if no provider is registered under that name
+ */
+export function getMarketDataProvider(name = process.env.MARKET_DATA_PROVIDER || "yahoo"): MarketDataProvider {
+  const factory = providers[name.toLowerCase()];
+
+  if (!factory) {
+    throw new Error(`Unknown market data provider "${name}". Available: ${Object.keys(providers).join(", ")}.`);
+  }
+
+  const provider = factory();
+  return process.env.MARKET_DATA_CACHE === "off" ? provider : withCache(provider);
+}
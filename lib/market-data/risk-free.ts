@@ -0,0 +1,130 @@
+/**
+ * Risk-Free Rate Registry
+ *
+ * CAPM needs the risk-free rate of the currency the cash flows are in: a
+ * US 10Y yield understates the cost of equity for an Italian company (BTP
+ * yields are ~1pp higher) and overstates it for a Swiss one.
+ *
+ * Each benchmark is a 10-year government bond. Only the US 10Y has a live
+ * quote (^TNX); Yahoo has no dependable yield symbol for the other sovereigns,
+ * so they always come from a static table of recent yields (`source: "static"`).
+ * The US rate falls back to the same table when its quote is unavailable
+ * (`source: "fallback"`). The table can be updated without a deploy via
+ * RISK_FREE_FALLBACK_RATES, e.g. "IT=0.036,DE=0.026".
+ *
+ * Euro-area companies share a currency but not a sovereign, so for EUR the
+ * listing's exchange suffix (".MI", ".PA", ...) selects the country via the
+ * exchange registry; other euro listings use the Bund as the euro-area benchmark.
+ */
+import { resolveExchange } from "@/lib/market-data/exchanges";
+import { getMarketDataProvider, MarketDataProvider } from "@/lib/market-data/provider";
+import { toMajorCurrency } from "@/lib/currency";
+import { RiskFreeRateResponse } from "@/types/market";
+
+type RiskFreeBenchmark = {
+  country: string;          // ISO 3166 alpha-2 code of the issuer
+  label: string;            // Short name shown in the UI
+  currency: string;
+  symbol: string | null;    // Yield index quoted in percent; null when the provider has none
+  fallbackRate: number;     // Recent 10Y yield as a decimal, used when no live quote is available
+};
+
+// Fallback yields as of October 2026; refresh occasionally or override via env.
+const BENCHMARKS: Record<string, RiskFreeBenchmark> = {
+  US: { country: "US", label: "US 10Y", currency: "USD", symbol: "^TNX", fallbackRate: 0.042 },
+  DE: { country: "DE", label: "Bund 10Y", currency: "EUR", symbol: null, fallbackRate: 0.026 },
+  IT: { country: "IT", label: "BTP 10Y", currency: "EUR", symbol: null, fallbackRate: 0.035 },
+  FR: { country: "FR", label: "OAT 10Y", currency: "EUR", symbol: null, fallbackRate: 0.032 },
+  ES: { country: "ES", label: "Bono 10Y", currency: "EUR", symbol: null, fallbackRate: 0.031 },
+  NL: { country: "NL", label: "DSL 10Y", currency: "EUR", symbol: null, fallbackRate: 0.028 },
+  GB: { country: "GB", label: "Gilt 10Y", currency: "GBP", symbol: null, fallbackRate: 0.045 },
+  CH: { country: "CH", label: "Swiss 10Y", currency: "CHF", symbol: null, fallbackRate: 0.004 },
+  JP: { country: "JP", label: "JGB 10Y", currency: "JPY", symbol: null, fallbackRate: 0.016 },
+  CA: { country: "CA", label: "Canada 10Y", currency: "CAD", symbol: null, fallbackRate: 0.032 }
+};
+
+// Default benchmark per (major) currency
+const CURRENCY_BENCHMARK: Record<string, string> = {
+  USD: "US",
+  EUR: "DE",
+  GBP: "GB",
+  CHF: "CH",
+  JPY: "JP",
+  CAD: "CA"
+};
+
+// Accepted override range: catches yields written in percent ("IT=3.6")
+// while allowing the slightly negative yields seen for CHF and JPY
+const MIN_FALLBACK_RATE = -0.01;
+const MAX_FALLBACK_RATE = 0.2;
+
+/**
+ * Parse RISK_FREE_FALLBACK_RATES ("IT=0.036,DE=0.026") into country → rate.
+ * Malformed or out-of-range entries are ignored rather than failing every valuation.
+ */
+function getFallbackOverrides(): Record<string, number> {
+  const overrides: Record<string, number> = {};
+
+  for (const entry of (process.env.RISK_FREE_FALLBACK_RATES ?? "").split(",")) {
+    const [country, value] = entry.split("=").map((part) => part.trim());
+    const rate = Number(value);
+    if (country && value && Number.isFinite(rate) && rate >= MIN_FALLBACK_RATE && rate <= MAX_FALLBACK_RATE) {
+      overrides[country.toUpperCase()] = rate;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Pick the government bond benchmark for a currency (and, for euro listings, the ticker).
+ *
+ * @param currency - Trading currency of the ticker (e.g., "EUR", "GBp")
+ * @param ticker - Optional Yahoo ticker, used to pick the euro-area issuer
+ * @returns The benchmark, or null if no benchmark is configured for the currency
+ */
+export function resolveRiskFreeBenchmark(currency: string, ticker?: string): RiskFreeBenchmark | null {
+  const major = toMajorCurrency(currency).currency;
+
+  if (major === "EUR" && ticker) {
+    // Exchange suffix → issuer country; euro countries without a benchmark use the Bund
+    const country = resolveExchange(null, ticker)?.country;
+    if (country && BENCHMARKS[country]) return BENCHMARKS[country];
+  }
+
+  const country = CURRENCY_BENCHMARK[major];
+  return country ? BENCHMARKS[country] : null;
+}
+
+/**
+ * Resolve the risk-free rate for a currency, live when possible.
+ *
+ * @param currency - Trading currency of the ticker; defaults to USD
+ * @param ticker - Optional Yahoo ticker, used to pick the euro-area issuer
+ * @param provider - Market data provider; defaults to the configured one
+ * @returns The rate with its benchmark and source, or null if no benchmark is configured
+ */
+export async function getRiskFreeRate(
+  currency = "USD",
+  ticker?: string,
+  provider: MarketDataProvider = getMarketDataProvider()
+): Promise<RiskFreeRateResponse | null> {
+  const benchmark = resolveRiskFreeBenchmark(currency, ticker);
+  if (!benchmark) return null;
+
+  const { country, label } = benchmark;
+  const live = benchmark.symbol ? await provider.getRiskFreeRate(benchmark.symbol) : null;
+
+  if (live) {
+    return { ...live, country, label, currency: benchmark.currency, source: "market" };
+  }
+
+  return {
+    rate: getFallbackOverrides()[country] ?? benchmark.fallbackRate,
+    asOf: null,
+    country,
+    label,
+    currency: benchmark.currency,
+    source: benchmark.symbol ? "fallback" : "static"
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Outbound Call Scheduler
+ *
+ * Every call a provider makes to its vendor goes through one scheduler, which:
+ * - Coalesces identical in-flight calls: concurrent dashboard loads for the
+ *   same ticker share one request instead of firing duplicates
+ * - Spaces calls to a requests-per-second budget
+ * - Retries transient errors quickly, and rate limit (429) errors with a
+ *   longer exponential backoff plus jitter so retries don't arrive in lockstep
+ * - Opens a circuit breaker after repeated rate limit errors: while open,
+ *   calls fail fast with the vendor's rate limit error instead of adding to
+ *   the throttling. After the cooldown the breaker is half-open: the first
+ *   call goes out alone as the probe and the others keep failing fast until
+ *   it settles. A 429 on the probe reopens the breaker, a success closes it.
+ *
+ * State is per server process (one budget per serverless instance), which is
+ * what keeps a single instance from hammering the vendor.
+ */
+
+export type OutboundSchedulerOptions = {
+  requestsPerSecond: number;
+  retries: number;                // Extra attempts after the first, for any error
+  retryDelayMs: number;           // Transient errors: retryDelayMs × attempt number
+  rateLimitDelayMs: number;       // Rate limit errors: rateLimitDelayMs × 2^attempt, ±50% jitter
+  breakerThreshold: number;       // Consecutive rate limit errors that open the breaker
+  breakerCooldownMs: number;      // How long the breaker stays open
+  isRateLimited: (error: unknown) => boolean;
+  /** Error thrown while the breaker is open (should read as a rate limit to the routes) */
+  rateLimitError: () => Error;
+  // Injectable for tests
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+};
+
+export type OutboundScheduler = {
+  /**
+   * Run a vendor call under the scheduler.
+   *
+   * @param key - Identifies the call (function + arguments); concurrent calls with the same key share one result
+   * @param task - The raw vendor call
+   */
+  run: <T>(key: string, task: () => Promise<T>) => Promise<T>;
+  /** True while the breaker is failing calls fast (open, or half-open with the probe in flight) */
+  isOpen: () => boolean;
+};
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Create a scheduler for one vendor.
+ */
+export function createOutboundScheduler(options: OutboundSchedulerOptions): OutboundScheduler {
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? defaultSleep;
+  const random = options.random ?? Math.random;
+  const intervalMs = 1000 / Math.max(options.requestsPerSecond, 0.001);
+
+  const inFlight = new Map<string, Promise<unknown>>();
+  let nextSlotAt = 0;
+  let consecutiveRateLimits = 0;
+  let openUntil = 0;
+  let tripped = false;   // Opened and not yet closed by a success (half-open once the cooldown ends)
+  let probing = false;   // A half-open probe is in flight
+
+  const isOpen = () => now() < openUntil || (tripped && probing);
+
+  function failIfOpen() {
+    if (isOpen()) throw options.rateLimitError();
+  }
+
+  // Let a call through, as the probe when the breaker is half-open
+  function admit(): boolean {
+    failIfOpen();
+    if (!tripped) return false;
+    probing = true;
+    return true;
+  }
+
+  function openBreaker() {
+    tripped = true;
+    openUntil = now() + options.breakerCooldownMs;
+  }
+
+  // Reserve the next free slot in the budget, then wait for it
+  async function acquireSlot() {
+    const current = now();
+    const slot = Math.max(current, nextSlotAt);
+    nextSlotAt = slot + intervalMs;
+    if (slot > current) await sleep(slot - current);
+  }
+
+  async function execute<T>(task: () => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= options.retries; attempt += 1) {
+      failIfOpen();
+      await acquireSlot();
+      // The breaker may have opened while this call waited for its slot
+      const probe = admit();
+
+      try {
+        const result = await task();
+        consecutiveRateLimits = 0;
+        tripped = false;
+        if (probe) probing = false;
+        return result;
+      } catch (error) {
+        lastError = error;
+        if (probe) probing = false;
+
+        if (options.isRateLimited(error)) {
+          consecutiveRateLimits += 1;
+          if (probe || consecutiveRateLimits >= options.breakerThreshold) {
+            openBreaker();
+            throw options.rateLimitError();
+          }
+          if (attempt < options.retries) {
+            await sleep(options.rateLimitDelayMs * 2 ** attempt * (0.5 + random()));
+          }
+        } else if (attempt < options.retries) {
+          await sleep(options.retryDelayMs * (attempt + 1));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  return {
+    run<T>(key: string, task: () => Promise<T>): Promise<T> {
+      const pending = inFlight.get(key);
+      if (pending) return pending as Promise<T>;
+
+      const promise = execute(task).finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return promise;
+    },
+    isOpen
+  };
+}
@@ -0,0 +1,26 @@
+// SEC company facts implementation of the MarketDataProvider contract.
+// Statements and net debt come from the as-filed 10-K facts read by
+// lib/sec-client.ts; everything filings don't carry (quotes, prices,
+// estimates, FX, search, yields) is delegated to Yahoo. Tickers without a
+// companyfacts file (non-US listings) fall back to Yahoo fundamentals too.
+import type { MarketDataProvider } from "@/lib/market-data/provider";
+import { yahooProvider } from "@/lib/market-data/yahoo-provider";
+import { mapCompanyFacts, readCompanyFacts } from "@/lib/sec-client";
+
+export const secProvider: MarketDataProvider = {
+  ...yahooProvider,
+  name: "sec",
+  async getFundamentals(ticker, options = {}) {
+    const companyFacts = await readCompanyFacts(ticker);
+    if (!companyFacts) return yahooProvider.getFundamentals(ticker, options);
+
+    const { fundamentals } = mapCompanyFacts(ticker, companyFacts);
+    // 10-Q facts aren't mapped: no quarterly series, so no TTM basis
+    return options.period === "quarterly" ? { ...fundamentals, quarterly: [], ttm: null } : fundamentals;
+  },
+  async getNetDebtEstimate(ticker) {
+    const companyFacts = await readCompanyFacts(ticker);
+    const netDebt = companyFacts ? mapCompanyFacts(ticker, companyFacts).netDebt : null;
+    return netDebt ?? yahooProvider.getNetDebtEstimate(ticker);
+  }
+};
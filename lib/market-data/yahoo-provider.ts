@@ -0,0 +1,28 @@
+// Yahoo Finance implementation of the MarketDataProvider contract.
+// The heavy lifting (retries, schema quirks, error normalization) stays in
+// lib/yahoo-client.ts; this file only adapts it to the provider shape.
+import type { MarketDataProvider } from "@/lib/market-data/provider";
+import {
+  getAnalystEstimates,
+  getFundamentals,
+  getFxRate,
+  getNetDebtEstimate,
+  getPriceHistory,
+  getQuote,
+  getQuotes,
+  getRiskFreeRate,
+  searchSymbols
+} from "@/lib/yahoo-client";
+
+export const yahooProvider: MarketDataProvider = {
+  name: "yahoo",
+  getQuote,
+  getQuotes,
+  getFundamentals,
+  getNetDebtEstimate,
+  getAnalystEstimates,
+  getPriceHistory,
+  getFxRate,
+  searchSymbols,
+  getRiskFreeRate
+};
@@ -0,0 +1,350 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { summarizeDataQuality } from "@/lib/fundamentals/data-quality";
+import { AnnualFundamentalPoint, FieldProvenance, FundamentalsResponse } from "@/types/fundamentals";
+
+/**
+ * SEC XBRL Company Facts Client (server-only)
+ *
+ * Builds fundamentals from the as-filed 10-K numbers in SEC "companyfacts"
+ * JSON files (https://data.sec.gov/api/xbrl/companyfacts/CIK##########.json)
+ * instead of Yahoo's reclassified time series.
+ *
+ * Files are read from SEC_COMPANYFACTS_DIR (default "data/sec"), looked up as:
+ * 1. `<TICKER>.json` (e.g. AAPL.json, how uploads are stored), then
+ * 2. `CIK##########.json` via SEC's `company_tickers.json` dropped in the same directory.
+ *
+ * Only annual 10-K facts are used; 10-Q quarters need YTD differencing to be
+ * comparable and aren't mapped, so the quarterly series and TTM stay empty.
+ * There is no price data in filings: quotes and market ratios stay with Yahoo
+ * (see lib/market-data/sec-provider.ts).
+ */
+
+/** Single reported value of a concept, as in the companyfacts "units" arrays. */
+export type SecFact = {
+  start?: string;   // Period start (duration concepts only), YYYY-MM-DD
+  end: string;      // Period end, or the instant for balance sheet concepts
+  val: number;
+  fy?: number;
+  fp?: string;      // "FY", "Q1"... (fiscal period of the filing, not of the value)
+  form: string;     // "10-K", "10-K/A", "10-Q"...
+  filed: string;    // Filing date, YYYY-MM-DD
+};
+
+/** Subset of the SEC companyfacts document the mapper reads. */
+export type SecCompanyFacts = {
+  cik: number | string;
+  entityName?: string;
+  facts: Record<string, Record<string, { units?: Record<string, SecFact[]> }>>;
+};
+
+// us-gaap concepts per field, in order of preference. Filers switched revenue
+// tags after ASC 606 (2018) and some report cash flows under the older name,
+// so the first concept with a value for the year wins.
+const CONCEPTS = {
+  revenue: [
+    "Revenues",
+    "RevenueFromContractWithCustomerExcludingAssessedTax",
+    "RevenueFromContractWithCustomerIncludingAssessedTax",
+    "SalesRevenueNet"
+  ],
+  ebit: ["OperatingIncomeLoss"],
+  netIncome: ["NetIncomeLoss", "ProfitLoss"],
+  operatingCashFlow: ["NetCashProvidedByUsedInOperatingActivities", "NetCashProvidedByOperatingActivities"],
+  capex: ["PaymentsToAcquirePropertyPlantAndEquipment"],
+  totalAssets: ["Assets"],
+  totalEquity: ["StockholdersEquity"],
+  cash: ["CashAndCashEquivalentsAtCarryingValue"],
+  currentAssets: ["AssetsCurrent"],
+  currentLiabilities: ["LiabilitiesCurrent"],
+  goodwill: ["Goodwill"],
+  sharesOutstanding: ["CommonStockSharesOutstanding"],
+  dividendsPaid: ["PaymentsOfDividends", "PaymentsOfDividendsCommonStock"],
+  buybacks: ["PaymentsForRepurchaseOfCommonStock"]
+} as const;
+
+// Debt is split across several tags; "LongTermDebt" already includes the current portion
+const LONG_TERM_DEBT = ["LongTermDebt"];
+const LONG_TERM_DEBT_PARTS = ["LongTermDebtNoncurrent", "LongTermDebtCurrent"];
+const SHORT_TERM_DEBT = ["CommercialPaper", "ShortTermBorrowings"];
+
+const ANNUAL_FORMS = new Set(["10-K", "10-K/A"]);
+
+// Fiscal years run 52 or 53 weeks; anything outside this is a quarter or a
+// transition period
+const MIN_YEAR_DAYS = 350;
+const MAX_YEAR_DAYS = 380;
+
+// A decade of history, like the Yahoo time series
+const MAX_YEARS = 11;
+
+function getCompanyFactsDir(): string {
+  return path.resolve(process.env.SEC_COMPANYFACTS_DIR || "data/sec");
+}
+
+/**
+ * Whether a user may upload companyfacts files. Uploads replace the
+ * fundamentals every user sees for a ticker, so only the emails listed in
+ * SEC_UPLOAD_ADMINS (comma-separated) can; nobody when it is unset.
+ */
+export function canUploadCompanyFacts(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const admins = (process.env.SEC_UPLOAD_ADMINS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
+
+function durationDays(fact: SecFact): number | null {
+  if (!fact.start) return null;
+  return (Date.parse(fact.end) - Date.parse(fact.start)) / 86_400_000;
+}
+
+/**
+ * Annual values of one concept from 10-K filings, keyed by period end date.
+ *
+ * The same period appears in several filings (each 10-K repeats prior years
+ * as comparatives); the most recently filed value wins, so restatements
+ * replace the original figure.
+ *
+ * @param kind - "duration" for flows (income, cash flow), "instant" for balance sheet items
+ * @param unit - Unit key in the document ("USD", "shares"...)
+ */
+function annualValues(
+  companyFacts: SecCompanyFacts,
+  taxonomy: string,
+  concept: string,
+  kind: "duration" | "instant",
+  unit: string
+): Map<string, SecFact> {
+  const facts = companyFacts.facts[taxonomy]?.[concept]?.units?.[unit] ?? [];
+  const byEnd = new Map<string, SecFact>();
+
+  for (const fact of facts) {
+    if (!ANNUAL_FORMS.has(fact.form) || !Number.isFinite(fact.val)) continue;
+    if (kind === "duration") {
+      const days = durationDays(fact);
+      if (days === null || days < MIN_YEAR_DAYS || days > MAX_YEAR_DAYS) continue;
+    }
+    const existing = byEnd.get(fact.end);
+    if (!existing || fact.filed > existing.filed) byEnd.set(fact.end, fact);
+  }
+
+  return byEnd;
+}
+
+/**
+ * Currency of the statements: the money unit the revenue concepts are reported in.
+ */
+function statementCurrency(companyFacts: SecCompanyFacts): string {
+  for (const concept of CONCEPTS.revenue) {
+    const units = Object.keys(companyFacts.facts["us-gaap"]?.[concept]?.units ?? {});
+    const currency = units.find((unit) => /^[A-Z]{3}$/.test(unit));
+    if (currency) return currency;
+  }
+  return "USD";
+}
+
+/**
+ * Map a companyfacts document onto annual fundamentals.
+ *
+ * Years are the calendar year of the fiscal year end, as for Yahoo. FCF is
+ * operating cash flow minus capex (filings have no FCF line, so it's always
+ * "derived"); total debt is long-term debt (incl. current portion) plus
+ * commercial paper and short-term borrowings.
+ *
+ * @param ticker - Ticker to report in the response
+ * @param companyFacts - Parsed companyfacts JSON
+ * @returns Fundamentals plus the latest fiscal year's net debt (null if debt or cash is missing)
+ * @throws Error if the document has no annual revenue
+ */
+export function mapCompanyFacts(
+  ticker: string,
+  companyFacts: SecCompanyFacts
+): { fundamentals: FundamentalsResponse; netDebt: number | null } {
+  const currency = statementCurrency(companyFacts);
+  const usGaap = (concepts: readonly string[], kind: "duration" | "instant", unit: string = currency) =>
+    concepts.map((concept) => annualValues(companyFacts, "us-gaap", concept, kind, unit));
+  const pick = (series: Map<string, SecFact>[], end: string): number | null => {
+    for (const values of series) {
+      const fact = values.get(end);
+      if (fact) return fact.val;
+    }
+    return null;
+  };
+
+  const revenue = usGaap(CONCEPTS.revenue, "duration");
+  const ebit = usGaap(CONCEPTS.ebit, "duration");
+  const netIncome = usGaap(CONCEPTS.netIncome, "duration");
+  const operatingCashFlow = usGaap(CONCEPTS.operatingCashFlow, "duration");
+  const capex = usGaap(CONCEPTS.capex, "duration");
+  const dividends = usGaap(CONCEPTS.dividendsPaid, "duration");
+  const buybacks = usGaap(CONCEPTS.buybacks, "duration");
+  const totalAssets = usGaap(CONCEPTS.totalAssets, "instant");
+  const totalEquity = usGaap(CONCEPTS.totalEquity, "instant");
+  const cash = usGaap(CONCEPTS.cash, "instant");
+  const currentAssets = usGaap(CONCEPTS.currentAssets, "instant");
+  const currentLiabilities = usGaap(CONCEPTS.currentLiabilities, "instant");
+  const goodwill = usGaap(CONCEPTS.goodwill, "instant");
+  const shares = usGaap(CONCEPTS.sharesOutstanding, "instant", "shares");
+  const longTermDebt = usGaap(LONG_TERM_DEBT, "instant");
+  const longTermDebtParts = usGaap(LONG_TERM_DEBT_PARTS, "instant");
+  const shortTermDebt = usGaap(SHORT_TERM_DEBT, "instant");
+
+  // One point per fiscal year end with revenue, most recent first
+  const ends = [...new Set(revenue.flatMap((values) => [...values.keys()]))]
+    .sort((a, b) => b.localeCompare(a))
+    .slice(0, MAX_YEARS);
+
+  if (ends.length === 0) {
+    throw new Error(`No annual revenue in the SEC company facts for ${ticker.toUpperCase()}.`);
+  }
+
+  const sumOf = (series: Map<string, SecFact>[], end: string): number | null => {
+    const values = series.map((values) => values.get(end)?.val).filter((value): value is number => value !== undefined);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+  };
+
+  const rows = ends.map((end) => {
+    const revenueValue = pick(revenue, end) ?? 0;
+    const ebitValue = pick(ebit, end);
+    const netIncomeValue = pick(netIncome, end);
+    const ocf = pick(operatingCashFlow, end);
+    const capexValue = pick(capex, end);
+    const fcf = ocf !== null ? ocf - Math.abs(capexValue ?? 0) : null;
+    const presence = (value: number | null): FieldProvenance => (value === null ? "missing" : "reported");
+
+    const longTerm = pick(longTermDebt, end) ?? sumOf(longTermDebtParts, end);
+    const shortTerm = sumOf(shortTermDebt, end);
+    const totalDebt = longTerm === null && shortTerm === null ? null : (longTerm ?? 0) + (shortTerm ?? 0);
+    const cashValue = pick(cash, end);
+    const sharesOutstanding = pick(shares, end);
+    const dividendsPaid = pick(dividends, end);
+    const buybacksValue = pick(buybacks, end);
+
+    const point: AnnualFundamentalPoint = {
+      year: new Date(end).getUTCFullYear(),
+      periodEnd: end,
+      revenue: revenueValue,
+      ebit: ebitValue ?? 0,
+      netIncome: netIncomeValue ?? 0,
+      fcf: fcf ?? 0,
+      operatingMargin: revenueValue ? (ebitValue ?? 0) / revenueValue : 0,
+      netMargin: revenueValue ? (netIncomeValue ?? 0) / revenueValue : 0,
+      provenance: {
+        revenue: "reported",
+        ebit: presence(ebitValue),
+        netIncome: presence(netIncomeValue),
+        fcf: fcf !== null ? "derived" : "missing"
+      },
+      totalAssets: pick(totalAssets, end),
+      totalEquity: pick(totalEquity, end),
+      cash: cashValue,
+      totalDebt,
+      currentAssets: pick(currentAssets, end),
+      currentLiabilities: pick(currentLiabilities, end),
+      goodwill: pick(goodwill, end),
+      sharesOutstanding,
+      // Filings report payments as positive outflows already
+      dividendsPaid: dividendsPaid === null ? null : Math.abs(dividendsPaid),
+      dividendsPerShare: dividendsPaid !== null && sharesOutstanding ? Math.abs(dividendsPaid) / sharesOutstanding : null,
+      buybacks: buybacksValue === null ? null : Math.abs(buybacksValue)
+    };
+    return { point, netDebt: totalDebt !== null && cashValue !== null ? totalDebt - cashValue : null };
+  });
+
+  const annual = rows.map(({ point }, index) => {
+    const prior = rows[index + 1]?.point;
+    const netShareChange =
+      point.sharesOutstanding && prior?.sharesOutstanding && prior.year === point.year - 1
+        ? point.sharesOutstanding / prior.sharesOutstanding - 1
+        : null;
+    return { ...point, netShareChange };
+  });
+
+  const lastFiled = revenue
+    .flatMap((values) => [...values.values()])
+    .reduce((latest, fact) => (fact.filed > latest ? fact.filed : latest), "");
+
+  return {
+    fundamentals: {
+      ticker: ticker.toUpperCase(),
+      // US filers trade in USD; statements may still be in another currency
+      currency: "USD",
+      financialCurrency: currency,
+      annual,
+      ratios: { pe: null, pb: null, ps: null },
+      dataQuality: summarizeDataQuality(annual),
+      secFilings: {
+        cik: Number(companyFacts.cik),
+        entityName: companyFacts.entityName ?? ticker.toUpperCase(),
+        lastFiled
+      }
+    },
+    netDebt: rows[0].netDebt
+  };
+}
+
+async function readJson(file: string): Promise<unknown | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * CIK for a ticker from SEC's company_tickers.json
+ * (`{"0": {"cik_str": 320193, "ticker": "AAPL", "title": "Apple Inc."}, ...}`).
+ *
+ * @returns The CIK, or null without the file or an entry for the ticker
+ */
+export async function lookupCik(ticker: string): Promise<number | null> {
+  const map = (await readJson(path.join(getCompanyFactsDir(), "company_tickers.json"))) as
+    | Record<string, { cik_str: number; ticker: string }>
+    | null;
+  if (!map) return null;
+
+  const entry = Object.values(map).find((company) => company.ticker?.toUpperCase() === ticker.toUpperCase());
+  return entry ? entry.cik_str : null;
+}
+
+/**
+ * Check that a parsed JSON document looks like SEC companyfacts.
+ */
+export function isCompanyFacts(value: unknown): value is SecCompanyFacts {
+  const candidate = value as Partial<SecCompanyFacts> | null;
+  return Boolean(
+    candidate &&
+      typeof candidate === "object" &&
+      candidate.cik !== undefined &&
+      candidate.facts &&
+      typeof candidate.facts === "object" &&
+      candidate.facts["us-gaap"]
+  );
+}
+
+/**
+ * Path a ticker's companyfacts file is stored under (used for uploads).
+ */
+export function companyFactsPath(ticker: string): string {
+  return path.join(getCompanyFactsDir(), `${ticker.toUpperCase().replace(/[^A-Z0-9.-]/g, "_")}.json`);
+}
+
+/**
+ * Load the companyfacts document for a ticker from SEC_COMPANYFACTS_DIR.
+ *
+ * @returns The parsed document, or null if no file exists for the ticker
+ */
+export async function readCompanyFacts(ticker: string): Promise<SecCompanyFacts | null> {
+  const direct = await readJson(companyFactsPath(ticker));
+  if (isCompanyFacts(direct)) return direct;
+
+  const cik = await lookupCik(ticker);
+  if (cik === null) return null;
+
+  const byCik = await readJson(path.join(getCompanyFactsDir(), `CIK${String(cik).padStart(10, "0")}.json`));
+  return isCompanyFacts(byCik) ? byCik : null;
+}
@@ -1,15 +1,29 @@
-import { ScenarioInput, ScenarioResult } from "@/types/valuation";
+import { FundamentalsResponse } from "@/types/fundamentals";
+import { expandScenario, isMultiStageScenario, MAX_PROJECTION_YEARS } from "@/lib/valuation/multi-stage";
+import {
+  DcfScenario,
+  DiscountConvention,
+  ProjectionYear,
+  RevenueBasis,
+  ScenarioInput,
+  ScenarioResult
+} from "@/types/valuation";
 
 /**
- * DCF Engine (10-year + Gordon Growth terminal value)
+ * DCF Engine (explicit yearly projection + Gordon Growth terminal value)
  *
  * Design notes:
- * - We use a single-stage yearly projection for 10 years to keep the model
- *   transparent and easy to audit in UI.
- * - Revenue growth is split into years 1-5 and 6-10 to reflect growth decay.
+ * - We project each year explicitly (10 years by default, up to 30) to keep
+ *   the model transparent and easy to audit in UI.
+ * - Each year can carry its own growth, margin, tax and reinvestment; the
+ *   `ScenarioInput` shorthand splits growth into years 1-5 and 6-10 to
+ *   reflect growth decay and holds the rest constant.
  * - We derive free cash flow from NOPAT and reinvestment assumptions instead
  *   of requiring all accounting line items, because external APIs can have
  *   missing/inconsistent fields across regions.
+ * - Cash flows are discounted to a valuation date. When it falls partway
+ *   through projection year 1 (a stub period), only the unelapsed part of
+ *   year 1's cash flow counts and every flow is that much closer.
  */
 
 export type DcfInput = {
@@ -18,29 +32,127 @@ export type DcfInput = {
   sharesOutstanding: number;
   currentPrice: number;
   mosPercent: number;
-  scenario: ScenarioInput;
+  scenario: DcfScenario;
+  /** Default end-of-year flows valued as of the end of the starting period (no stub) */
+  timing?: DcfTiming;
+};
+
+export type DcfTiming = {
+  convention: DiscountConvention;
+  stubFraction: number;   // Share of projection year 1 already elapsed at the valuation date (0-1)
+};
+
+const DAYS_PER_YEAR = 365.25;
+
+/**
+ * Allowed [min, max] per shorthand scenario field (decimals).
+ *
+ * Multi-stage years reuse the years 1-5 growth range and the margin, tax and
+ * reinvestment ranges.
+ *
+ * NOTE: If you modify these bounds, update:
+ * - Default presets in lib/valuation/scenario-presets.ts
+ * - Frontend validation in components/scenario-panel.tsx
+ */
+export const SCENARIO_FIELD_BOUNDS: Record<keyof ScenarioInput, [number, number]> = {
+  revenueGrowthYears1to5: [-0.5, 0.6],
+  revenueGrowthYears6to10: [-0.5, 0.4],
+  operatingMarginTarget: [0, 0.8],
+  taxRate: [0, 0.6],
+  reinvestmentRate: [0, 0.9],
+  wacc: [0.03, 0.3],
+  terminalGrowth: [-0.02, 0.06]
 };
 
+/**
+ * Pick the revenue the projection starts from ("year 0").
+ *
+ * The last fiscal year can be almost a year stale by the time the next
+ * annual report is out; TTM revenue is the more current alternative when
+ * quarterly data is available.
+ *
+ * @param fundamentals - Fundamentals (must include `ttm` for the "ttm" basis)
+ * @param basis - "annual" (last fiscal year) or "ttm"
+ * @returns Positive starting revenue, or null if the requested basis is unavailable
+ */
+export function selectStartingRevenue(fundamentals: FundamentalsResponse, basis: RevenueBasis): number | null {
+  const revenue = basis === "ttm" ? fundamentals.ttm?.revenue : fundamentals.annual[0]?.revenue;
+  return revenue !== undefined && revenue > 0 ? revenue : null;
+}
+
+/**
+ * End date of the period the starting revenue covers ("year 0").
+ *
+ * @returns ISO date, or null when the source doesn't report fiscal year ends
+ *   (e.g., manually uploaded statements)
+ */
+export function selectStartingPeriodEnd(fundamentals: FundamentalsResponse, basis: RevenueBasis): string | null {
+  const periodEnd = basis === "ttm" ? fundamentals.ttm?.periodEnd : fundamentals.annual[0]?.periodEnd;
+  return periodEnd ?? null;
+}
+
+/**
+ * Share of projection year 1 already elapsed at the valuation date.
+ *
+ * Year 1 starts the day after the starting period ends; a valuation date
+ * four months later gives a stub fraction of about 1/3. Clamped to 0-1
+ * (0 when the period end is unknown or after the valuation date).
+ */
+export function computeStubFraction(periodEnd: string | null, valuationDate: string): number {
+  if (periodEnd === null) {
+    return 0;
+  }
+
+  const elapsedDays = (Date.parse(valuationDate) - Date.parse(periodEnd)) / (24 * 60 * 60 * 1000);
+  if (!Number.isFinite(elapsedDays)) {
+    return 0;
+  }
+
+  return Math.min(Math.max(elapsedDays / DAYS_PER_YEAR, 0), 1);
+}
+
 /**
  * Validate scenario constraints before running DCF.
  *
+ * Shorthand scenarios keep their original bounds; multi-stage scenarios are
+ * checked year by year (growth within the widest shorthand range).
+ *
  * Throws an Error if constraints are violated.
  */
-export function validateScenarioInput(scenario: ScenarioInput): void {
+export function validateScenarioInput(scenario: DcfScenario): void {
   if (scenario.wacc <= scenario.terminalGrowth) {
     throw new Error("WACC must be greater than terminal growth.");
   }
 
+  const bounds = SCENARIO_FIELD_BOUNDS;
   const bounded: Array<[number, number, number, string]> = [
-    [scenario.revenueGrowthYears1to5, -0.5, 0.6, "Revenue growth years 1-5"],
-    [scenario.revenueGrowthYears6to10, -0.5, 0.4, "Revenue growth years 6-10"],
-    [scenario.operatingMarginTarget, 0, 0.8, "Operating margin target"],
-    [scenario.taxRate, 0, 0.6, "Tax rate"],
-    [scenario.reinvestmentRate, 0, 0.9, "Reinvestment rate"],
-    [scenario.wacc, 0.03, 0.3, "WACC"],
-    [scenario.terminalGrowth, -0.02, 0.06, "Terminal growth"]
+    [scenario.wacc, ...bounds.wacc, "WACC"],
+    [scenario.terminalGrowth, ...bounds.terminalGrowth, "Terminal growth"]
   ];
 
+  if (isMultiStageScenario(scenario)) {
+    if (scenario.years.length === 0 || scenario.years.length > MAX_PROJECTION_YEARS) {
+      throw new Error(`Projection horizon must be between 1 and ${MAX_PROJECTION_YEARS} years.`);
+    }
+
+    scenario.years.forEach((year, index) => {
+      bounded.push(
+        [year.revenueGrowth, ...bounds.revenueGrowthYears1to5, `Year ${index + 1} revenue growth`],
+        [year.operatingMargin, ...bounds.operatingMarginTarget, `Year ${index + 1} operating margin`],
+        [year.taxRate, ...bounds.taxRate, `Year ${index + 1} tax rate`],
+        [year.reinvestmentRate, ...bounds.reinvestmentRate, `Year ${index + 1} reinvestment rate`]
+      );
+    });
+  } else {
+    bounded.unshift(
+      [scenario.revenueGrowthYears1to5, ...bounds.revenueGrowthYears1to5, "Revenue growth years 1-5"],
+      [scenario.revenueGrowthYears6to10, ...bounds.revenueGrowthYears6to10, "Revenue growth years 6-10"],
+      [scenario.operatingMarginTarget, ...bounds.operatingMarginTarget, "Operating margin target"],
+      [scenario.taxRate, ...bounds.taxRate, "Tax rate"],
+      [scenario.reinvestmentRate, ...bounds.reinvestmentRate, "Reinvestment rate"]
+    );
+  }
+
   for (const [value, min, max, label] of bounded) {
     if (value < min || value > max) {
       throw new Error(`${label} must be between ${min} and ${max}.`);
@@ -52,13 +164,22 @@ export function validateScenarioInput(scenario: ScenarioInput): void {
  * Compute a scenario fair value using a simplified but explicit DCF model.
  *
  * Algorithm:
- * 1. Project 10 years of free cash flows with two-phase revenue growth
+ * 1. Project free cash flows year by year (shorthand scenarios expand to 10
+ *    years with two-phase revenue growth)
  * 2. Calculate terminal value using Gordon Growth model
  * 3. Discount all cash flows to present value at WACC
  * 4. Convert enterprise value to equity value by subtracting net debt
  * 5. Divide by shares outstanding for per-share fair value
  * 6. Apply margin of safety adjustment
  *
+ * The per-year projection and terminal value are returned alongside the
+ * summary figures so the UI can show where the fair value comes from.
+ *
+ * Discounting: year N's flow is discounted by N - stub years (end-of-year)
+ * or N - 0.5 - stub (mid-year; year 1 at the midpoint of its unelapsed
+ * part). The terminal value is a value as of the end of the horizon under
+ * both conventions, so it's discounted by horizon - stub years.
+ *
  * @param input - Current financials, scenario assumptions, and margin of safety
  * @returns Valuation results including fair value and upside percentage
  * @throws Error if inputs are invalid or scenario constraints violated
@@ -71,44 +192,68 @@ export function runDcf(input: DcfInput): ScenarioResult {
     netDebt,
     sharesOutstanding,
     currentPrice,
-    mosPercent,
-    scenario
+    mosPercent
   } = input;
+  const scenario = expandScenario(input.scenario);
+  const horizon = scenario.years.length;
+  const convention = input.timing?.convention ?? "end-of-year";
+  const stub = Math.min(Math.max(input.timing?.stubFraction ?? 0, 0), 1);
 
   if (currentRevenue <= 0 || sharesOutstanding <= 0 || currentPrice <= 0) {
     throw new Error("Revenue, shares outstanding, and current price must be positive.");
   }
 
-  // Step 1: Project 10 years of explicit free cash flows
+  // Step 1: Project explicit free cash flows
   let revenue = currentRevenue;
   let discountedFcfSum = 0;
+  const projection: ProjectionYear[] = [];
 
-  for (let year = 1; year <= 10; year += 1) {
-    const growth = year <= 5 ? scenario.revenueGrowthYears1to5 : scenario.revenueGrowthYears6to10;
-    revenue *= 1 + growth;
+  for (let year = 1; year <= horizon; year += 1) {
+    const assumptions = scenario.years[year - 1];
+    revenue *= 1 + assumptions.revenueGrowth;
 
-    const ebit = revenue * scenario.operatingMarginTarget;
-    const nopat = ebit * (1 - scenario.taxRate);
+    const ebit = revenue * assumptions.operatingMargin;
+    const nopat = ebit * (1 - assumptions.taxRate);
 
     // Subtract reinvestment from NOPAT so growth is not "free" in the model
-    const fcf = nopat * (1 - scenario.reinvestmentRate);
+    const fcf = nopat * (1 - assumptions.reinvestmentRate);
+
+    // Part of year 1 is already behind the valuation date under a stub period
+    const remainingShare = year === 1 ? 1 - stub : 1;
+    const discountPeriod = convention === "mid-year"
+      ? year - stub - remainingShare / 2
+      : year - stub;
+    const discountFactor = 1 / (1 + scenario.wacc) ** discountPeriod;
+    const presentValue = fcf * remainingShare * discountFactor;
+    discountedFcfSum += presentValue;
 
-    const discountFactor = (1 + scenario.wacc) ** year;
-    discountedFcfSum += fcf / discountFactor;
+    projection.push({
+      year,
+      revenue,
+      revenueGrowth: assumptions.revenueGrowth,
+      ebit,
+      operatingMargin: assumptions.operatingMargin,
+      nopat,
+      fcf,
+      discountPeriod,
+      discountFactor,
+      presentValue
+    });
   }
 
   // Step 2: Calculate terminal value using Gordon Growth formula
-  // Terminal value = FCF(year 11) / (WACC - g)
-  const terminalYearEbit = revenue * scenario.operatingMarginTarget;
-  const terminalYearNopat = terminalYearEbit * (1 - scenario.taxRate);
-  const terminalYearFcf = terminalYearNopat * (1 - scenario.reinvestmentRate);
+  // Terminal value = FCF(horizon + 1) / (WACC - g), at the final year's margin, tax and reinvestment
+  const finalYear = scenario.years[horizon - 1];
+  const terminalYearEbit = revenue * finalYear.operatingMargin;
+  const terminalYearNopat = terminalYearEbit * (1 - finalYear.taxRate);
+  const terminalYearFcf = terminalYearNopat * (1 - finalYear.reinvestmentRate);
   const terminalFcf = terminalYearFcf * (1 + scenario.terminalGrowth);
 
   const terminalValue = terminalFcf / (scenario.wacc - scenario.terminalGrowth);
-  const discountedTerminal = terminalValue / (1 + scenario.wacc) ** 10;
+  const discountedTerminalValue = terminalValue / (1 + scenario.wacc) ** (horizon - stub);
 
   // Step 3: Sum present values to get enterprise value
-  const enterpriseValue = discountedFcfSum + discountedTerminal;
+  const enterpriseValue = discountedFcfSum + discountedTerminalValue;
 
   // Step 4: Convert to equity value and per-share fair value
   const equityValue = enterpriseValue - netDebt;
@@ -123,6 +268,10 @@ export function runDcf(input: DcfInput): ScenarioResult {
     equityValue,
     fairValuePerShare,
     fairValueAfterMos,
-    upsideVsPricePercent
+    upsideVsPricePercent,
+    projection,
+    terminalValue,
+    discountedTerminalValue,
+    terminalValueShare: discountedTerminalValue / enterpriseValue
   };
 }
@@ -0,0 +1,128 @@
+/**
+ * Valuation inputs loader
+ *
+ * Gathers what every DCF route needs for a ticker: quote, fundamentals
+ * (the signed-in user's uploaded statements replace provider data), net
+ * debt, shares outstanding, the statements → trading currency rate and the
+ * discounting setup. Revenue and net debt come back in the trading currency
+ * so fair values compare to the price.
+ */
+import { manualToFundamentalsResponse } from "@/lib/fundamentals/manual-import";
+import { getManualOverride } from "@/lib/fundamentals/manual-store";
+import { getFxRate } from "@/lib/market-data/fx";
+import { getMarketDataProvider, MarketDataProvider } from "@/lib/market-data/provider";
+import {
+  computeStubFraction,
+  DcfInput,
+  selectStartingPeriodEnd,
+  selectStartingRevenue
+} from "@/lib/valuation/dcf";
+import { FundamentalsResponse, ManualFundamentals } from "@/types/fundamentals";
+import { FxRate, QuoteResponse } from "@/types/market";
+import { DiscountConvention, DiscountingInfo, RevenueBasis } from "@/types/valuation";
+
+export type ValuationInputOptions = {
+  revenueBasis: RevenueBasis;
+  discountConvention: DiscountConvention;
+  valuationDate?: string;              // YYYY-MM-DD; default: the end of the starting period (no stub)
+  sharesOutstandingOverride?: number;
+};
+
+export type ValuationInputs = {
+  quote: QuoteResponse;
+  fundamentals: FundamentalsResponse;
+  fx: FxRate;
+  /** Everything `runDcf` needs except the scenario and margin of safety */
+  dcf: Omit<DcfInput, "scenario" | "mosPercent">;
+  discounting: DiscountingInfo;
+};
+
+/**
+ * Net debt for uploaded statements, in the upload's currency.
+ *
+ * Files without net debt borrow the provider's estimate only when the
+ * provider reports in the same currency: the FX rate applied later is the
+ * upload's, so a figure in any other currency would be mis-scaled.
+ *
+ * @returns Net debt, or null when neither source has a usable figure
+ */
+async function loadManualNetDebt(manual: ManualFundamentals, provider: MarketDataProvider): Promise<number | null> {
+  if (typeof manual.netDebt === "number") return manual.netDebt;
+
+  const reported = await provider.getFundamentals(manual.ticker).catch(() => null);
+  if (reported?.financialCurrency !== manual.currency) return null;
+  return provider.getNetDebtEstimate(manual.ticker);
+}
+
+/**
+ * Load and convert the DCF inputs for a ticker.
+ *
+ * @returns The inputs, or a user-facing error when required data is missing
+ *   (routes answer 422)
+ * @throws Provider errors (rate limits, unknown tickers)
+ */
+export async function loadValuationInputs(
+  ticker: string,
+  options: ValuationInputOptions
+): Promise<{ inputs: ValuationInputs } | { error: string }> {
+  // Fetch market data in parallel for speed
+  const provider = getMarketDataProvider();
+  const manual = await getManualOverride(ticker);
+  const [quote, fundamentals, netDebt] = await Promise.all([
+    provider.getQuote(ticker),
+    manual
+      ? manualToFundamentalsResponse(manual)
+      // TTM needs the quarterly series; annual-only requests skip that extra fetch
+      : provider.getFundamentals(ticker, { period: options.revenueBasis === "ttm" ? "quarterly" : "annual" }),
+    manual ? loadManualNetDebt(manual, provider) : provider.getNetDebtEstimate(ticker)
+  ]);
+
+  if (netDebt === null) {
+    return {
+      error: "The uploaded statements have no net debt, and the provider's figure is in another currency. Add net debt (or total debt and cash) to the file."
+    };
+  }
+
+  // Validate required fundamental data
+  const reportedRevenue = selectStartingRevenue(fundamentals, options.revenueBasis);
+  if (reportedRevenue === null) {
+    return {
+      error: options.revenueBasis === "ttm"
+        ? "Trailing twelve months revenue unavailable (needs four consecutive quarters). Use the annual basis."
+        : "Missing revenue data for valuation."
+    };
+  }
+
+  // Use manual override if provided, otherwise use Yahoo Finance data
+  // Some non-US tickers don't expose shares outstanding via Yahoo API
+  const sharesOutstanding = options.sharesOutstandingOverride ?? manual?.sharesOutstanding ?? quote.sharesOutstanding;
+  if (!sharesOutstanding || sharesOutstanding <= 0) {
+    return { error: "Missing shares outstanding." };
+  }
+
+  // Statement amounts → trading currency (rate is 1 when they already match)
+  const fx = await getFxRate(fundamentals.financialCurrency, quote.currency, provider);
+
+  // Only an explicit valuation date discounts to a stub: the part of year 1
+  // since the starting period ended. Without one, flows are valued as of the
+  // period end, which may be close to a year back before the next annual report
+  const valuationDate = options.valuationDate ?? null;
+  const periodEnd = selectStartingPeriodEnd(fundamentals, options.revenueBasis);
+  const stubFraction = valuationDate === null ? 0 : computeStubFraction(periodEnd, valuationDate);
+
+  return {
+    inputs: {
+      quote,
+      fundamentals,
+      fx,
+      dcf: {
+        currentRevenue: reportedRevenue * fx.rate,
+        netDebt: netDebt * fx.rate,
+        sharesOutstanding,
+        currentPrice: quote.regularMarketPrice,
+        timing: { convention: options.discountConvention, stubFraction }
+      },
+      discounting: { convention: options.discountConvention, valuationDate, periodEnd, stubFraction }
+    }
+  };
+}
@@ -0,0 +1,196 @@
+import { DcfInput, runDcf, SCENARIO_FIELD_BOUNDS } from "@/lib/valuation/dcf";
+import {
+  MonteCarloDistributions,
+  MonteCarloResult,
+  ParameterDistribution,
+  ScenarioInput,
+  ScenariosInput
+} from "@/types/valuation";
+
+/**
+ * Monte Carlo valuation
+ *
+ * Instead of three hand-picked points, each scenario field can follow a
+ * distribution; thousands of DCF runs then give a distribution of fair
+ * values. Runs are reproducible: the same seed gives the same draws.
+ *
+ * Revenue growth (years 1-5) and operating margin can be correlated through
+ * a Gaussian copula: their draws share correlated standard normals, which
+ * are mapped through each field's own distribution.
+ */
+
+type ScenarioField = keyof ScenarioInput;
+
+const FIELDS = Object.keys(SCENARIO_FIELD_BOUNDS) as ScenarioField[];
+
+export const DEFAULT_MONTE_CARLO_RUNS = 5000;
+export const MAX_MONTE_CARLO_RUNS = 20000;
+
+const PERCENTILES = [5, 10, 25, 50, 75, 90, 95] as const;
+
+export type MonteCarloOptions = {
+  dcf: Omit<DcfInput, "scenario" | "mosPercent">;
+  base: ScenarioInput;                   // Values for fields without a distribution
+  distributions: MonteCarloDistributions;
+  correlation?: number;                  // Growth (years 1-5) × operating margin, -1 to 1
+  runs?: number;
+  seed: number;
+  bins?: number;                         // Histogram bins (default 30)
+};
+
+/**
+ * Seeded pseudo-random generator (mulberry32): uniform numbers in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal via Box-Muller (the 1 - u keeps log away from 0)
+function standardNormal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Map a standard normal draw to a sample of the distribution.
+ *
+ * Normal draws use `z` directly; triangular and uniform draws go through
+ * the normal CDF and their inverse CDF, which preserves correlation between
+ * fields that share correlated normals.
+ */
+export function sampleDistribution(distribution: ParameterDistribution, z: number): number {
+  if (distribution.type === "normal") {
+    return distribution.mean + distribution.stdDev * z;
+  }
+
+  const u = normalCdf(z);
+  if (distribution.type === "uniform") {
+    return distribution.min + (distribution.max - distribution.min) * u;
+  }
+
+  const { min, mode, max } = distribution;
+  const split = max > min ? (mode - min) / (max - min) : 0;
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Distributions spanning the bull/bear spread: triangular from the lowest to
+ * the highest of the three scenarios, peaking at the base case. Fields equal
+ * in all three scenarios stay fixed.
+ */
+export function distributionsFromScenarios(scenarios: ScenariosInput): MonteCarloDistributions {
+  const distributions: MonteCarloDistributions = {};
+
+  for (const field of FIELDS) {
+    const values = [scenarios.bull[field], scenarios.base[field], scenarios.bear[field]];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    if (max > min) {
+      distributions[field] = { type: "triangular", min, mode: scenarios.base[field], max };
+    }
+  }
+
+  return distributions;
+}
+
+/**
+ * Run the simulation.
+ *
+ * Each draw is clamped to the field's input bounds; draws where WACC doesn't
+ * exceed terminal growth can't be valued and are discarded (reported in
+ * `discardedRuns`). Statistics are on fair value per share before margin of
+ * safety, compared to the current price.
+ */
+export function runMonteCarlo(options: MonteCarloOptions): MonteCarloResult {
+  const runs = Math.min(Math.max(Math.round(options.runs ?? DEFAULT_MONTE_CARLO_RUNS), 1), MAX_MONTE_CARLO_RUNS);
+  const correlation = Math.min(Math.max(options.correlation ?? 0, -1), 1);
+  const bins = Math.max(Math.round(options.bins ?? 30), 1);
+  const random = createRng(options.seed);
+
+  const values: number[] = [];
+  let discardedRuns = 0;
+
+  for (let run = 0; run < runs; run += 1) {
+    const scenario: ScenarioInput = { ...options.base };
+    const growthZ = standardNormal(random);
+
+    for (const field of FIELDS) {
+      const distribution = options.distributions[field];
+      if (!distribution) continue;
+
+      // Margin shares the growth draw to the extent of the correlation
+      const z = field === "revenueGrowthYears1to5"
+        ? growthZ
+        : field === "operatingMarginTarget"
+          ? correlation * growthZ + Math.sqrt(1 - correlation ** 2) * standardNormal(random)
+          : standardNormal(random);
+
+      const [min, max] = SCENARIO_FIELD_BOUNDS[field];
+      scenario[field] = Math.min(Math.max(sampleDistribution(distribution, z), min), max);
+    }
+
+    if (scenario.wacc <= scenario.terminalGrowth) {
+      discardedRuns += 1;
+      continue;
+    }
+
+    values.push(runDcf({ ...options.dcf, mosPercent: 0, scenario }).fairValuePerShare);
+  }
+
+  if (values.length === 0) {
+    throw new Error("Every simulated scenario had WACC at or below terminal growth.");
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const aboveCount = values.filter((value) => value > options.dcf.currentPrice).length;
+
+  // Bins span the 1st-99th percentiles so a few extreme runs don't flatten the chart;
+  // runs outside that range land in the edge bins
+  const low = percentile(sorted, 1);
+  const high = percentile(sorted, 99);
+  const width = (high - low) / bins || 1;
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    from: low + index * width,
+    to: low + (index + 1) * width,
+    count: 0
+  }));
+  for (const value of sorted) {
+    const index = Math.min(Math.max(Math.floor((value - low) / width), 0), bins - 1);
+    histogram[index].count += 1;
+  }
+
+  return {
+    runs: values.length,
+    discardedRuns,
+    seed: options.seed,
+    mean,
+    percentiles: Object.fromEntries(PERCENTILES.map((p) => [`p${p}`, percentile(sorted, p)])) as MonteCarloResult["percentiles"],
+    probabilityAbovePrice: aboveCount / values.length,
+    histogram
+  };
+}
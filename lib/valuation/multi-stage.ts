@@ -0,0 +1,120 @@
+import {
+  DcfScenario,
+  MultiStageScenarioInput,
+  ProjectionAnchor,
+  ProjectionYearAssumptions
+} from "@/types/valuation";
+
+/**
+ * Multi-stage projection helpers
+ *
+ * The DCF engine works on explicit per-year assumptions. The classic
+ * `ScenarioInput` (two growth rates, one margin/tax/reinvestment) is a
+ * shorthand for the common 10-year case and expands into that form, so
+ * scenarios saved before per-year assumptions existed value exactly as before.
+ */
+
+/** Default explicit horizon, matching the original 10-year model */
+export const DEFAULT_PROJECTION_YEARS = 10;
+
+/** Longest explicit horizon accepted (beyond it the terminal value should take over) */
+export const MAX_PROJECTION_YEARS = 30;
+
+export function isMultiStageScenario(scenario: DcfScenario): scenario is MultiStageScenarioInput {
+  return Array.isArray((scenario as MultiStageScenarioInput).years);
+}
+
+/**
+ * Linearly interpolate values between anchor years.
+ *
+ * Years before the first anchor take its value, years after the last anchor
+ * keep the last value.
+ *
+ * @param anchors - [year, value] pairs (1-based years, any order)
+ * @param horizonYears - Number of projection years to fill
+ * @returns One value per year, year 1 first
+ *
+ * @example
+ * fadeLinear([[1, 0.2], [5, 0.1]], 6) // [0.2, 0.175, 0.15, 0.125, 0.1, 0.1]
+ */
+export function fadeLinear(anchors: Array<[number, number]>, horizonYears: number): number[] {
+  if (anchors.length === 0) {
+    throw new Error("At least one anchor year is required.");
+  }
+
+  const sorted = [...anchors].sort((a, b) => a[0] - b[0]);
+  const values: number[] = [];
+
+  for (let year = 1; year <= horizonYears; year += 1) {
+    const nextIndex = sorted.findIndex(([anchorYear]) => anchorYear >= year);
+
+    if (nextIndex === -1) {
+      values.push(sorted[sorted.length - 1][1]);
+    } else if (nextIndex === 0 || sorted[nextIndex][0] === year) {
+      values.push(sorted[nextIndex][1]);
+    } else {
+      const [fromYear, fromValue] = sorted[nextIndex - 1];
+      const [toYear, toValue] = sorted[nextIndex];
+      values.push(fromValue + ((toValue - fromValue) * (year - fromYear)) / (toYear - fromYear));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Build per-year assumptions that fade linearly between anchor years.
+ *
+ * Each field fades independently, e.g. growth from 25% in year 1 to 4% in
+ * year 12 while the margin expands from 10% to 30% by year 8.
+ */
+export function fadeProjectionYears(anchors: ProjectionAnchor[], horizonYears: number): ProjectionYearAssumptions[] {
+  const fields: Array<keyof ProjectionYearAssumptions> = ["revenueGrowth", "operatingMargin", "taxRate", "reinvestmentRate"];
+  const series = fields.map((field) => fadeLinear(anchors.map((anchor) => [anchor.year, anchor[field]]), horizonYears));
+
+  return Array.from({ length: horizonYears }, (_, index) => ({
+    revenueGrowth: series[0][index],
+    operatingMargin: series[1][index],
+    taxRate: series[2][index],
+    reinvestmentRate: series[3][index]
+  }));
+}
+
+/**
+ * Expand a shorthand scenario into per-year assumptions.
+ *
+ * Years 1-5 use `revenueGrowthYears1to5`, years 6-10 `revenueGrowthYears6to10`.
+ * A horizon beyond 10 years fades growth linearly from the years 6-10 rate
+ * to the terminal growth rate in the final year. Multi-stage scenarios are
+ * returned as-is.
+ *
+ * @param scenario - Shorthand or multi-stage scenario
+ * @param horizonYears - Explicit horizon for shorthand scenarios (default 10)
+ */
+export function expandScenario(scenario: DcfScenario, horizonYears = DEFAULT_PROJECTION_YEARS): MultiStageScenarioInput {
+  if (isMultiStageScenario(scenario)) {
+    return scenario;
+  }
+
+  const anchors: Array<[number, number]> = [
+    [1, scenario.revenueGrowthYears1to5],
+    [5, scenario.revenueGrowthYears1to5],
+    [6, scenario.revenueGrowthYears6to10]
+  ];
+  if (horizonYears > DEFAULT_PROJECTION_YEARS) {
+    anchors.push([DEFAULT_PROJECTION_YEARS, scenario.revenueGrowthYears6to10], [horizonYears, scenario.terminalGrowth]);
+  }
+
+  const growth = fadeLinear(anchors, horizonYears);
+
+  return {
+    years: growth.map((revenueGrowth) => ({
+      revenueGrowth,
+      operatingMargin: scenario.operatingMarginTarget,
+      taxRate: scenario.taxRate,
+      reinvestmentRate: scenario.reinvestmentRate
+    })),
+    wacc: scenario.wacc,
+    terminalGrowth: scenario.terminalGrowth
+  };
+}
@@ -0,0 +1,72 @@
+import { DcfInput, runDcf, SCENARIO_FIELD_BOUNDS } from "@/lib/valuation/dcf";
+import { ImpliedValueResult, ImpliedVariable, ScenarioInput } from "@/types/valuation";
+
+/**
+ * Reverse DCF
+ *
+ * Answers the opposite question to `runDcf`: holding every other scenario
+ * assumption fixed, which value of one variable makes the fair value per
+ * share equal today's price? Fair value is monotonic in each solvable
+ * variable (rising with growth and margin, falling with WACC), so bisection
+ * between the input bounds always converges when a solution exists.
+ */
+
+export type ReverseDcfInput = Omit<DcfInput, "scenario"> & { scenario: ScenarioInput };
+
+// WACC must stay above terminal growth; this keeps the lower bound valid
+const MIN_WACC_SPREAD = 0.0001;
+
+/**
+ * Solve for the value of `variable` that prices the stock at `currentPrice`.
+ *
+ * Compares against the fair value before margin of safety: the market price
+ * is what the market thinks the shares are worth, not a buy target.
+ *
+ * @param input - DCF inputs with a shorthand scenario holding the fixed assumptions
+ * @param variable - Scenario field to solve for
+ * @param tolerance - Stop once the bracket is narrower than this (decimal)
+ * @returns Implied value, or null with the side of the bounds the solution lies beyond
+ */
+export function solveImpliedValue(
+  input: ReverseDcfInput,
+  variable: ImpliedVariable,
+  tolerance = 1e-6
+): ImpliedValueResult {
+  let [low, high] = SCENARIO_FIELD_BOUNDS[variable];
+  if (variable === "wacc") {
+    low = Math.max(low, input.scenario.terminalGrowth + MIN_WACC_SPREAD);
+  }
+
+  // Fair value minus price at a candidate value; the root is the implied value
+  const gap = (value: number) =>
+    runDcf({ ...input, scenario: { ...input.scenario, [variable]: value } }).fairValuePerShare - input.currentPrice;
+
+  let gapLow = gap(low);
+  const gapHigh = gap(high);
+  const increasing = gapHigh > gapLow;
+
+  // Same sign at both ends: no value within the bounds reprices the stock
+  if (gapLow * gapHigh > 0) {
+    const belowRange = increasing ? gapLow > 0 : gapLow < 0;
+    return { variable, value: null, outOfRange: belowRange ? "below" : "above", iterations: 0 };
+  }
+
+  let iterations = 0;
+  while (high - low > tolerance) {
+    iterations += 1;
+    const mid = (low + high) / 2;
+    const gapMid = gap(mid);
+
+    if (gapMid === 0) {
+      return { variable, value: mid, outOfRange: null, iterations };
+    }
+    if (gapMid * gapLow < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      gapLow = gapMid;
+    }
+  }
+
+  return { variable, value: (low + high) / 2, outOfRange: null, iterations };
+}
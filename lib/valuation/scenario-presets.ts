@@ -1,4 +1,5 @@
-import { FundamentalsResponse } from "@/types/fundamentals";
+import { AnomalyBounds, detectAnomalies, excludeAnomalousYears } from "@/lib/fundamentals/anomalies";
+import { AnnualFundamentalPoint, FundamentalsResponse } from "@/types/fundamentals";
 import { AnalystEstimates, ScenarioInput, ScenariosInput } from "@/types/valuation";
 
 /**
@@ -89,7 +90,9 @@ function computeRevenueCAGR(annual: FundamentalsResponse["annual"]): number | nu
 
   if (startRevenue <= 0 || endRevenue <= 0) return null;
 
-  const years = annual.length - 1;
+  // Year span rather than point count: excluded anomalous years leave gaps
+  const years = annual[0].year - annual[annual.length - 1].year;
+  if (years <= 0) return null;
   return Math.pow(endRevenue / startRevenue, 1 / years) - 1;
 }
 
@@ -122,13 +125,14 @@ function deriveEffectiveTaxRate(annual: FundamentalsResponse["annual"]): number
  */
 function deriveReinvestmentRate(
   annual: FundamentalsResponse["annual"],
-  estimates: AnalystEstimates
+  estimates: AnalystEstimates,
+  defaultTaxRate: number
 ): number | null {
   // Prefer current FCF from financialData — this is the most reliable source
   // because Yahoo's cashflowStatementHistory module was deprecated Nov 2024
   if (estimates.freeCashflow !== null && estimates.totalRevenue !== null && estimates.operatingMargins !== null) {
     const currentEbit = estimates.totalRevenue * estimates.operatingMargins;
-    const effectiveTax = deriveEffectiveTaxRate(annual) ?? 0.22;
+    const effectiveTax = deriveEffectiveTaxRate(annual) ?? defaultTaxRate;
     const currentNopat = currentEbit * (1 - effectiveTax);
     if (currentNopat > 0) {
       return clamp(1 - estimates.freeCashflow / currentNopat, 0.05, 0.70);
@@ -137,7 +141,7 @@ function deriveReinvestmentRate(
 
   // Fallback to historical data (may be incomplete for some tickers)
   for (const point of annual) {
-    const nopat = point.ebit * (1 - (point.ebit > 0 && point.netIncome > 0 ? 1 - point.netIncome / point.ebit : 0.22));
+    const nopat = point.ebit * (1 - (point.ebit > 0 && point.netIncome > 0 ? 1 - point.netIncome / point.ebit : defaultTaxRate));
     if (nopat > 0 && point.fcf !== 0) {
       return clamp(1 - point.fcf / nopat, 0.05, 0.70);
     }
@@ -145,6 +149,31 @@ function deriveReinvestmentRate(
   return null;
 }
 
+/**
+ * Annual history the company scenarios are built from, and the years left out.
+ *
+ * Nothing is dropped unless `excludeAnomalousYears` is set, nor when every
+ * year is flagged (excludeAnomalousYears then keeps the full series), so
+ * `excludedYears` lists only the years the scenarios actually ignore.
+ *
+ * @param annual - Annual points, most recent first
+ * @param options - `excludeAnomalousYears` (default false) and `anomalyBounds` overrides
+ * @returns Kept points and the dropped fiscal years, most recent first
+ */
+export function selectScenarioHistory(
+  annual: AnnualFundamentalPoint[],
+  options: { excludeAnomalousYears?: boolean; anomalyBounds?: Partial<AnomalyBounds> } = {}
+): { annual: AnnualFundamentalPoint[]; excludedYears: number[] } {
+  if (!options.excludeAnomalousYears) {
+    return { annual, excludedYears: [] };
+  }
+
+  const kept = excludeAnomalousYears(annual, detectAnomalies(annual, options.anomalyBounds));
+  const keptYears = new Set(kept.map((point) => point.year));
+  const excludedYears = [...new Set(annual.map((point) => point.year))].filter((year) => !keptYears.has(year));
+  return { annual: kept, excludedYears };
+}
+
 /**
  * Generate company-specific bull/base/bear scenarios using real financial data.
  *
@@ -156,18 +185,28 @@ function deriveReinvestmentRate(
  *
  * Fallback chain for revenue growth: analyst 5yr → historical CAGR → TTM growth → 5%
  * Fallback chain for margins: latest actual → 3yr average → generic 18%
+ * Fallback chain for tax rate: effective rate from statements → country statutory rate → 22%
+ *
+ * With `excludeAnomalousYears`, years flagged by detectAnomalies (writedowns,
+ * restatements, acquisitions) are left out of the historical figures so a
+ * single one-off doesn't drag the multi-year margin average.
  *
  * @param fundamentals - Historical financial statements
  * @param estimates - Analyst consensus estimates (nullable fields)
- * @param riskFreeRate - Current risk-free rate (e.g. US 10Y Treasury yield). Defaults to 4.5% if not provided.
+ * @param riskFreeRate - Current risk-free rate for the company's currency (e.g. BTP 10Y for an Italian listing,
+ *   see lib/market-data/risk-free.ts). Defaults to 4.5% if not provided.
+ * @param options - `excludeAnomalousYears` (default false), `anomalyBounds` overrides, and
+ *   `defaultTaxRate`: statutory rate of the listing's country (see lib/market-data/exchanges.ts),
+ *   used when no effective rate can be derived from the statements (default 22%)
  * @returns Company-specific scenarios; falls back to generic defaults if data is insufficient
  */
 export function getCompanyScenarios(
   fundamentals: FundamentalsResponse,
   estimates: AnalystEstimates,
-  riskFreeRate?: number
+  riskFreeRate?: number,
+  options: { excludeAnomalousYears?: boolean; anomalyBounds?: Partial<AnomalyBounds>; defaultTaxRate?: number } = {}
 ): ScenariosInput {
-  const { annual } = fundamentals;
+  const { annual } = selectScenarioHistory(fundamentals.annual, options);
 
   // Revenue growth: prefer analyst 5-year estimate, then CAGR, then TTM, then 5%
   const baseGrowthY1to5 =
@@ -193,8 +232,9 @@ export function getCompanyScenarios(
     : null;
   const baseMargin = avgMargin5yr ?? avgMargin3yr ?? estimates.operatingMargins ?? latestMargin ?? 0.18;
 
-  const baseTaxRate = deriveEffectiveTaxRate(annual) ?? 0.22;
-  const baseReinvestmentRate = deriveReinvestmentRate(annual, estimates) ?? 0.30;
+  const defaultTaxRate = options.defaultTaxRate ?? 0.22;
+  const baseTaxRate = deriveEffectiveTaxRate(annual) ?? defaultTaxRate;
+  const baseReinvestmentRate = deriveReinvestmentRate(annual, estimates, defaultTaxRate) ?? 0.30;
 
   // Compute WACC using CAPM: Ke = Rf + β × ERP.
   // This is far more accurate than a hardcoded 9.5% because it accounts
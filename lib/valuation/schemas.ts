@@ -0,0 +1,86 @@
+/**
+ * Request validation shared by the valuation routes.
+ *
+ * Scenario bounds come from `SCENARIO_FIELD_BOUNDS` in lib/valuation/dcf.ts.
+ */
+import { z } from "zod";
+
+import { SCENARIO_FIELD_BOUNDS } from "@/lib/valuation/dcf";
+import { MAX_PROJECTION_YEARS } from "@/lib/valuation/multi-stage";
+import { PROBABILITY_SUM_TOLERANCE } from "@/lib/valuation/weighted";
+import { ScenarioInput } from "@/types/valuation";
+
+/** Number within the bounds of one shorthand scenario field */
+function boundedField(field: keyof ScenarioInput) {
+  const [min, max] = SCENARIO_FIELD_BOUNDS[field];
+  return z.number().min(min).max(max);
+}
+
+export const shorthandScenarioSchema = z.object({
+  revenueGrowthYears1to5: boundedField("revenueGrowthYears1to5"),
+  revenueGrowthYears6to10: boundedField("revenueGrowthYears6to10"),
+  operatingMarginTarget: boundedField("operatingMarginTarget"),
+  taxRate: boundedField("taxRate"),
+  reinvestmentRate: boundedField("reinvestmentRate"),
+  wacc: boundedField("wacc"),
+  terminalGrowth: boundedField("terminalGrowth")
+});
+
+/** Name of one shorthand scenario field */
+export const scenarioFieldSchema = z.enum([
+  "revenueGrowthYears1to5",
+  "revenueGrowthYears6to10",
+  "operatingMarginTarget",
+  "taxRate",
+  "reinvestmentRate",
+  "wacc",
+  "terminalGrowth"
+]);
+
+const projectionYearSchema = z.object({
+  revenueGrowth: boundedField("revenueGrowthYears1to5"),
+  operatingMargin: boundedField("operatingMarginTarget"),
+  taxRate: boundedField("taxRate"),
+  reinvestmentRate: boundedField("reinvestmentRate")
+});
+
+export const multiStageScenarioSchema = z.object({
+  years: z.array(projectionYearSchema).min(1).max(MAX_PROJECTION_YEARS),
+  wacc: boundedField("wacc"),
+  terminalGrowth: boundedField("terminalGrowth")
+});
+
+// Either form per scenario: saved shorthand scenarios expand to 10 years in runDcf
+export const scenarioSchema = z.union([shorthandScenarioSchema, multiStageScenarioSchema]);
+
+/** Probability per scenario (decimals adding up to 1) */
+export const scenarioProbabilitiesSchema = z
+  .object({
+    bull: z.number().min(0).max(1),
+    base: z.number().min(0).max(1),
+    bear: z.number().min(0).max(1)
+  })
+  .refine(
+    (value) => Math.abs(value.bull + value.base + value.bear - 1) <= PROBABILITY_SUM_TOLERANCE,
+    "Scenario probabilities must add up to 1."
+  );
+
+/** Starting revenue, shares and discounting options common to every valuation request */
+export const valuationInputsSchema = z.object({
+  sharesOutstandingOverride: z.number().positive().optional(),
+  revenueBasis: z.enum(["annual", "ttm"]).default("annual"),
+  discountConvention: z.enum(["end-of-year", "mid-year"]).default("end-of-year"),
+  valuationDate: z.string().date().optional()
+});
+
+/** Monte Carlo distribution of one scenario field */
+export const distributionSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("normal"), mean: z.number(), stdDev: z.number().nonnegative() }),
+    z.object({ type: z.literal("triangular"), min: z.number(), mode: z.number(), max: z.number() }),
+    z.object({ type: z.literal("uniform"), min: z.number(), max: z.number() })
+  ])
+  .refine(
+    (value) => value.type === "normal" || (value.min <= value.max && (value.type === "uniform" || (value.min <= value.mode && value.mode <= value.max))),
+    "Expected min <= mode <= max."
+  );
@@ -0,0 +1,109 @@
+import { DcfInput, runDcf, SCENARIO_FIELD_BOUNDS } from "@/lib/valuation/dcf";
+import { ScenarioInput, SensitivityCell, SensitivityGrid, SensitivityParameter } from "@/types/valuation";
+
+/**
+ * Two-way sensitivity tables
+ *
+ * Revalues a scenario over a grid of two of its parameters (e.g. WACC ×
+ * terminal growth) so the dependence of fair value on them is visible at a
+ * glance instead of one field edit at a time.
+ */
+
+/** Grid step per parameter when the caller doesn't pass explicit values */
+export const DEFAULT_SENSITIVITY_STEPS: Record<SensitivityParameter, number> = {
+  revenueGrowthYears1to5: 0.02,
+  revenueGrowthYears6to10: 0.01,
+  operatingMarginTarget: 0.02,
+  taxRate: 0.02,
+  reinvestmentRate: 0.05,
+  wacc: 0.005,
+  terminalGrowth: 0.005
+};
+
+export const MAX_SENSITIVITY_STEPS = 5;
+
+/**
+ * Values centred on `center`: `steps` steps either side, ascending, within
+ * the parameter's bounds (a centre near a bound gives a one-sided range).
+ */
+export function sensitivityValues(
+  parameter: SensitivityParameter,
+  center: number,
+  steps = 2,
+  step = DEFAULT_SENSITIVITY_STEPS[parameter]
+): number[] {
+  const [min, max] = SCENARIO_FIELD_BOUNDS[parameter];
+  const values: number[] = [];
+
+  for (let offset = -steps; offset <= steps; offset += 1) {
+    // Rounded so grid labels read 0.085, not 0.08499999999999999; the centre
+    // is kept exact so it still matches the scenario's value
+    const value = offset === 0 ? center : Number((center + offset * step).toFixed(10));
+    if (value >= min && value <= max) values.push(value);
+  }
+
+  return values;
+}
+
+/**
+ * Evaluate the scenario at every combination of the row and column values.
+ *
+ * Combinations that break the scenario constraints (e.g. WACC at or below
+ * terminal growth) give null cells. A cell is on the price contour when its
+ * upside has a different sign than a neighbour's: the fair value after
+ * margin of safety crosses the current price between them.
+ */
+export function runSensitivityGrid(options: {
+  dcf: Omit<DcfInput, "scenario">;
+  scenario: ScenarioInput;
+  rowParameter: SensitivityParameter;
+  columnParameter: SensitivityParameter;
+  rowValues: number[];
+  columnValues: number[];
+}): SensitivityGrid {
+  const { dcf, scenario, rowParameter, columnParameter, rowValues, columnValues } = options;
+
+  const values = rowValues.map((rowValue) =>
+    columnValues.map((columnValue) => {
+      const candidate = { ...scenario, [rowParameter]: rowValue, [columnParameter]: columnValue };
+      if (candidate.wacc <= candidate.terminalGrowth) return null;
+
+      const result = runDcf({ ...dcf, scenario: candidate });
+      return {
+        fairValuePerShare: result.fairValuePerShare,
+        fairValueAfterMos: result.fairValueAfterMos,
+        upsideVsPricePercent: result.upsideVsPricePercent
+      };
+    })
+  );
+
+  const sign = (row: number, column: number) => {
+    const cell = values[row]?.[column];
+    return cell ? Math.sign(cell.upsideVsPricePercent) : null;
+  };
+
+  const cells = values.map((row, rowIndex) =>
+    row.map((cell, columnIndex): SensitivityCell | null => {
+      if (!cell) return null;
+
+      const own = sign(rowIndex, columnIndex);
+      const neighbours = [
+        sign(rowIndex - 1, columnIndex),
+        sign(rowIndex + 1, columnIndex),
+        sign(rowIndex, columnIndex - 1),
+        sign(rowIndex, columnIndex + 1)
+      ];
+      return { ...cell, onPriceContour: neighbours.some((other) => other !== null && other !== own) };
+    })
+  );
+
+  return {
+    rowParameter,
+    columnParameter,
+    rowValues,
+    columnValues,
+    baseRowValue: scenario[rowParameter],
+    baseColumnValue: scenario[columnParameter],
+    cells
+  };
+}
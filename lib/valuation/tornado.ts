@@ -0,0 +1,79 @@
+import { DcfInput, runDcf, SCENARIO_FIELD_BOUNDS } from "@/lib/valuation/dcf";
+import { ScenarioInput, TornadoBar, TornadoDeltas, TornadoResult } from "@/types/valuation";
+
+/**
+ * Tornado analysis
+ *
+ * Moves one scenario field at a time down and up by a fixed delta, keeping
+ * the others at the base values, and ranks the fields by how far fair value
+ * swings. Answers "which single assumption matters most for this company".
+ */
+
+type ScenarioField = keyof ScenarioInput;
+
+/** Default ±delta per field (decimals) */
+export const DEFAULT_TORNADO_DELTAS: Record<ScenarioField, number> = {
+  revenueGrowthYears1to5: 0.03,
+  revenueGrowthYears6to10: 0.02,
+  operatingMarginTarget: 0.03,
+  taxRate: 0.03,
+  reinvestmentRate: 0.1,
+  wacc: 0.01,
+  terminalGrowth: 0.005
+};
+
+const FIELDS = Object.keys(SCENARIO_FIELD_BOUNDS) as ScenarioField[];
+
+/**
+ * Fair value per share (before margin of safety) with one field replaced,
+ * or null when the change breaks the scenario constraints (WACC at or below
+ * terminal growth).
+ */
+function revalue(dcf: Omit<DcfInput, "scenario" | "mosPercent">, scenario: ScenarioInput, field: ScenarioField, value: number) {
+  const candidate = { ...scenario, [field]: value };
+  if (candidate.wacc <= candidate.terminalGrowth) return null;
+  return runDcf({ ...dcf, mosPercent: 0, scenario: candidate }).fairValuePerShare;
+}
+
+/**
+ * Perturb each scenario field by ±delta and rank the fair value swings.
+ *
+ * Perturbed values are clamped to the input bounds, so a field near a bound
+ * moves further on one side than the other. A side that breaks the WACC >
+ * terminal growth constraint gives a null fair value and is left out of the
+ * swing.
+ *
+ * @param options.deltas - Per-field deltas overriding `DEFAULT_TORNADO_DELTAS`
+ * @returns Bars sorted by swing, largest first
+ */
+export function runTornado(options: {
+  dcf: Omit<DcfInput, "scenario" | "mosPercent">;
+  scenario: ScenarioInput;
+  deltas?: TornadoDeltas;
+}): TornadoResult {
+  const { dcf, scenario } = options;
+  const deltas = { ...DEFAULT_TORNADO_DELTAS, ...options.deltas };
+  const baseFairValue = runDcf({ ...dcf, mosPercent: 0, scenario }).fairValuePerShare;
+
+  const bars = FIELDS.map((field): TornadoBar => {
+    const [min, max] = SCENARIO_FIELD_BOUNDS[field];
+    const baseValue = scenario[field];
+    const lowValue = Math.max(min, baseValue - deltas[field]);
+    const highValue = Math.min(max, baseValue + deltas[field]);
+    const lowFairValue = revalue(dcf, scenario, field, lowValue);
+    const highFairValue = revalue(dcf, scenario, field, highValue);
+
+    const outcomes = [baseFairValue, lowFairValue, highFairValue].filter((value): value is number => value !== null);
+    return {
+      parameter: field,
+      baseValue,
+      lowValue,
+      highValue,
+      lowFairValue,
+      highFairValue,
+      swing: Math.max(...outcomes) - Math.min(...outcomes)
+    };
+  });
+
+  return { baseFairValue, bars: bars.sort((a, b) => b.swing - a.swing) };
+}
@@ -8,6 +8,9 @@
  * Each metric also includes a trend direction comparing the latest annual value
  * against the prior year's — so users can see whether the underlying fundamental
  * is improving or deteriorating, independently of price moves.
+ *
+ * Shareholder return metrics (dividend yield, payout ratios, buyback and
+ * shareholder yield) follow the same pattern for income-oriented holdings.
  */
 
 import { QuoteResponse } from "@/types/market";
@@ -21,7 +24,7 @@ export type ValuationMetric = {
   value: string;
   /** null when only one year of annual data is available — no trend can be computed */
   trend: TrendDirection | null;
-  /** Explains why value is "N/A" when applicable */
+  /** Explains why value is "N/A" when applicable, or adds context (e.g. share count change) */
   tooltip?: string;
   /** Educational content shown in the clickable info popover */
   info: {
@@ -34,36 +37,86 @@ export type ValuationMetric = {
  * Returns trend direction for an improving-is-higher metric (e.g. netIncome, FCF).
  * Uses ±5% as the "flat" band to filter out noise.
  *
+ * For improving-is-lower metrics (e.g. payout ratio) pass higherIsBetter = false:
+ * "up" always means the fundamental improved, matching the badge wording.
+ *
  * @param current - Latest annual value
  * @param prior - Prior annual value (undefined if only one year exists)
+ * @param higherIsBetter - Whether an increase counts as an improvement
  */
 function trendDirection(
   current: number,
-  prior: number | undefined
+  prior: number | null | undefined,
+  higherIsBetter = true
 ): TrendDirection | null {
   // Not enough data to compute a trend
-  if (prior === undefined) return null;
+  if (prior === undefined || prior === null) return null;
   // Avoid division by zero when prior is exactly 0
   if (prior === 0) return null;
 
-  const delta = (current - prior) / Math.abs(prior);
+  const delta = ((current - prior) / Math.abs(prior)) * (higherIsBetter ? 1 : -1);
   if (delta > 0.05) return "up";
   if (delta < -0.05) return "down";
   return "flat";
 }
 
 /**
- * Computes the four payback/yield metrics from quote and fundamentals data.
+ * Payout ratio (dividends / earnings or FCF), or null when it isn't meaningful.
+ */
+function payoutRatio(dividends: number | null | undefined, base: number | undefined): number | null {
+  if (dividends == null || base === undefined || base <= 0) return null;
+  return dividends / base;
+}
+
+// Educational copy for the shareholder return cards, shared by the
+// computed and the N/A branches.
+const SHAREHOLDER_INFO: Record<string, ValuationMetric["info"]> = {
+  "Dividend Yield": {
+    description:
+      "Dividendi pagati nell'ultimo esercizio rispetto alla capitalizzazione di mercato: Dividendi / Market Cap × 100. Indica quanto rende l'azione in contanti ogni anno, al prezzo attuale.",
+    howToRead:
+      "Un rendimento alto è interessante solo se sostenibile: controllalo insieme al Payout. Rendimenti molto elevati (>7–8%) spesso segnalano un mercato che si aspetta un taglio del dividendo.",
+  },
+  "Payout su Utili": {
+    description:
+      "Quota dell'utile netto distribuita come dividendo: Dividendi / Utile Netto × 100.",
+    howToRead:
+      "Sotto il 60% lascia margine per mantenere il dividendo anche in un anno difficile. Sopra il 100% l'azienda distribuisce più di quanto guadagna: possibile solo per un periodo limitato. Un trend in calo (Migliorato) indica maggiore copertura.",
+  },
+  "Payout su FCF": {
+    description:
+      "Quota del Free Cash Flow distribuita come dividendo: Dividendi / FCF × 100. I dividendi si pagano con la cassa, non con l'utile contabile.",
+    howToRead:
+      "Spesso più significativo del payout sugli utili. Se supera il 100% il dividendo è finanziato con debito o cassa accumulata. Un trend in calo (Migliorato) indica maggiore copertura.",
+  },
+  "Buyback Yield": {
+    description:
+      "Cassa spesa per riacquistare azioni proprie nell'ultimo esercizio rispetto alla market cap: Buyback / Market Cap × 100. Il riacquisto aumenta la quota di utili di ogni azione rimasta.",
+    howToRead:
+      "Confrontalo con la variazione del numero di azioni: se le azioni non calano, i buyback servono solo a compensare le stock option dei dipendenti.",
+  },
+  "Shareholder Yield": {
+    description:
+      "Rendimento totale per l'azionista: (Dividendi + Buyback) / Market Cap × 100. Somma le due forme con cui l'azienda restituisce cassa.",
+    howToRead:
+      "Utile per confrontare aziende che preferiscono i buyback (tipico negli USA) con aziende che pagano dividendi (tipico in Europa). Va letto insieme al FCF Yield: se lo supera stabilmente, la distribuzione non è sostenibile.",
+  },
+};
+
+/**
+ * Computes the payback/yield and shareholder return metrics from quote and fundamentals data.
  *
- * Depends on annual[] being sorted oldest-first (as returned by the API).
- * If marketCap is null, all four metrics return "N/A" — this happens for some
+ * annual[] is re-sorted by year, so callers may pass it in any order (the API
+ * returns it most-recent-first).
+ * If marketCap is null, all metrics return "N/A" — this happens for some
  * non-US tickers where Yahoo doesn't provide the field.
  */
 export function computeValuationMetrics(
   quote: QuoteResponse,
   fundamentals: FundamentalsResponse
 ): ValuationMetric[] {
-  const { annual, ratios } = fundamentals;
+  const { ratios } = fundamentals;
+  const annual = [...fundamentals.annual].sort((a, b) => a.year - b.year);
   const marketCap = quote.marketCap;
 
   // Shared N/A sentinel when market cap is unavailable
@@ -74,6 +127,7 @@ export function computeValuationMetrics(
       { label: "Anni di FCF", value: "N/A", trend: null, tooltip, info: { description: "Quanti anni di Free Cash Flow servirebbero per ripagare la market cap (= P/FCF).", howToRead: "Più affidabile del P/E perché il FCF è meno manipolabile contabilmente." } },
       { label: "FCF Yield", value: "N/A", trend: null, tooltip, info: { description: "Free Cash Flow / Market Cap × 100. Inverso del P/FCF.", howToRead: "Confrontalo con il rendimento del BTP/Treasury 10Y." } },
       { label: "Earnings Yield", value: "N/A", trend: null, tooltip, info: { description: "Utile Netto / Market Cap × 100. Inverso del P/E.", howToRead: "Se supera il tasso risk-free, stai pagando l'azienda meno di un'obbligazione governativa." } },
+      ...Object.entries(SHAREHOLDER_INFO).map(([label, info]) => ({ label, value: "N/A", trend: null, tooltip, info })),
     ];
   }
 
@@ -128,6 +182,70 @@ export function computeValuationMetrics(
     earningsYieldTooltip = "Richiede utile netto positivo";
   }
 
+  // ── Dividend Yield = dividends / marketCap ───────────────────────────────
+  // Trends compare cash amounts, not yields, so price moves don't show up as
+  // "improved" or "worsened" fundamentals.
+  const dividends = latest.dividendsPaid ?? null;
+  const buybacks = latest.buybacks ?? null;
+  const dividendTrend = dividends !== null ? trendDirection(dividends, prior?.dividendsPaid) : null;
+
+  // ── Payout ratios (lower = better covered) ───────────────────────────────
+  const payoutNi = payoutRatio(dividends, latest.netIncome);
+  const payoutFcf = payoutRatio(dividends, latest.fcf);
+  const priorPayoutNi = prior ? payoutRatio(prior.dividendsPaid, prior.netIncome) : null;
+  const priorPayoutFcf = prior ? payoutRatio(prior.dividendsPaid, prior.fcf) : null;
+
+  // ── Shareholder Yield = (dividends + buybacks) / marketCap ───────────────
+  // A missing line counts as zero only when the other one is reported
+  const totalReturned = dividends === null && buybacks === null ? null : (dividends ?? 0) + (buybacks ?? 0);
+  const priorReturned =
+    prior && (prior.dividendsPaid != null || prior.buybacks != null)
+      ? (prior.dividendsPaid ?? 0) + (prior.buybacks ?? 0)
+      : null;
+
+  const shareholderMetrics: ValuationMetric[] = [
+    {
+      label: "Dividend Yield",
+      value: dividends !== null ? formatPercent(dividends / marketCap, 2) : "N/A",
+      trend: dividendTrend,
+      tooltip: dividends === null ? "Dividendi non disponibili" : undefined,
+      info: SHAREHOLDER_INFO["Dividend Yield"],
+    },
+    {
+      label: "Payout su Utili",
+      value: payoutNi !== null ? formatPercent(payoutNi, 0) : "N/A",
+      trend: payoutNi !== null ? trendDirection(payoutNi, priorPayoutNi, false) : null,
+      tooltip: payoutNi === null ? (dividends === null ? "Dividendi non disponibili" : "Richiede utile netto positivo") : undefined,
+      info: SHAREHOLDER_INFO["Payout su Utili"],
+    },
+    {
+      label: "Payout su FCF",
+      value: payoutFcf !== null ? formatPercent(payoutFcf, 0) : "N/A",
+      trend: payoutFcf !== null ? trendDirection(payoutFcf, priorPayoutFcf, false) : null,
+      tooltip: payoutFcf === null ? (dividends === null ? "Dividendi non disponibili" : "Richiede FCF positivo") : undefined,
+      info: SHAREHOLDER_INFO["Payout su FCF"],
+    },
+    {
+      label: "Buyback Yield",
+      value: buybacks !== null ? formatPercent(buybacks / marketCap, 2) : "N/A",
+      trend: buybacks !== null ? trendDirection(buybacks, prior?.buybacks) : null,
+      tooltip:
+        buybacks === null
+          ? "Buyback non disponibili"
+          : latest.netShareChange != null
+            ? `Azioni in circolazione ${latest.netShareChange <= 0 ? "" : "+"}${formatPercent(latest.netShareChange, 1)} vs anno precedente`
+            : undefined,
+      info: SHAREHOLDER_INFO["Buyback Yield"],
+    },
+    {
+      label: "Shareholder Yield",
+      value: totalReturned !== null ? formatPercent(totalReturned / marketCap, 2) : "N/A",
+      trend: totalReturned !== null ? trendDirection(totalReturned, priorReturned) : null,
+      tooltip: totalReturned === null ? "Dividendi e buyback non disponibili" : undefined,
+      info: SHAREHOLDER_INFO["Shareholder Yield"],
+    },
+  ];
+
   return [
     {
       label: "Anni di Utili",
@@ -177,5 +295,6 @@ export function computeValuationMetrics(
           "Più è alto, meglio è. Come l'FCF Yield, è direttamente confrontabile con il rendimento dei titoli di stato: se è superiore al tasso risk-free, stai pagando l'azienda meno di quanto rende un'obbligazione governativa. Benjamin Graham usava questa metrica per filtrare le azioni sottovalutate.",
       },
     },
+    ...shareholderMetrics,
   ];
 }
@@ -0,0 +1,44 @@
+import { ScenarioName, ScenarioProbabilities, ScenarioResult, WeightedValuation } from "@/types/valuation";
+
+/**
+ * Probability-weighted valuation
+ *
+ * Bull, base and bear are three points of a range, not equally likely
+ * outcomes; weighting them gives one expected fair value that reflects the
+ * whole range rather than the base case alone.
+ */
+
+export const DEFAULT_SCENARIO_PROBABILITIES: ScenarioProbabilities = { bull: 0.25, base: 0.5, bear: 0.25 };
+
+/** Allowed gap between the probabilities' sum and 1 (absorbs rounding in percentage inputs) */
+export const PROBABILITY_SUM_TOLERANCE = 0.001;
+
+const scenarioNames: ScenarioName[] = ["bull", "base", "bear"];
+
+/**
+ * Weight the scenario fair values by their probabilities.
+ *
+ * Probabilities are used as given (they should add up to 1). The expected
+ * upside compares the weighted fair value after margin of safety with the
+ * price, which equals the probability-weighted upside of the scenarios.
+ *
+ * @param scenarios - DCF results per scenario
+ * @param probabilities - Probability per scenario (decimals)
+ * @param currentPrice - Price to compare with, in the results' currency
+ */
+export function weightScenarios(
+  scenarios: Record<ScenarioName, ScenarioResult>,
+  probabilities: ScenarioProbabilities,
+  currentPrice: number
+): WeightedValuation {
+  const weigh = (field: "fairValuePerShare" | "fairValueAfterMos") =>
+    scenarioNames.reduce((sum, name) => sum + probabilities[name] * scenarios[name][field], 0);
+
+  const fairValueAfterMos = weigh("fairValueAfterMos");
+  return {
+    probabilities,
+    fairValuePerShare: weigh("fairValuePerShare"),
+    fairValueAfterMos,
+    expectedUpsidePercent: ((fairValueAfterMos - currentPrice) / currentPrice) * 100
+  };
+}
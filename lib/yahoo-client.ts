@@ -1,7 +1,26 @@
 import YahooFinance from "yahoo-finance2";
 
-import { FundamentalsResponse } from "@/types/fundamentals";
-import { QuoteResponse, Region } from "@/types/market";
+import { summarizeDataQuality } from "@/lib/fundamentals/data-quality";
+import { computeTtm } from "@/lib/fundamentals/ttm";
+import { resolveExchange } from "@/lib/market-data/exchanges";
+import { getFixtureMode, listFixtures, withFixture } from "@/lib/market-data/fixtures";
+import { createOutboundScheduler } from "@/lib/market-data/scheduler";
+import {
+  FieldProvenance,
+  FlowProvenance,
+  FundamentalsPeriod,
+  FundamentalsResponse,
+  QuarterlyFundamentalPoint
+} from "@/types/fundamentals";
+import {
+  BatchResult,
+  HistoryInterval,
+  HistoryRange,
+  PriceHistoryResponse,
+  PricePoint,
+  QuoteResponse,
+  SymbolSearchResult
+} from "@/types/market";
 import { AnalystEstimates } from "@/types/valuation";
 
 // Suppress Yahoo Finance survey notices to keep logs clean
@@ -9,6 +28,11 @@ const yahooFinance = new YahooFinance({
   suppressNotices: ["yahooSurvey"]
 });
 
+// Every raw yahooFinance call below is wrapped in withFixture so it can be
+// recorded to / replayed from JSON fixtures (see lib/market-data/fixtures.ts).
+// Fixture keys only include arguments that change the payload shape — date
+// ranges are left out so recordings stay replayable on later days.
+
 /**
  * Extract a plain numeric value from Yahoo's mixed schema.
  *
@@ -33,63 +57,33 @@ export function extractRawNumber(value: unknown): number | null {
   return null;
 }
 
-/**
- * Detect geographic region based on exchange code.
- *
- * Used to categorize tickers by region for UI grouping and
- * potential future region-specific logic (e.g., trading hours, tax rates).
- *
- * @param exchange - Exchange code from Yahoo Finance (e.g., "NASDAQ", "LSE")
- * @returns Region category: "US", "EU", or "OTHER"
- */
-function detectRegion(exchange: string): Region {
-  const upper = exchange.toUpperCase();
+const YAHOO_RATE_LIMIT_MESSAGE = "Yahoo Finance rate limit reached. Retry in 30-60 seconds.";
 
-  if (["NMS", "NASDAQ", "NYQ", "NYSE", "ASE", "AMEX", "BATS", "PCX"].includes(upper)) {
-    return "US";
-  }
-
-  if (["MIL", "PAR", "FRA", "XETRA", "GER", "LSE", "AMS", "STO", "MCX", "SWX"].includes(upper)) {
-    return "EU";
-  }
-
-  return "OTHER";
+// HTTP 429 or Yahoo's "Too Many Requests" text
+function isYahooRateLimitError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return message.includes("too many requests") || message.includes("429");
 }
 
 /**
- * Retry a Yahoo Finance API call with exponential backoff.
- *
- * Yahoo Finance can intermittently fail due to rate limits or transient network issues.
- * This utility retries up to 3 times total (1 initial + 2 retries) with increasing delays:
- * - Attempt 1: immediate
- * - Attempt 2: 250ms delay
- * - Attempt 3: 500ms delay
- *
- * @param task - Async function to execute
- * @param retries - Number of retry attempts after initial failure
- * @returns Task result on success
- * @throws Last error encountered if all attempts fail
+ * Scheduler for every outbound Yahoo call (see lib/market-data/scheduler.ts):
+ * coalesces identical in-flight calls, keeps to YAHOO_REQUESTS_PER_SECOND
+ * (default 4), retries transient errors after 250/500 ms and 429s after
+ * ~2 s/4 s with jitter, and fails fast for a minute after 3 consecutive 429s.
+ *
+ * Keys are `<call>:<ticker>` (the fixture key plus the symbol), so concurrent
+ * loads of the same ticker share requests while different tickers don't.
  */
-async function withRetry<T>(task: () => Promise<T>, retries = 2): Promise<T> {
-  let lastError: unknown;
-
-  for (let attempt = 0; attempt <= retries; attempt += 1) {
-    try {
-      return await task();
-    } catch (error) {
-      lastError = error;
-
-      // Exponential backoff: 250ms, 500ms, ...
-      if (attempt < retries) {
-        await new Promise((resolve) => {
-          setTimeout(resolve, 250 * (attempt + 1));
-        });
-      }
-    }
-  }
-
-  throw lastError instanceof Error ? lastError : new Error("Unknown Yahoo Finance error.");
-}
+const yahooScheduler = createOutboundScheduler({
+  requestsPerSecond: Number(process.env.YAHOO_REQUESTS_PER_SECOND) || 4,
+  retries: 2,
+  retryDelayMs: 250,
+  rateLimitDelayMs: 2000,
+  breakerThreshold: 3,
+  breakerCooldownMs: 60_000,
+  isRateLimited: isYahooRateLimitError,
+  rateLimitError: () => new Error(YAHOO_RATE_LIMIT_MESSAGE)
+});
 
 /**
  * Normalize Yahoo Finance errors into user-friendly messages.
@@ -104,9 +98,8 @@ function normalizeYahooError(error: unknown): Error {
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
 
-    // Rate limit detection (HTTP 429 or "too many requests" message)
-    if (message.includes("too many requests") || message.includes("429")) {
-      return new Error("Yahoo Finance rate limit reached. Retry in 30-60 seconds.");
+    if (isYahooRateLimitError(error)) {
+      return new Error(YAHOO_RATE_LIMIT_MESSAGE);
     }
 
     // Ticker not found or unavailable
@@ -133,109 +126,454 @@ function normalizeYahooError(error: unknown): Error {
  */
 export async function getQuote(ticker: string): Promise<QuoteResponse> {
   try {
-    const quote = await withRetry(() => yahooFinance.quote(ticker));
+    const quote = await withFixture(ticker, "quote", () =>
+      yahooScheduler.run(`quote:${ticker}`, () => yahooFinance.quote(ticker))
+    );
 
-    const exchange = String(quote.fullExchangeName || quote.exchange || "UNKNOWN");
+    return mapQuote(quote, ticker);
+  } catch (error) {
+    throw normalizeYahooError(error);
+  }
+}
+
+/**
+ * Map a raw Yahoo quote into the normalized QuoteResponse.
+ */
+function mapQuote(quote: any, ticker: string): QuoteResponse {
+  const exchange = String(quote.fullExchangeName || quote.exchange || "UNKNOWN");
+  const market = resolveExchange(quote.exchange, String(quote.symbol || ticker));
+
+  return {
+    ticker: String(quote.symbol || ticker).toUpperCase(),
+    shortName: String(quote.shortName || quote.longName || ticker),
+    currency: String(quote.currency || "USD"),
+    exchange,
+    region: market?.region ?? "OTHER",
+    regularMarketPrice: Number(quote.regularMarketPrice || 0),
+    marketCap: Number.isFinite(quote.marketCap as number) ? Number(quote.marketCap) : null,
+    sharesOutstanding: Number.isFinite(quote.sharesOutstanding as number) ? Number(quote.sharesOutstanding) : null,
+    market,
+    fetchedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Fetch quotes for several tickers in one multi-symbol Yahoo request.
+ *
+ * Symbols Yahoo doesn't return get a per-ticker "not found" error; a failed
+ * request (e.g. rate limit) gives every ticker the same error. Fixtures are
+ * recorded per ticker, so fixture modes fall back to one `getQuote` per ticker.
+ *
+ * @param tickers - Ticker symbols (already de-duplicated)
+ * @returns One result per ticker, in input order (never throws)
+ */
+export async function getQuotes(tickers: string[]): Promise<BatchResult<QuoteResponse>[]> {
+  if (getFixtureMode() !== "off") {
+    return Promise.all(
+      tickers.map((ticker) =>
+        getQuote(ticker).then(
+          (data) => ({ ticker: ticker.toUpperCase(), data }),
+          (error: Error) => ({ ticker: ticker.toUpperCase(), error: error.message })
+        )
+      )
+    );
+  }
+
+  try {
+    const quotes = await yahooScheduler.run(`quote:batch:${tickers.join(",")}`, () => yahooFinance.quote(tickers));
+    const bySymbol = new Map(quotes.map((quote) => [String(quote.symbol).toUpperCase(), quote]));
+
+    return tickers.map((ticker) => {
+      const quote = bySymbol.get(ticker.toUpperCase());
+      return quote
+        ? { ticker: ticker.toUpperCase(), data: mapQuote(quote, ticker) }
+        : { ticker: ticker.toUpperCase(), error: "Ticker not found or unavailable on Yahoo Finance." };
+    });
+  } catch (error) {
+    const message = normalizeYahooError(error).message;
+    return tickers.map((ticker) => ({ ticker: ticker.toUpperCase(), error: message }));
+  }
+}
+
+// Search results beyond this are noise for an autocomplete dropdown
+const MAX_SEARCH_RESULTS = 8;
+
+/**
+ * Map Yahoo search quotes into symbol suggestions.
+ *
+ * Keeps equities only: the DCF needs income statements, which funds,
+ * indices, currencies and derivatives don't have.
+ *
+ * @param quotes - `quotes` array from yahooFinance.search
+ * @param currencies - Trading currency per symbol (search results don't include it)
+ */
+export function mapSearchResults(quotes: any[], currencies: Record<string, string> = {}): SymbolSearchResult[] {
+  return quotes
+    .filter((q: any) => q.isYahooFinance && q.quoteType === "EQUITY" && q.symbol)
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map((q: any) => ({
+      symbol: String(q.symbol).toUpperCase(),
+      name: String(q.longname || q.shortname || q.symbol),
+      exchange: String(q.exchDisp || q.exchange || "UNKNOWN"),
+      region: resolveExchange(q.exchange, q.symbol)?.region ?? "OTHER",
+      currency: currencies[String(q.symbol).toUpperCase()] ?? null
+    }));
+}
+
+/**
+ * Search recorded fixtures by symbol prefix or name, for offline development.
+ *
+ * Only fixtures with a recorded quote are searchable (the quote payload
+ * carries the name, exchange and currency).
+ */
+async function searchFixtureSymbols(query: string): Promise<SymbolSearchResult[]> {
+  const needle = query.trim().toUpperCase();
+  const fixtures = await listFixtures();
+
+  return fixtures
+    .map((fixture) => fixture.quote as any)
+    // Same equities-only rule as live search (skips ^TNX, EURUSD=X, ...)
+    .filter((quote) => quote?.symbol && quote.quoteType === "EQUITY")
+    .filter((quote) =>
+      String(quote.symbol).toUpperCase().startsWith(needle) ||
+      String(quote.longName || quote.shortName || "").toUpperCase().includes(needle)
+    )
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map((quote) => ({
+      symbol: String(quote.symbol).toUpperCase(),
+      name: String(quote.longName || quote.shortName || quote.symbol),
+      exchange: String(quote.fullExchangeName || quote.exchange || "UNKNOWN"),
+      region: resolveExchange(quote.exchange, quote.symbol)?.region ?? "OTHER",
+      currency: quote.currency ? String(quote.currency) : null
+    }));
+}
+
+/**
+ * Search symbols by ticker or company name across exchanges.
+ *
+ * Yahoo's search endpoint doesn't return the trading currency, so a single
+ * batched quote call fills it in. That lookup is best-effort: if it fails,
+ * suggestions are still returned with currency null.
+ *
+ * In fixture replay mode, searches the recorded fixtures instead. Search
+ * payloads themselves are never recorded (they are keyed by free text, not
+ * by ticker).
+ *
+ * @param query - Partial ticker or company name (e.g., "eni", "ASML")
+ * @returns Up to 8 equity suggestions, in Yahoo's relevance order
+ * @throws User-friendly error if rate limit hit
+ */
+export async function searchSymbols(query: string): Promise<SymbolSearchResult[]> {
+  if (getFixtureMode() === "replay") {
+    return searchFixtureSymbols(query);
+  }
+
+  try {
+    const result = await yahooScheduler.run(`search:${query}`, () =>
+      yahooFinance.search(query, { quotesCount: 20, newsCount: 0 })
+    );
+    const results = mapSearchResults(result.quotes);
+    if (results.length === 0) return results;
+
+    const currencies: Record<string, string> = {};
+    try {
+      const symbols = results.map((r) => r.symbol);
+      const quotes = await yahooScheduler.run(`quote:currency:${symbols.join(",")}`, () =>
+        yahooFinance.quote(symbols, { fields: ["symbol", "currency"] })
+      );
+      for (const quote of quotes) {
+        if (quote.currency) currencies[String(quote.symbol).toUpperCase()] = String(quote.currency);
+      }
+    } catch {
+      // Non-critical: suggestions without currency are still useful
+    }
+
+    return mapSearchResults(result.quotes, currencies);
+  } catch (error) {
+    throw normalizeYahooError(error);
+  }
+}
+
+// Lookback per history range, in months ("max" starts at the Unix epoch)
+const HISTORY_RANGE_MONTHS: Record<Exclude<HistoryRange, "max">, number> = {
+  "1mo": 1,
+  "3mo": 3,
+  "6mo": 6,
+  "1y": 12,
+  "2y": 24,
+  "5y": 60,
+  "10y": 120
+};
+
+/**
+ * Map chart API quotes into closing price points, oldest first.
+ *
+ * Yahoo includes rows with null prices for holidays and halted sessions;
+ * we drop them rather than plot gaps as zeros.
+ */
+export function mapPriceHistory(quotes: any[]): PricePoint[] {
+  return quotes
+    .filter((q: any) => q.date instanceof Date && typeof q.close === "number" && Number.isFinite(q.close))
+    .map((q: any) => ({ date: q.date.toISOString().slice(0, 10), close: q.close }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Fetch historical closing prices via the chart API.
+ *
+ * @param ticker - Stock ticker symbol
+ * @param options - Lookback range and sampling interval
+ * @returns Closing prices, oldest first, with the trading currency
+ * @throws User-friendly error if ticker not found or rate limit hit
+ */
+export async function getPriceHistory(
+  ticker: string,
+  options: { range: HistoryRange; interval: HistoryInterval }
+): Promise<PriceHistoryResponse> {
+  try {
+    const period1 = new Date(0);
+    if (options.range !== "max") {
+      const now = new Date();
+      period1.setTime(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - HISTORY_RANGE_MONTHS[options.range], now.getUTCDate()));
+    }
+
+    const chart = await withFixture(ticker, `chart:${options.range}:${options.interval}`, () =>
+      yahooScheduler.run(`chart:${options.range}:${options.interval}:${ticker}`, () =>
+        yahooFinance.chart(ticker, { period1, interval: options.interval, return: "array" })
+      )
+    );
 
     return {
-      ticker: String(quote.symbol || ticker).toUpperCase(),
-      shortName: String(quote.shortName || quote.longName || ticker),
-      currency: String(quote.currency || "USD"),
-      exchange,
-      region: detectRegion(exchange),
-      regularMarketPrice: Number(quote.regularMarketPrice || 0),
-      marketCap: Number.isFinite(quote.marketCap as number) ? Number(quote.marketCap) : null,
-      sharesOutstanding: Number.isFinite(quote.sharesOutstanding as number) ? Number(quote.sharesOutstanding) : null,
-      fetchedAt: new Date().toISOString()
+      ticker: ticker.toUpperCase(),
+      currency: String(chart?.meta?.currency || "USD"),
+      range: options.range,
+      interval: options.interval,
+      points: mapPriceHistory(chart?.quotes ?? [])
     };
   } catch (error) {
     throw normalizeYahooError(error);
   }
 }
 
+/**
+ * Read an optional numeric statement field, keeping "not reported" distinct from 0.
+ *
+ * @param values - Candidate Yahoo fields in order of preference
+ * @returns First finite number, or null if none is reported
+ */
+function optionalNumber(...values: unknown[]): number | null {
+  for (const value of values) {
+    if (value != null && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Map the income statement and cash flow fields shared by annual and quarterly entries.
+ *
+ * Missing EBIT/net income/capex coerce to 0, and FCF falls back to
+ * operating cash flow + capex when Yahoo doesn't report it directly. Both
+ * cases are recorded in `provenance` so a placeholder 0 isn't mistaken for
+ * a zero-margin period.
+ */
+function mapPeriodFlows(entry: any) {
+  const revenue = Number(entry.totalRevenue) || 0;
+  const ebit = Number(entry.EBIT ?? entry.operatingIncome) || 0;
+  const netIncome = Number(entry.netIncome) || 0;
+  const fcfDirect = entry.freeCashFlow != null ? Number(entry.freeCashFlow) : null;
+  const operatingCash = Number(entry.operatingCashFlow) || 0;
+  const capex = Number(entry.capitalExpenditure) || 0; // negative in Yahoo data
+  const fcf = fcfDirect ?? operatingCash + capex;
+
+  const reportedOrMissing = (...values: unknown[]): FieldProvenance =>
+    values.some((value) => value != null) ? "reported" : "missing";
+  const provenance: FlowProvenance = {
+    revenue: reportedOrMissing(entry.totalRevenue),
+    ebit: reportedOrMissing(entry.EBIT, entry.operatingIncome),
+    netIncome: reportedOrMissing(entry.netIncome),
+    fcf: fcfDirect !== null ? "reported" : entry.operatingCashFlow != null ? "derived" : "missing",
+  };
+
+  return {
+    revenue,
+    ebit,
+    netIncome,
+    fcf,
+    operatingMargin: revenue > 0 ? ebit / revenue : 0,
+    netMargin: revenue > 0 ? netIncome / revenue : 0,
+    provenance,
+  };
+}
+
+/**
+ * Map the cash returned to shareholders in a fiscal year.
+ *
+ * Yahoo reports dividends and repurchases as negative cash flows; we store
+ * positive amounts so yields and payout ratios read naturally. Missing lines
+ * stay null: "not reported" must not read as "pays no dividend".
+ */
+function mapShareholderReturns(entry: any) {
+  const dividends = optionalNumber(entry.cashDividendsPaid, entry.commonStockDividendPaid);
+  const repurchases = optionalNumber(entry.repurchaseOfCapitalStock, entry.commonStockPayments);
+  const shares = optionalNumber(entry.ordinarySharesNumber, entry.shareIssued);
+  const dividendsPaid = dividends === null ? null : Math.abs(dividends);
+
+  return {
+    dividendsPaid,
+    dividendsPerShare: dividendsPaid !== null && shares ? dividendsPaid / shares : null,
+    buybacks: repurchases === null ? null : Math.abs(repurchases),
+  };
+}
+
 /**
  * Map fundamentalsTimeSeries entries into app-level annual data points.
  *
  * fundamentalsTimeSeries returns one object per fiscal year with flat field names
  * (e.g. totalRevenue, EBIT, freeCashFlow). Some entries may have undefined fields
  * if Yahoo doesn't have data for that year — we skip entries missing revenue.
+ *
+ * With `module: "all"` the same entries also carry balance sheet items
+ * (totalAssets, stockholdersEquity, ...). Unlike the income statement fields,
+ * these stay null when missing: a 0 equity or 0 debt would silently distort
+ * leverage and book value calculations.
  */
 export function mapFundamentalsFromTimeSeries(
   ticker: string,
   entries: any[],
   ratios: { pe: number | null; pb: number | null; ps: number | null; evEbitda?: number | null },
-  currency: string
+  currency: string,
+  financialCurrency = currency
 ): FundamentalsResponse {
   const annual = entries
     .filter((e: any) => e.totalRevenue != null && e.date instanceof Date)
     .slice(-10) // keep at most 10 years, most recent last
-    .map((entry: any) => {
-      const revenue = Number(entry.totalRevenue) || 0;
-      const ebit = Number(entry.EBIT ?? entry.operatingIncome) || 0;
-      const netIncome = Number(entry.netIncome) || 0;
-      const fcfDirect = entry.freeCashFlow != null ? Number(entry.freeCashFlow) : null;
-      const operatingCash = Number(entry.operatingCashFlow) || 0;
-      const capex = Number(entry.capitalExpenditure) || 0; // negative in Yahoo data
-      const fcf = fcfDirect ?? operatingCash + capex;
-
-      return {
-        year: entry.date.getUTCFullYear(),
-        revenue,
-        ebit,
-        netIncome,
-        fcf,
-        operatingMargin: revenue > 0 ? ebit / revenue : 0,
-        netMargin: revenue > 0 ? netIncome / revenue : 0,
-      };
-    })
+    .map((entry: any) => ({
+      year: entry.date.getUTCFullYear(),
+      periodEnd: entry.date.toISOString().slice(0, 10),
+      ...mapPeriodFlows(entry),
+      totalAssets: optionalNumber(entry.totalAssets),
+      totalEquity: optionalNumber(entry.stockholdersEquity, entry.commonStockEquity),
+      cash: optionalNumber(entry.cashAndCashEquivalents, entry.cashCashEquivalentsAndShortTermInvestments),
+      totalDebt: optionalNumber(entry.totalDebt),
+      currentAssets: optionalNumber(entry.currentAssets),
+      currentLiabilities: optionalNumber(entry.currentLiabilities),
+      goodwill: optionalNumber(entry.goodwill),
+      sharesOutstanding: optionalNumber(entry.ordinarySharesNumber, entry.shareIssued),
+      ...mapShareholderReturns(entry),
+    }))
     // Sort descending (most recent first) to match existing conventions
-    .sort((a: { year: number }, b: { year: number }) => b.year - a.year);
+    .sort((a: { year: number }, b: { year: number }) => b.year - a.year)
+    .map((point, index, sorted) => {
+      // Share count change needs the prior fiscal year, which follows in descending order
+      const prior = sorted[index + 1];
+      const netShareChange =
+        point.sharesOutstanding && prior?.sharesOutstanding && prior.year === point.year - 1
+          ? point.sharesOutstanding / prior.sharesOutstanding - 1
+          : null;
+      return { ...point, netShareChange };
+    });
+
+  return {
+    ticker: ticker.toUpperCase(),
+    currency,
+    financialCurrency,
+    annual,
+    ratios,
+    dataQuality: summarizeDataQuality(annual),
+  };
+}
 
-  return { ticker: ticker.toUpperCase(), currency, annual, ratios };
+/**
+ * Map quarterly fundamentalsTimeSeries entries into app-level quarterly points.
+ *
+ * Same filtering as the annual mapper (entries without revenue or date are
+ * skipped). Keeps the 12 most recent quarters, most recent first.
+ */
+export function mapQuarterlyFromTimeSeries(entries: any[]): QuarterlyFundamentalPoint[] {
+  return entries
+    .filter((e: any) => e.totalRevenue != null && e.date instanceof Date)
+    .map((entry: any) => ({
+      year: entry.date.getUTCFullYear(),
+      quarter: Math.floor(entry.date.getUTCMonth() / 3) + 1,
+      periodEnd: entry.date.toISOString().slice(0, 10),
+      ...mapPeriodFlows(entry),
+    }))
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))
+    .slice(0, 12);
+}
+
+/**
+ * Fetch one fundamentalsTimeSeries series (income + cashflow + balance sheet).
+ *
+ * @param ticker - Stock ticker symbol
+ * @param type - Series granularity
+ * @param yearsBack - How many calendar years of history to request
+ */
+function fetchTimeSeries(ticker: string, type: "annual" | "quarterly", yearsBack: number): Promise<any[]> {
+  return withFixture(ticker, `fundamentalsTimeSeries:${type}`, () =>
+    yahooScheduler.run(`fundamentalsTimeSeries:${type}:${ticker}`, () =>
+      yahooFinance.fundamentalsTimeSeries(
+        ticker,
+        {
+          period1: new Date(new Date().getFullYear() - yearsBack, 0, 1).toISOString().slice(0, 10),
+          period2: new Date().toISOString().slice(0, 10),
+          type,
+          module: "all",
+        },
+        // Some tickers (e.g. Italian small-caps) return records with TYPE: 'UNKNOWN'
+        // that don't match any known schema. validateResult: false skips schema errors
+        // so we still get all valid records — our filter (totalRevenue != null) handles
+        // the rest.
+        { validateResult: false }
+      )
+    )
+  );
 }
 
 /**
  * Fetch historical financial statements and valuation ratios.
  *
- * Uses fundamentalsTimeSeries (the modern Yahoo API) for income/cashflow data,
+ * Uses fundamentalsTimeSeries (the modern Yahoo API) for income/cashflow/balance sheet data,
  * and quoteSummary for valuation ratios (P/E, P/B, etc.) which still work.
  * The old incomeStatementHistory/cashflowStatementHistory modules have been
  * deprecated by Yahoo since Nov 2024 and return mostly empty data.
  *
+ * With `period: "quarterly"` the quarterly series (last 3 years) is fetched
+ * as well, and a trailing-twelve-months point is computed from it.
+ *
  * @param ticker - Stock ticker symbol
+ * @param options - period: "annual" (default) or "quarterly"
  * @returns Fundamental data with normalized annual statements and ratios
  * @throws User-friendly error if ticker not found or rate limit hit
  */
-export async function getFundamentals(ticker: string): Promise<FundamentalsResponse> {
+export async function getFundamentals(
+  ticker: string,
+  options: { period?: FundamentalsPeriod } = {}
+): Promise<FundamentalsResponse> {
   try {
-    // Fetch time series (income + cashflow) and ratios in parallel
-    const [timeSeries, summary] = await Promise.all([
-      withRetry(() =>
-        yahooFinance.fundamentalsTimeSeries(
-          ticker,
-          {
-            period1: new Date(new Date().getFullYear() - 11, 0, 1).toISOString().slice(0, 10),
-            period2: new Date().toISOString().slice(0, 10),
-            type: "annual",
-            module: "all",
-          },
-          // Some tickers (e.g. Italian small-caps) return records with TYPE: 'UNKNOWN'
-          // that don't match any known schema. validateResult: false skips schema errors
-          // so we still get all valid records — our filter (totalRevenue != null) handles
-          // the rest.
-          { validateResult: false }
+    const includeQuarterly = options.period === "quarterly";
+
+    // Fetch time series (income + cashflow + balance sheet) and ratios in parallel
+    const [timeSeries, quarterlySeries, summary] = await Promise.all([
+      fetchTimeSeries(ticker, "annual", 11),
+      includeQuarterly ? fetchTimeSeries(ticker, "quarterly", 3) : Promise.resolve(null),
+      withFixture(ticker, "quoteSummary:summaryDetail,defaultKeyStatistics,price,financialData", () =>
+        yahooScheduler.run(`quoteSummary:summaryDetail,defaultKeyStatistics,price,financialData:${ticker}`, () =>
+          yahooFinance.quoteSummary(ticker, {
+            modules: ["summaryDetail", "defaultKeyStatistics", "price", "financialData"],
+          })
         )
       ),
-      withRetry(() =>
-        yahooFinance.quoteSummary(ticker, {
-          modules: ["summaryDetail", "defaultKeyStatistics", "price"],
-        })
-      ),
     ]);
 
     const summaryDetail: any = summary?.summaryDetail ?? {};
     const defaultKeyStatistics: any = summary?.defaultKeyStatistics ?? {};
     const currency = String(summary?.price?.currency || "USD");
+    // Statements can be reported in another currency than the listing trades in
+    // (ADRs, many EU/Asian listings); financialData is the only module exposing it.
+    const financialCurrency = String(summary?.financialData?.financialCurrency || currency);
 
     const ratios = {
       pe: extractRawNumber(summaryDetail?.trailingPE),
@@ -244,7 +582,14 @@ export async function getFundamentals(ticker: string): Promise<FundamentalsRespo
       evEbitda: extractRawNumber(defaultKeyStatistics?.enterpriseToEbitda),
     };
 
-    return mapFundamentalsFromTimeSeries(ticker, timeSeries, ratios, currency);
+    const fundamentals = mapFundamentalsFromTimeSeries(ticker, timeSeries, ratios, currency, financialCurrency);
+
+    if (quarterlySeries) {
+      const quarterly = mapQuarterlyFromTimeSeries(quarterlySeries);
+      return { ...fundamentals, quarterly, ttm: computeTtm(quarterly) };
+    }
+
+    return fundamentals;
   } catch (error) {
     throw normalizeYahooError(error);
   }
@@ -257,15 +602,17 @@ export async function getFundamentals(ticker: string): Promise<FundamentalsRespo
  * to equity value (which is then divided by shares outstanding for per-share value).
  *
  * @param ticker - Stock ticker symbol
- * @returns Net debt (positive = debt exceeds cash, negative = net cash position)
+ * @returns Net debt in the financial statement currency (positive = debt exceeds cash, negative = net cash position)
  * @throws User-friendly error if ticker not found or rate limit hit
  */
 export async function getNetDebtEstimate(ticker: string): Promise<number> {
   try {
-    const summary = await withRetry(() =>
-      yahooFinance.quoteSummary(ticker, {
-        modules: ["financialData"]
-      })
+    const summary = await withFixture(ticker, "quoteSummary:financialData", () =>
+      yahooScheduler.run(`quoteSummary:financialData:${ticker}`, () =>
+        yahooFinance.quoteSummary(ticker, {
+          modules: ["financialData"]
+        })
+      )
     );
 
     const totalDebt = extractRawNumber(summary?.financialData?.totalDebt) ?? 0;
@@ -318,24 +665,27 @@ export function mapAnalystEstimates(summary: any): AnalystEstimates {
 }
 
 /**
- * Fetch the current US 10-Year Treasury yield as a risk-free rate proxy.
+ * Fetch a government bond yield index as a risk-free rate proxy.
  *
- * We use ^TNX (CBOE Interest Rate 10 Year T-Note) because:
+ * Defaults to ^TNX (CBOE Interest Rate 10 Year T-Note), the US benchmark, because:
  * - It's the market-standard proxy for the risk-free rate in CAPM/WACC calculations
  * - It's available via Yahoo Finance, our existing data provider (no extra API key needed)
  * - It updates in real-time during US market hours
  *
- * Note: ^TNX reports the yield in percentage points (e.g., 4.52 means 4.52%),
- * not as a decimal — we divide by 100 before returning.
+ * Which index to use for a given currency is decided by the registry in
+ * lib/market-data/risk-free.ts.
  *
- * This data is informational only; it does not affect DCF calculations directly.
- * Users can use it as a reference when manually adjusting WACC in the scenario panel.
+ * Note: yield indices like ^TNX report the yield in percentage points (e.g., 4.52
+ * means 4.52%), not as a decimal — we divide by 100 before returning.
  *
+ * @param symbol - Yahoo yield index symbol
  * @returns Rate as a decimal (e.g., 0.0452 for 4.52%) with ISO timestamp, or null on failure
  */
-export async function getRiskFreeRate(): Promise<{ rate: number; asOf: string } | null> {
+export async function getRiskFreeRate(symbol = "^TNX"): Promise<{ rate: number; asOf: string } | null> {
   try {
-    const quote = await withRetry(() => yahooFinance.quote("^TNX"));
+    const quote = await withFixture(symbol, "quote", () =>
+      yahooScheduler.run(`quote:${symbol}`, () => yahooFinance.quote(symbol))
+    );
 
     const price = extractRawNumber(quote?.regularMarketPrice);
     if (price === null) return null;
@@ -350,6 +700,40 @@ export async function getRiskFreeRate(): Promise<{ rate: number; asOf: string }
   }
 }
 
+/**
+ * Fetch the spot exchange rate between two (major) currencies.
+ *
+ * Uses Yahoo's currency pair symbols (e.g., "EURUSD=X" → USD per 1 EUR).
+ * Minor units like GBp are handled by the caller (lib/market-data/fx.ts).
+ *
+ * @param from - ISO currency code to convert from (e.g., "EUR")
+ * @param to - ISO currency code to convert to (e.g., "USD")
+ * @returns Units of `to` per unit of `from`, with the quote time
+ * @throws User-friendly error if the pair is unknown or rate limit hit
+ */
+export async function getFxRate(from: string, to: string): Promise<{ rate: number; asOf: string }> {
+  const symbol = `${from}${to}=X`.toUpperCase();
+
+  try {
+    const quote = await withFixture(symbol, "quote", () =>
+      yahooScheduler.run(`quote:${symbol}`, () => yahooFinance.quote(symbol))
+    );
+    const rate = extractRawNumber(quote?.regularMarketPrice);
+
+    if (rate === null || rate <= 0) {
+      throw new Error(`Exchange rate ${from}/${to} unavailable.`);
+    }
+
+    const quoteTime = quote?.regularMarketTime;
+    return {
+      rate,
+      asOf: quoteTime instanceof Date ? quoteTime.toISOString() : new Date().toISOString(),
+    };
+  } catch (error) {
+    throw normalizeYahooError(error);
+  }
+}
+
 /**
  * Fetch analyst consensus estimates and current financial metrics.
  *
@@ -363,11 +747,13 @@ export async function getRiskFreeRate(): Promise<{ rate: number; asOf: string }
  */
 export async function getAnalystEstimates(ticker: string): Promise<AnalystEstimates> {
   try {
-    const summary = await withRetry(() =>
-      yahooFinance.quoteSummary(ticker, {
-        // defaultKeyStatistics provides beta for CAPM-based WACC calculation
-        modules: ["earningsTrend", "financialData", "defaultKeyStatistics"]
-      })
+    const summary = await withFixture(ticker, "quoteSummary:earningsTrend,financialData,defaultKeyStatistics", () =>
+      yahooScheduler.run(`quoteSummary:earningsTrend,financialData,defaultKeyStatistics:${ticker}`, () =>
+        yahooFinance.quoteSummary(ticker, {
+          // defaultKeyStatistics provides beta for CAPM-based WACC calculation
+          modules: ["earningsTrend", "financialData", "defaultKeyStatistics"]
+        })
+      )
     );
 
     return mapAnalystEstimates(summary);
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "MarketDataCache" (
+    "provider" TEXT NOT NULL,
+    "ticker" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "fetchedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("provider", "ticker", "kind")
+);
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "ManualFundamentals" (
+    "userId" TEXT NOT NULL,
+    "ticker" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("userId", "ticker"),
+    CONSTRAINT "ManualFundamentals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
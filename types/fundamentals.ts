@@ -1,17 +1,95 @@
+import { CacheStatus } from "@/types/market";
+
+/**
+ * Where a statement figure came from.
+ *
+ * - "reported": taken as-is from the source
+ * - "derived": computed from other reported lines (e.g., FCF = operating cash + capex)
+ * - "missing": not reported; the numeric field holds 0 as a placeholder
+ */
+export type FieldProvenance = "reported" | "derived" | "missing";
+
+/**
+ * Provenance of the flow fields that feed charts, margins and the DCF.
+ */
+export type FlowProvenance = {
+  revenue: FieldProvenance;
+  ebit: FieldProvenance;
+  netIncome: FieldProvenance;
+  fcf: FieldProvenance;
+};
+
 /**
  * Single year of financial statement data.
  *
- * Combines income statement and cash flow metrics with calculated margins.
+ * Combines income statement and cash flow metrics with calculated margins,
+ * plus fiscal-year-end balance sheet items (leverage, ROIC, book value, dilution)
+ * and cash returned to shareholders (dividends, buybacks).
  * Used for historical charting and DCF input (most recent year's revenue).
+ *
+ * Balance sheet and shareholder return fields are null when the source didn't
+ * report them for that year, and may be absent entirely for sources without them.
  */
 export type AnnualFundamentalPoint = {
   year: number;
+  periodEnd?: string;        // ISO 8601 fiscal year end date, when the source reports it
   revenue: number;
   ebit: number;              // Earnings Before Interest and Tax
   netIncome: number;
   fcf: number;               // Free Cash Flow (operating cash - capex)
   operatingMargin: number;   // EBIT / revenue (decimal, e.g., 0.15 = 15%)
   netMargin: number;         // Net income / revenue (decimal)
+  provenance?: FlowProvenance;          // Absent for sources that don't track it (treat as reported)
+  totalAssets?: number | null;
+  totalEquity?: number | null;          // Stockholders' equity (book value)
+  cash?: number | null;                 // Cash and cash equivalents
+  totalDebt?: number | null;            // Short + long term debt (incl. leases where reported)
+  currentAssets?: number | null;
+  currentLiabilities?: number | null;
+  goodwill?: number | null;
+  sharesOutstanding?: number | null;    // Ordinary shares at fiscal year end (for dilution trends)
+  dividendsPaid?: number | null;        // Cash dividends paid (positive amount)
+  dividendsPerShare?: number | null;    // dividendsPaid / sharesOutstanding
+  buybacks?: number | null;             // Cash spent repurchasing stock (positive amount)
+  netShareChange?: number | null;       // Share count change vs prior year (decimal, negative = net buybacks)
+};
+
+/**
+ * Statement granularity requested from a provider.
+ *
+ * "annual" returns fiscal years only; "quarterly" additionally returns the
+ * quarterly series and the computed trailing-twelve-months point.
+ */
+export type FundamentalsPeriod = "annual" | "quarterly";
+
+/**
+ * Income statement and cash flow figures for a period, with margins.
+ */
+type PeriodFlows = Pick<
+  AnnualFundamentalPoint,
+  "revenue" | "ebit" | "netIncome" | "fcf" | "operatingMargin" | "netMargin" | "provenance"
+>;
+
+/**
+ * Single fiscal quarter of financial statement data.
+ *
+ * `year`/`quarter` are the calendar year and quarter of the period end date,
+ * which may differ from the company's fiscal labels (e.g., Apple's fiscal Q1
+ * ends in December and is reported here as Q4).
+ */
+export type QuarterlyFundamentalPoint = PeriodFlows & {
+  year: number;
+  quarter: number;           // 1-4, calendar quarter of periodEnd
+  periodEnd: string;         // ISO 8601 date (YYYY-MM-DD)
+};
+
+/**
+ * Trailing-twelve-months figures: sum of the four most recent quarters.
+ *
+ * More current than the last fiscal year, which can be almost a year stale.
+ */
+export type TtmFundamentalPoint = PeriodFlows & {
+  periodEnd: string;         // End date of the most recent quarter included
 };
 
 /**
@@ -27,16 +105,80 @@ export type Ratios = {
   evEbitda?: number | null;    // Enterprise Value / EBITDA (optional, not all sources provide)
 };
 
+/**
+ * Summary of how much of the annual history rests on reported figures.
+ *
+ * Counts cover the flow fields in `FlowProvenance` across all annual points.
+ */
+export type DataQuality = {
+  reported: number;
+  derived: number;
+  missing: number;
+  flaggedYears: number[];      // Years with at least one derived or missing field, most recent first
+};
+
+/**
+ * Kind of irregularity found in the annual history.
+ *
+ * - "jump": year-over-year change beyond the configured bound (acquisition, restatement)
+ * - "signFlip": sign differs from most other years (one-off loss or writedown)
+ * - "marginSpike": margin far from the median of the other years
+ */
+export type FundamentalAnomalyKind = "jump" | "signFlip" | "marginSpike";
+
+/**
+ * A flagged year in the annual history, with a short explanation for the UI.
+ */
+export type FundamentalAnomaly = {
+  year: number;
+  kind: FundamentalAnomalyKind;
+  field: keyof FlowProvenance | "operatingMargin" | "netMargin";
+  message: string;
+};
+
 /**
  * Historical financial statements and valuation ratios for a ticker.
  *
  * Contains up to 5 years of annual data plus current valuation multiples.
  * Annual array may have fewer than 5 elements for newer companies or
  * tickers with incomplete Yahoo Finance data.
+ *
+ * Statement amounts (and net debt) are in `financialCurrency`, which differs
+ * from the trading `currency` for ADRs and many non-US listings (e.g., a
+ * Taiwanese ADR trades in USD but reports in TWD).
  */
 export type FundamentalsResponse = {
   ticker: string;
-  currency: string;
+  currency: string;            // Trading currency (same as the quote)
+  financialCurrency: string;   // Currency of the financial statements
   annual: AnnualFundamentalPoint[];
+  quarterly?: QuarterlyFundamentalPoint[];   // Most recent first; only when period = "quarterly"
+  ttm?: TtmFundamentalPoint | null;          // Null when four consecutive quarters aren't available
   ratios: Ratios;
+  dataQuality: DataQuality;
+  manualImport?: { fileName: string; updatedAt: string };  // Set when served from the user's uploaded statements
+  secFilings?: { cik: number; entityName: string; lastFiled: string };  // Set when built from SEC 10-K company facts
+  fetchedAt?: string;          // ISO 8601 timestamp of the provider fetch (set by the cache layer)
+  cacheStatus?: CacheStatus;   // Set when served through the market data cache
+};
+
+/**
+ * Money scale of an uploaded statements file ("thousands" = amounts in 000s).
+ */
+export type StatementScale = "units" | "thousands" | "millions";
+
+/**
+ * Annual statements a user uploaded (CSV/XLSX) for a ticker the market data
+ * provider doesn't cover. Overrides provider fundamentals for that user.
+ *
+ * Amounts are stored in `currency` at unit scale, whatever the file used.
+ */
+export type ManualFundamentals = {
+  ticker: string;
+  currency: string;
+  annual: AnnualFundamentalPoint[];       // Most recent first
+  sharesOutstanding: number | null;       // Latest year's share count
+  netDebt: number | null;                 // Latest year's net debt (debt - cash), when the file has it
+  fileName: string;
+  updatedAt: string;                      // ISO 8601
 };
@@ -1,10 +1,41 @@
 /**
  * Geographic region classification for tickers.
  *
- * Used to categorize stocks by primary exchange location for UI grouping
- * and potential region-specific logic (e.g., tax rates, trading hours).
+ * Used to categorize stocks by primary exchange location for UI grouping.
+ * "EU" covers all of Europe (incl. UK and Switzerland); "AMERICAS" is the
+ * Americas outside the US. Exchange-specific data (trading hours, tax rates)
+ * lives in `ExchangeInfo`.
  */
-export type Region = "US" | "EU" | "OTHER";
+export type Region = "US" | "EU" | "AMERICAS" | "APAC" | "OTHER";
+
+/**
+ * Static metadata of a stock exchange (see lib/market-data/exchanges.ts).
+ */
+export type ExchangeInfo = {
+  code: string;               // Yahoo exchange code (e.g., "MIL", "NMS")
+  mic: string;                // ISO 10383 market identifier (e.g., "XMIL")
+  name: string;
+  country: string;            // ISO 3166 alpha-2
+  region: Region;
+  currency: string;           // Usual trading currency (e.g., "GBp" for London)
+  timezone: string;           // IANA time zone of the trading hours
+  tradingHours: { open: string; close: string };  // Regular session, local "HH:MM", Monday-Friday
+  corporateTaxRate: number;   // Statutory headline rate incl. typical local taxes (decimal)
+};
+
+/**
+ * Whether an exchange's regular session is running (holidays are not modelled).
+ */
+export type MarketStatus = "open" | "closed";
+
+/**
+ * Freshness of a market data response served through the server-side cache.
+ *
+ * - fresh: served from cache within its TTL
+ * - stale: TTL expired; served from cache while a background refresh runs
+ * - miss: fetched from the provider on this request
+ */
+export type CacheStatus = "fresh" | "stale" | "miss";
 
 /**
  * Real-time market quote data for a ticker.
@@ -22,5 +53,79 @@ export type QuoteResponse = {
   regularMarketPrice: number;
   marketCap: number | null;           // Null if not reported by Yahoo Finance
   sharesOutstanding: number | null;   // Null if not reported (required for DCF)
-  fetchedAt: string;                  // ISO 8601 timestamp
+  market: ExchangeInfo | null;        // Null for exchanges missing from the registry
+  fetchedAt: string;                  // ISO 8601 timestamp of the provider fetch (not of the request)
+  cacheStatus?: CacheStatus;          // Set when served through the market data cache
+};
+
+/**
+ * Outcome for one ticker of a batch request: the usual response shape, or
+ * the error message the single-ticker route would have returned.
+ */
+export type BatchResult<T> = { ticker: string; data: T } | { ticker: string; error: string };
+
+/**
+ * Lookback window for historical price series.
+ */
+export type HistoryRange = "1mo" | "3mo" | "6mo" | "1y" | "2y" | "5y" | "10y" | "max";
+
+/**
+ * Sampling interval for historical price series.
+ */
+export type HistoryInterval = "1d" | "1wk" | "1mo";
+
+/**
+ * Single closing price observation.
+ */
+export type PricePoint = {
+  date: string;    // ISO 8601 date (YYYY-MM-DD)
+  close: number;   // Split-adjusted close (not dividend-adjusted, comparable to per-share fair value)
+};
+
+/**
+ * Historical closing prices for a ticker, oldest first.
+ */
+export type PriceHistoryResponse = {
+  ticker: string;
+  currency: string;
+  range: HistoryRange;
+  interval: HistoryInterval;
+  points: PricePoint[];
+  fetchedAt?: string;         // ISO 8601 timestamp of the provider fetch (set by the cache layer)
+  cacheStatus?: CacheStatus;  // Set when served through the market data cache
+};
+
+/**
+ * Single symbol suggestion from a ticker search.
+ */
+export type SymbolSearchResult = {
+  symbol: string;            // Yahoo symbol incl. exchange suffix (e.g., "ENI.MI")
+  name: string;
+  exchange: string;          // Exchange display name (e.g., "Milan")
+  region: Region;
+  currency: string | null;   // Null when the quote lookup for currency failed
+};
+
+/**
+ * Exchange rate between two currencies: 1 unit of `from` = `rate` units of `to`.
+ *
+ * Minor-unit codes (e.g., "GBp" pence for London listings) are supported.
+ */
+export type FxRate = {
+  from: string;
+  to: string;
+  rate: number;
+  asOf: string;   // ISO 8601 timestamp of the underlying quote
+};
+
+/**
+ * Risk-free rate (10Y government bond yield) for a ticker's currency.
+ */
+export type RiskFreeRateResponse = {
+  rate: number;                      // Decimal (0.0452 = 4.52%)
+  asOf: string | null;               // ISO 8601 timestamp; null for table values
+  country: string;                   // Issuer, ISO 3166 alpha-2 (e.g., "IT")
+  label: string;                     // Benchmark name for display (e.g., "BTP 10Y")
+  currency: string;
+  source: "market" | "fallback" | "static";  // Live quote, table value while it's unavailable, or table value (benchmark has no live quote)
 };
@@ -21,25 +21,110 @@ export type ScenarioInput = {
   terminalGrowth: number;            // Perpetual growth rate for terminal value (must be < WACC)
 };
 
+/**
+ * Assumptions for a single projection year (decimals).
+ */
+export type ProjectionYearAssumptions = {
+  revenueGrowth: number;             // Revenue growth vs the prior year
+  operatingMargin: number;           // EBIT / revenue
+  taxRate: number;                   // Tax rate on EBIT
+  reinvestmentRate: number;          // % of NOPAT reinvested
+};
+
+/**
+ * Anchor for fading assumptions: values reached in `year` (1-based),
+ * interpolated linearly in between anchors.
+ */
+export type ProjectionAnchor = ProjectionYearAssumptions & { year: number };
+
+/**
+ * Multi-stage DCF scenario with explicit per-year assumptions.
+ *
+ * The horizon is the number of `years` (up to 30); the terminal value
+ * grows the final year's free cash flow at `terminalGrowth`.
+ */
+export type MultiStageScenarioInput = {
+  years: ProjectionYearAssumptions[];  // Year 1 first
+  wacc: number;
+  terminalGrowth: number;
+};
+
+/**
+ * Scenario accepted by the DCF engine: the `ScenarioInput` shorthand
+ * (expanded to 10 years) or explicit per-year assumptions.
+ */
+export type DcfScenario = ScenarioInput | MultiStageScenarioInput;
+
 /**
  * Complete set of scenario inputs for bull, base, and bear cases.
  */
 export type ScenariosInput = Record<ScenarioName, ScenarioInput>;
 
+/**
+ * Which revenue figure the DCF projection starts from.
+ *
+ * "annual" uses the last fiscal year; "ttm" uses the trailing twelve months
+ * (sum of the last four quarters), which is more current but requires
+ * quarterly data.
+ */
+export type RevenueBasis = "annual" | "ttm";
+
+/**
+ * When within each projection year cash flows are assumed to arrive.
+ *
+ * "end-of-year" discounts year N by N full years; "mid-year" by N - 0.5,
+ * treating cash as earned evenly through the year.
+ */
+export type DiscountConvention = "end-of-year" | "mid-year";
+
+/**
+ * Discounting setup a valuation was computed with, so it can be reproduced.
+ */
+export type DiscountingInfo = {
+  convention: DiscountConvention;
+  valuationDate: string | null;   // ISO 8601 date cash flows are discounted to; null for the end of the starting period
+  periodEnd: string | null;       // End of the starting (year 0) period; null when the source doesn't report it
+  stubFraction: number;           // Share of projection year 1 already elapsed at the valuation date (0-1)
+};
+
 /**
  * Request payload for DCF valuation API endpoint.
  */
 export type ValuationRequest = {
   mosPercent: number;                      // Margin of safety (0-80%) applied to fair value
   sharesOutstandingOverride?: number;      // Optional override if Yahoo data is missing
-  scenarios: ScenariosInput;
+  revenueBasis?: RevenueBasis;             // Starting revenue for the projection (default "annual")
+  discountConvention?: DiscountConvention; // Default "end-of-year"
+  valuationDate?: string;                  // ISO 8601 date to value as of (default: end of the starting period, no stub)
+  scenarios: Record<ScenarioName, DcfScenario>;
+  probabilities?: ScenarioProbabilities;   // Default 25% bull / 50% base / 25% bear
+  statusBasis?: StatusBasis;               // Default "base"
+};
+
+/**
+ * One explicit year of a DCF projection, as computed by the engine.
+ *
+ * Money amounts are in the valuation's trading currency.
+ */
+export type ProjectionYear = {
+  year: number;                   // 1-based projection year
+  revenue: number;
+  revenueGrowth: number;          // Decimal growth vs the prior year
+  ebit: number;
+  operatingMargin: number;        // Decimal
+  nopat: number;                  // EBIT after tax
+  fcf: number;                    // NOPAT after reinvestment
+  discountPeriod: number;         // Years from the valuation date to the cash flow
+  discountFactor: number;         // 1 / (1 + WACC)^discountPeriod
+  presentValue: number;           // fcf × discountFactor (year 1: only the part not yet elapsed)
 };
 
 /**
  * DCF valuation output for a single scenario.
  *
- * Contains intermediate values (enterprise/equity value) and final per-share
- * metrics with margin of safety adjustment applied.
+ * Contains intermediate values (enterprise/equity value), final per-share
+ * metrics with margin of safety adjustment applied, and the per-year
+ * projection and terminal value behind them for auditing.
  */
 export type ScenarioResult = {
   enterpriseValue: number;        // Present value of all future cash flows + terminal value
@@ -47,6 +132,179 @@ export type ScenarioResult = {
   fairValuePerShare: number;      // Equity value / shares outstanding
   fairValueAfterMos: number;      // Fair value with margin of safety discount applied
   upsideVsPricePercent: number;   // % difference between MoS-adjusted fair value and current price
+  projection: ProjectionYear[];   // Explicit years, year 1 first
+  terminalValue: number;          // Gordon Growth value at the end of the horizon (undiscounted)
+  discountedTerminalValue: number;  // Terminal value discounted to today
+  terminalValueShare: number;     // discountedTerminalValue / enterpriseValue (decimal)
+};
+
+/**
+ * Scenario assumption a reverse DCF can solve for.
+ */
+export type ImpliedVariable = "revenueGrowthYears1to5" | "operatingMarginTarget" | "wacc";
+
+/**
+ * Reverse DCF solution for one variable.
+ */
+export type ImpliedValueResult = {
+  variable: ImpliedVariable;
+  value: number | null;                  // Decimal; null when no value within the input bounds reprices the stock
+  outOfRange: "below" | "above" | null;  // When value is null: which side of the bounds the solution lies beyond
+  iterations: number;                    // Bisection steps taken
+};
+
+/**
+ * Response from the implied (reverse DCF) API endpoint.
+ */
+export type ImpliedValuationResponse = {
+  ticker: string;
+  currency: string;
+  currentPrice: number;
+  scenarioValue: number;                 // The variable's value in the submitted scenario, for comparison
+  implied: ImpliedValueResult;
+  discounting: DiscountingInfo;
+};
+
+/**
+ * Distribution of one scenario field in a Monte Carlo simulation (decimals).
+ */
+export type ParameterDistribution =
+  | { type: "normal"; mean: number; stdDev: number }
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "uniform"; min: number; max: number };
+
+/**
+ * Distributions per scenario field; fields left out keep the base scenario's value.
+ */
+export type MonteCarloDistributions = Partial<Record<keyof ScenarioInput, ParameterDistribution>>;
+
+/**
+ * Monte Carlo outcome: distribution of fair value per share (before margin of safety).
+ */
+export type MonteCarloResult = {
+  runs: number;                          // Valued runs
+  discardedRuns: number;                 // Draws with WACC at or below terminal growth
+  seed: number;                          // Re-run with this seed to reproduce the result
+  mean: number;
+  percentiles: { p5: number; p10: number; p25: number; p50: number; p75: number; p90: number; p95: number };
+  probabilityAbovePrice: number;         // Share of runs with fair value above the current price (0-1)
+  histogram: Array<{ from: number; to: number; count: number }>;
+};
+
+/**
+ * Response from the Monte Carlo API endpoint.
+ */
+export type MonteCarloResponse = {
+  ticker: string;
+  currency: string;
+  currentPrice: number;
+  correlation: number;
+  distributions: MonteCarloDistributions;
+  result: MonteCarloResult;
+  discounting: DiscountingInfo;
+};
+
+/**
+ * Scenario field a sensitivity table can vary.
+ */
+export type SensitivityParameter = keyof ScenarioInput;
+
+/**
+ * Valuation at one point of a sensitivity grid.
+ */
+export type SensitivityCell = {
+  fairValuePerShare: number;
+  fairValueAfterMos: number;
+  upsideVsPricePercent: number;
+  onPriceContour: boolean;               // Fair value after MoS crosses the current price next to this cell
+};
+
+/**
+ * Two-way sensitivity table: `cells[row][column]`, null where the
+ * combination breaks the scenario constraints (WACC at or below terminal growth).
+ */
+export type SensitivityGrid = {
+  rowParameter: SensitivityParameter;
+  columnParameter: SensitivityParameter;
+  rowValues: number[];                   // Ascending
+  columnValues: number[];                // Ascending
+  baseRowValue: number;                  // The scenario's own values, to highlight its cell
+  baseColumnValue: number;
+  cells: Array<Array<SensitivityCell | null>>;
+};
+
+/**
+ * Response from the sensitivity API endpoint.
+ */
+export type SensitivityResponse = {
+  ticker: string;
+  currency: string;
+  currentPrice: number;
+  mosPercent: number;
+  grid: SensitivityGrid;
+  discounting: DiscountingInfo;
+};
+
+/**
+ * Probability assigned to each scenario (decimals adding up to 1).
+ */
+export type ScenarioProbabilities = Record<ScenarioName, number>;
+
+/**
+ * Which fair value the summary status is classified on.
+ *
+ * "base" uses the base scenario alone; "weighted" the probability-weighted
+ * fair value across bull, base and bear.
+ */
+export type StatusBasis = "base" | "weighted";
+
+/**
+ * Probability-weighted fair value across the three scenarios.
+ */
+export type WeightedValuation = {
+  probabilities: ScenarioProbabilities;  // As applied
+  fairValuePerShare: number;
+  fairValueAfterMos: number;
+  expectedUpsidePercent: number;         // % difference between the weighted fair value after MoS and the price
+};
+
+/**
+ * ±delta per scenario field for a tornado analysis (decimals); fields left
+ * out use the defaults.
+ */
+export type TornadoDeltas = Partial<Record<keyof ScenarioInput, number>>;
+
+/**
+ * Effect of moving one scenario field down and up, other fields at base.
+ */
+export type TornadoBar = {
+  parameter: keyof ScenarioInput;
+  baseValue: number;
+  lowValue: number;                      // Base - delta, clamped to the input bounds
+  highValue: number;                     // Base + delta, clamped to the input bounds
+  lowFairValue: number | null;           // Fair value per share at lowValue; null when WACC <= terminal growth
+  highFairValue: number | null;
+  swing: number;                         // Range of fair values across low, base and high
+};
+
+/**
+ * Tornado analysis: fair values per share before margin of safety.
+ */
+export type TornadoResult = {
+  baseFairValue: number;
+  bars: TornadoBar[];                    // Largest swing first
+};
+
+/**
+ * Response from the tornado API endpoint.
+ */
+export type TornadoResponse = {
+  ticker: string;
+  currency: string;
+  currentPrice: number;
+  deltas: Record<keyof ScenarioInput, number>;  // Deltas applied, defaults included
+  result: TornadoResult;
+  discounting: DiscountingInfo;
 };
 
 /**
@@ -79,20 +337,33 @@ export type AnalystEstimatesResponse = {
   ticker: string;
   analystEstimates: AnalystEstimates;
   smartScenarios: ScenariosInput;
+  excludedYears: number[];     // Years left out of the smart scenarios as anomalous (empty unless requested)
+  statutoryTaxRate: number | null;  // Listing country's corporate tax rate, the fallback when statements give no effective rate
 };
 
 /**
  * Complete valuation response with results for all three scenarios.
  *
- * Includes summary assessment based on base scenario upside percentage.
+ * Includes the probability-weighted fair value and a summary assessment
+ * based on the base scenario's or the weighted upside percentage.
  */
 export type ValuationResponse = {
   ticker: string;
+  currency: string;                                    // Trading currency; all per-share values are in it
+  financialCurrency: string;                           // Currency the statements were reported in
+  fxRate: number;                                      // financialCurrency → currency rate applied before the DCF (1 if same)
   currentPrice: number;
   mosPercent: number;                                  // Margin of safety % used in calculation
+  revenueBasis: RevenueBasis;                          // Which revenue the projection started from
+  startingRevenue: number;                             // The revenue figure actually used (year 0), in trading currency
+  dataWarnings: string[];                              // Derived/missing figures in the starting period (empty when all reported)
+  discounting: DiscountingInfo;                        // Convention, valuation date and stub period used
   scenarios: Record<ScenarioName, ScenarioResult>;
+  weighted: WeightedValuation;                         // Probability-weighted across the scenarios
   summary: {
-    status: "undervalued" | "fair" | "overvalued";    // Based on base scenario upside
+    status: "undervalued" | "fair" | "overvalued";    // Based on base scenario or weighted upside (see statusBasis)
+    statusBasis: StatusBasis;
     baseScenarioUpsideAfterMos: number;                // Quick reference for base case upside
+    weightedUpsideAfterMos: number;                    // Quick reference for the expected upside
   };
 };
@@ -1,6 +1,14 @@
+import path from "node:path";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  // Mirror the "@/*" path alias from tsconfig.json so modules under test can
+  // use the same imports as the app.
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, ".")
+    }
+  },
   test: {
     globals: true,
     environment: "jsdom",